@@ -0,0 +1,426 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+	Diagnostic,
+	DiagnosticSeverity,
+	DidCloseTextDocumentNotification,
+	DidOpenTextDocumentNotification,
+	ExitNotification,
+	InitializeRequest,
+	InitializedNotification,
+	ProtocolConnection,
+	PublishDiagnosticsNotification,
+	ShutdownRequest,
+	StreamMessageReader,
+	StreamMessageWriter,
+	createProtocolConnection,
+} from 'vscode-languageserver-protocol/node';
+import type { LinterSettings, RuleSeveritySetting } from '../config/settings';
+import { resolveServerCommand } from '../lsp/serverProcess';
+
+type OutputFormat = 'text' | 'json';
+
+export interface CliOptions {
+	root: string;
+	profile: string;
+	ruleOverrides: Record<string, RuleSeveritySetting>;
+	policyPackPaths: string[];
+	format: OutputFormat;
+	failOn: RuleSeveritySetting;
+	timeoutMs: number;
+}
+
+export interface FileResult {
+	file: string;
+	diagnostics: Diagnostic[];
+	timedOut: boolean;
+}
+
+const SEVERITY_SETTINGS: readonly RuleSeveritySetting[] = ['error', 'warn', 'info', 'off'];
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', 'Library', 'Temp', 'Logs', 'obj', 'bin']);
+const EXIT_FINDINGS = 1;
+const EXIT_FAILURE = 2;
+
+const USAGE = `Usage: udonsharp-lint [options] [directory]
+
+Runs the UdonSharp Linter language server over every C# file in <directory>.
+
+Options:
+  --profile <name>         Constraint profile (default: latest)
+  --rule <ID=severity>     Override a rule severity (error, warn, info, off); repeatable
+  --policy-pack <path>     Additional policy pack JSON file; repeatable
+  --format <text|json>     Output format (default: text)
+  --fail-on <severity>     Exit with code 1 when a finding is at or above this severity
+                           (error, warn, info, off to never fail; default: error)
+  --timeout <seconds>      Per-file analysis timeout (default: 60); files that time out
+                           are reported and make the run exit with code 2
+  -h, --help               Show this help
+`;
+
+async function main(argv: string[]): Promise<number> {
+	let options: CliOptions;
+	try {
+		const parsed = parseArguments(argv);
+		if (!parsed) {
+			process.stdout.write(USAGE);
+			return 0;
+		}
+		options = parsed;
+	} catch (error) {
+		process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+		return EXIT_FAILURE;
+	}
+
+	const files = collectSourceFiles(options.root);
+	const results = await lintFiles(options, files);
+	process.stdout.write(options.format === 'json' ? formatJson(options, results) : formatText(options, results));
+
+	return getExitCode(results, options.failOn);
+}
+
+/** Parses the command line; `undefined` means help was requested. Invalid arguments throw. */
+export function parseArguments(argv: string[]): CliOptions | undefined {
+	const options: CliOptions = {
+		root: process.cwd(),
+		profile: 'latest',
+		ruleOverrides: {},
+		policyPackPaths: [],
+		format: 'text',
+		failOn: 'error',
+		timeoutMs: 60_000,
+	};
+
+	for (let index = 0; index < argv.length; index += 1) {
+		const argument = argv[index];
+		const takeValue = (): string => {
+			const value = argv[index + 1];
+			if (value === undefined || value.startsWith('--')) {
+				throw new Error(`Missing value for ${argument}.`);
+			}
+			index += 1;
+			return value;
+		};
+
+		switch (argument) {
+		case '-h':
+		case '--help':
+			return undefined;
+		case '--profile':
+			options.profile = takeValue();
+			break;
+		case '--rule': {
+			const [ruleId, severity] = takeValue().split('=', 2);
+			if (!ruleId || !isSeverity(severity)) {
+				throw new Error(`Invalid rule override "${argv[index]}". Expected ID=error|warn|info|off.`);
+			}
+			options.ruleOverrides[ruleId.toUpperCase()] = severity;
+			break;
+		}
+		case '--policy-pack':
+			options.policyPackPaths.push(path.resolve(takeValue()));
+			break;
+		case '--format': {
+			const format = takeValue();
+			if (format !== 'text' && format !== 'json') {
+				throw new Error(`Unsupported format "${format}".`);
+			}
+			options.format = format;
+			break;
+		}
+		case '--fail-on': {
+			const severity = takeValue();
+			if (!isSeverity(severity)) {
+				throw new Error(`Invalid --fail-on severity "${severity}".`);
+			}
+			options.failOn = severity;
+			break;
+		}
+		case '--timeout': {
+			const seconds = Number(takeValue());
+			if (!Number.isFinite(seconds) || seconds <= 0) {
+				throw new Error('--timeout expects a positive number of seconds.');
+			}
+			options.timeoutMs = seconds * 1_000;
+			break;
+		}
+		default:
+			if (argument.startsWith('-')) {
+				throw new Error(`Unknown option ${argument}.`);
+			}
+			options.root = path.resolve(argument);
+			break;
+		}
+	}
+
+	if (!fs.existsSync(options.root) || !fs.statSync(options.root).isDirectory()) {
+		throw new Error(`${options.root} is not a directory.`);
+	}
+	return options;
+}
+
+function isSeverity(value: string | undefined): value is RuleSeveritySetting {
+	return SEVERITY_SETTINGS.includes(value as RuleSeveritySetting);
+}
+
+/**
+ * 2 when a file timed out, since it was never checked; otherwise 1 when a finding is at or
+ * above `failOn`, and 0. A missing severity counts as a warning.
+ */
+export function getExitCode(results: readonly FileResult[], failOn: RuleSeveritySetting): number {
+	if (results.some(result => result.timedOut)) {
+		return EXIT_FAILURE;
+	}
+	const threshold = toThreshold(failOn);
+	const failed = results.some(result => result.diagnostics.some(diagnostic => (diagnostic.severity ?? DiagnosticSeverity.Warning) <= threshold));
+	return failed ? EXIT_FINDINGS : 0;
+}
+
+function toThreshold(failOn: RuleSeveritySetting): number {
+	switch (failOn) {
+	case 'error':
+		return DiagnosticSeverity.Error;
+	case 'warn':
+		return DiagnosticSeverity.Warning;
+	case 'info':
+		return DiagnosticSeverity.Information;
+	case 'off':
+	default:
+		return 0;
+	}
+}
+
+function collectSourceFiles(root: string): string[] {
+	const files: string[] = [];
+	const pending = [root];
+	while (pending.length > 0) {
+		const directory = pending.pop()!;
+		for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+			const fullPath = path.join(directory, entry.name);
+			if (entry.isDirectory()) {
+				if (!IGNORED_DIRECTORIES.has(entry.name)) {
+					pending.push(fullPath);
+				}
+			} else if (entry.isFile() && entry.name.endsWith('.cs')) {
+				files.push(fullPath);
+			}
+		}
+	}
+	return files.sort();
+}
+
+function createSettings(options: CliOptions): LinterSettings {
+	return {
+		profile: options.profile,
+		ruleOverrides: options.ruleOverrides,
+		unityApiSurface: 'bundled-stubs',
+		customStubPath: undefined,
+		allowRefOut: false,
+		codeActionsEnabled: false,
+		telemetry: 'off',
+		policyPackPaths: options.policyPackPaths,
+		// The CLI lints exactly the files it is given; scoping only applies in the editor.
+		include: ['**/*.cs'],
+		exclude: [],
+		udonSharpBehavioursOnly: false,
+		overrides: [],
+	};
+}
+
+async function lintFiles(options: CliOptions, files: readonly string[]): Promise<FileResult[]> {
+	const extensionRoot = path.resolve(__dirname, '..');
+	const serverCommand = await resolveServerCommand(extensionRoot, {}, 'off');
+	const serverProcess = cp.spawn(serverCommand.command, serverCommand.args, {
+		env: serverCommand.options.env,
+		stdio: ['pipe', 'pipe', 'ignore'],
+	});
+	// A missing or non-executable server only reports through 'error'; writing to it first
+	// would fail with EPIPE instead, or leave every request pending.
+	const spawnFailure = new Promise<never>((_, reject) => {
+		serverProcess.once('error', error => reject(new Error(
+			`Could not start the language server "${serverCommand.command}": ${error.message}. Set UDONSHARP_LINTER_SERVER_PATH to a server executable.`
+		)));
+	});
+	spawnFailure.catch(() => undefined);
+	await Promise.race([spawnFailure, new Promise<void>(resolve => serverProcess.once('spawn', () => resolve()))]);
+
+	const connection = createProtocolConnection(
+		new StreamMessageReader(serverProcess.stdout),
+		new StreamMessageWriter(serverProcess.stdin)
+	);
+
+	const waiters = new Map<string, (diagnostics: Diagnostic[]) => void>();
+	connection.onNotification(PublishDiagnosticsNotification.type, params => {
+		const key = toPathKey(params.uri);
+		const waiter = waiters.get(key);
+		if (waiter) {
+			waiters.delete(key);
+			waiter(params.diagnostics);
+		}
+	});
+	connection.listen();
+
+	try {
+		await connection.sendRequest(InitializeRequest.type, {
+			processId: process.pid,
+			rootUri: pathToFileURL(options.root).toString(),
+			capabilities: {},
+			initializationOptions: createSettings(options),
+			workspaceFolders: [{ uri: pathToFileURL(options.root).toString(), name: path.basename(options.root) }],
+		});
+		await connection.sendNotification(InitializedNotification.type, {});
+
+		const results: FileResult[] = [];
+		for (const file of files) {
+			const diagnostics = await openAndCollect(connection, waiters, file, options.timeoutMs);
+			if (!diagnostics) {
+				process.stderr.write(`udonsharp-lint: timed out waiting for diagnostics for ${path.relative(options.root, file)}; skipping it.\n`);
+			}
+			// Rules set to `off` are still published, as hints.
+			results.push({
+				file,
+				diagnostics: diagnostics?.filter(diagnostic => diagnostic.severity !== DiagnosticSeverity.Hint) ?? [],
+				timedOut: !diagnostics,
+			});
+		}
+		return results;
+	} finally {
+		await shutdown(connection, serverProcess);
+	}
+}
+
+/**
+ * Opens one file, waits for its diagnostics and closes it again so the server does not keep
+ * every file of the project in memory. Resolves undefined when the file timed out.
+ */
+async function openAndCollect(
+	connection: ProtocolConnection,
+	waiters: Map<string, (diagnostics: Diagnostic[]) => void>,
+	file: string,
+	timeoutMs: number
+): Promise<Diagnostic[] | undefined> {
+	const uri = pathToFileURL(file).toString();
+	try {
+		return await collectDiagnostics(connection, waiters, file, uri, timeoutMs);
+	} finally {
+		// The server answers with empty diagnostics, which no waiter is listening for.
+		await connection.sendNotification(DidCloseTextDocumentNotification.type, { textDocument: { uri } });
+	}
+}
+
+function collectDiagnostics(
+	connection: ProtocolConnection,
+	waiters: Map<string, (diagnostics: Diagnostic[]) => void>,
+	file: string,
+	uri: string,
+	timeoutMs: number
+): Promise<Diagnostic[] | undefined> {
+	const key = toPathKey(uri);
+	return new Promise<Diagnostic[] | undefined>((resolve, reject) => {
+		const timer = setTimeout(() => {
+			waiters.delete(key);
+			resolve(undefined);
+		}, timeoutMs);
+		waiters.set(key, diagnostics => {
+			clearTimeout(timer);
+			resolve(diagnostics);
+		});
+
+		const text = fs.readFileSync(file, 'utf8');
+		connection.sendNotification(DidOpenTextDocumentNotification.type, {
+			textDocument: { uri, languageId: 'csharp', version: 1, text },
+		}).catch(error => {
+			clearTimeout(timer);
+			waiters.delete(key);
+			reject(error);
+		});
+	});
+}
+
+async function shutdown(connection: ProtocolConnection, serverProcess: cp.ChildProcess): Promise<void> {
+	try {
+		await connection.sendRequest(ShutdownRequest.type);
+		await connection.sendNotification(ExitNotification.type);
+	} catch {
+		// The server may already be gone; fall through to killing the process.
+	}
+	connection.dispose();
+	if (serverProcess.exitCode === null) {
+		serverProcess.kill();
+	}
+}
+
+function toPathKey(uri: string): string {
+	const normalized = path.normalize(fileURLToPath(uri));
+	return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+function severityLabel(severity: DiagnosticSeverity | undefined): string {
+	switch (severity) {
+	case DiagnosticSeverity.Error:
+		return 'error';
+	case DiagnosticSeverity.Warning:
+		return 'warning';
+	case DiagnosticSeverity.Information:
+		return 'info';
+	default:
+		return 'hint';
+	}
+}
+
+function formatText(options: CliOptions, results: readonly FileResult[]): string {
+	const lines: string[] = [];
+	let total = 0;
+	for (const result of results) {
+		const relative = path.relative(options.root, result.file);
+		for (const diagnostic of result.diagnostics) {
+			total += 1;
+			const { line, character } = diagnostic.range.start;
+			lines.push(`${relative}:${line + 1}:${character + 1}: ${severityLabel(diagnostic.severity)} ${String(diagnostic.code ?? '')}: ${diagnostic.message}`);
+		}
+	}
+	const timedOut = results.filter(result => result.timedOut);
+	for (const result of timedOut) {
+		lines.push(`${path.relative(options.root, result.file)}: timed out`);
+	}
+	lines.push(timedOut.length > 0
+		? `${total} finding(s) in ${results.length} file(s); ${timedOut.length} file(s) timed out.`
+		: `${total} finding(s) in ${results.length} file(s).`);
+	return `${lines.join('\n')}\n`;
+}
+
+function formatJson(options: CliOptions, results: readonly FileResult[]): string {
+	const payload = {
+		profile: options.profile,
+		timedOut: results
+			.filter(result => result.timedOut)
+			.map(result => path.relative(options.root, result.file).split(path.sep).join('/')),
+		files: results
+			.filter(result => result.diagnostics.length > 0)
+			.map(result => ({
+				file: path.relative(options.root, result.file).split(path.sep).join('/'),
+				diagnostics: result.diagnostics.map(diagnostic => ({
+					ruleId: String(diagnostic.code ?? ''),
+					severity: severityLabel(diagnostic.severity),
+					message: diagnostic.message,
+					line: diagnostic.range.start.line + 1,
+					character: diagnostic.range.start.character + 1,
+				})),
+			})),
+	};
+	return `${JSON.stringify(payload, undefined, 2)}\n`;
+}
+
+// Only runs as the `udonsharp-lint` entry point, so tests can import the helpers above.
+if (require.main === module) {
+	main(process.argv.slice(2)).then(
+		code => {
+			process.exitCode = code;
+		},
+		error => {
+			process.stderr.write(`udonsharp-lint: ${error instanceof Error ? error.message : String(error)}\n`);
+			process.exitCode = EXIT_FAILURE;
+		}
+	);
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+
+/**
+ * Why `glob` falls outside the dialect `udonsharpLinter.overrides` supports, or `undefined`
+ * when it is supported. The client matches overrides with minimatch and the server with its
+ * own translation, so only the syntax both read the same way is accepted: `**` as a whole
+ * path segment, `*`, `?`, and `{a,b}` alternatives that are not nested. `\` is a path
+ * separator, as it is in the lint scope.
+ */
+export function findUnsupportedGlobSyntax(glob: string): string | undefined {
+	const pattern = glob.trim().replace(/\\/g, '/');
+	if (pattern.startsWith('!') || pattern.startsWith('#')) {
+		return vscode.l10n.t('negated (!) and comment (#) patterns are not supported');
+	}
+
+	let inBraces = false;
+	let hasAlternative = false;
+	for (let index = 0; index < pattern.length; index++) {
+		const current = pattern[index];
+		if (current === '[' || current === ']') {
+			return vscode.l10n.t('character classes ([...]) are not supported');
+		}
+		if (current === '(' && index > 0 && '?*+@!'.includes(pattern[index - 1])) {
+			return vscode.l10n.t('extended globs such as @(...) are not supported');
+		}
+		if (current === '*' && pattern[index + 1] === '*') {
+			const startsSegment = index === 0 || pattern[index - 1] === '/';
+			const endsSegment = index + 2 === pattern.length || pattern[index + 2] === '/';
+			if (!startsSegment || !endsSegment) {
+				return vscode.l10n.t('** must be a whole path segment');
+			}
+			index++;
+		} else if (current === '{') {
+			if (inBraces) {
+				return vscode.l10n.t('braces cannot be nested');
+			}
+			inBraces = true;
+			hasAlternative = false;
+		} else if (current === '}') {
+			if (!inBraces || !hasAlternative) {
+				return vscode.l10n.t('braces must be balanced and list alternatives separated by commas');
+			}
+			inBraces = false;
+		} else if (current === ',' && inBraces) {
+			hasAlternative = true;
+		}
+	}
+	return inBraces
+		? vscode.l10n.t('braces must be balanced and list alternatives separated by commas')
+		: undefined;
+}
@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findUnsupportedGlobSyntax } from './globSyntax';
+import type { LinterSettings, RuleOverrideBlock, RuleSeveritySetting } from './settings';
+
+export const PROJECT_CONFIG_FILE_NAMES = ['udonsharp-lint.json', '.udonsharplintrc'] as const;
+
+/**
+ * Values a committed project config file may set. Keys mirror the `udonsharpLinter.*`
+ * settings so the same names work in both places.
+ */
+export interface ProjectConfigValues {
+	profile?: string;
+	rules?: Record<string, RuleSeveritySetting>;
+	unityApiSurface?: LinterSettings['unityApiSurface'];
+	customStubPath?: string;
+	allow?: {
+		refOut?: boolean;
+	};
+	policyPackPaths?: string[];
+	include?: string[];
+	exclude?: string[];
+	udonSharpBehavioursOnly?: boolean;
+	overrides?: RuleOverrideBlock[];
+}
+
+export interface ProjectConfig {
+	readonly path: string;
+	readonly values: ProjectConfigValues;
+	readonly problems: readonly string[];
+}
+
+const SEVERITIES: readonly string[] = ['error', 'warn', 'info', 'off'];
+const API_SURFACES: readonly string[] = ['bundled-stubs', 'custom-stubs', 'none'];
+
+export function findProjectConfigPath(): string | undefined {
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		if (folder.uri.scheme !== 'file') {
+			continue;
+		}
+		for (const root of candidateRoots(folder.uri.fsPath)) {
+			for (const fileName of PROJECT_CONFIG_FILE_NAMES) {
+				const candidate = path.join(root, fileName);
+				if (fs.existsSync(candidate)) {
+					return candidate;
+				}
+			}
+		}
+	}
+	return undefined;
+}
+
+export function readProjectConfig(): ProjectConfig | undefined {
+	const configPath = findProjectConfigPath();
+	if (!configPath) {
+		return undefined;
+	}
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+	} catch (error) {
+		return { path: configPath, values: {}, problems: [vscode.l10n.t('Invalid JSON: {0}', String(error))] };
+	}
+
+	const problems: string[] = [];
+	const values = validateProjectConfig(raw, path.dirname(configPath), problems, getGlobPrefix(configPath));
+	return { path: configPath, values, problems };
+}
+
+// Globs in the file are written relative to it, but matched against paths relative to its workspace folder.
+function getGlobPrefix(configPath: string): string {
+	const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(configPath));
+	return folder ? path.relative(folder.uri.fsPath, path.dirname(configPath)) : '';
+}
+
+/** Workspace folder first, then immediate children that look like a Unity project (contain `Assets/`). */
+export function candidateRoots(workspaceRoot: string): string[] {
+	const roots = [workspaceRoot];
+	try {
+		for (const entry of fs.readdirSync(workspaceRoot, { withFileTypes: true })) {
+			if (entry.isDirectory() && fs.existsSync(path.join(workspaceRoot, entry.name, 'Assets'))) {
+				roots.push(path.join(workspaceRoot, entry.name));
+			}
+		}
+	} catch {
+		// Unreadable folders simply contribute no extra candidates.
+	}
+	return roots;
+}
+
+/**
+ * Keeps the valid values of a parsed config file; every rejected value adds a message to `problems`.
+ * Paths resolve against `baseDirectory`, and globs are prefixed with `globPrefix`, the config
+ * file's folder relative to its workspace folder.
+ */
+export function validateProjectConfig(raw: unknown, baseDirectory: string, problems: string[], globPrefix = ''): ProjectConfigValues {
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		problems.push(vscode.l10n.t('The project config must be a JSON object.'));
+		return {};
+	}
+
+	const input = raw as Record<string, unknown>;
+	const values: ProjectConfigValues = {};
+
+	if (input.profile !== undefined) {
+		if (typeof input.profile === 'string' && input.profile.length > 0) {
+			values.profile = input.profile;
+		} else {
+			problems.push(vscode.l10n.t('"profile" must be a non-empty string.'));
+		}
+	}
+
+	if (input.rules !== undefined) {
+		if (typeof input.rules === 'object' && input.rules !== null && !Array.isArray(input.rules)) {
+			values.rules = {};
+			for (const [ruleId, severity] of Object.entries(input.rules as Record<string, unknown>)) {
+				if (typeof severity === 'string' && SEVERITIES.includes(severity)) {
+					values.rules[ruleId] = severity as RuleSeveritySetting;
+				} else {
+					problems.push(vscode.l10n.t('"rules.{0}" must be one of error, warn, info, off.', ruleId));
+				}
+			}
+		} else {
+			problems.push(vscode.l10n.t('"rules" must be an object of rule IDs to severities.'));
+		}
+	}
+
+	if (input.unityApiSurface !== undefined) {
+		if (typeof input.unityApiSurface === 'string' && API_SURFACES.includes(input.unityApiSurface)) {
+			values.unityApiSurface = input.unityApiSurface as ProjectConfigValues['unityApiSurface'];
+		} else {
+			problems.push(vscode.l10n.t('"unityApiSurface" must be one of bundled-stubs, custom-stubs, none.'));
+		}
+	}
+
+	if (input.customStubPath !== undefined) {
+		if (typeof input.customStubPath === 'string') {
+			values.customStubPath = resolveRelative(input.customStubPath, baseDirectory);
+		} else {
+			problems.push(vscode.l10n.t('"customStubPath" must be a string.'));
+		}
+	}
+
+	if (input.allow !== undefined) {
+		const allow = input.allow as Record<string, unknown> | null;
+		if (typeof allow === 'object' && allow !== null && (allow.refOut === undefined || typeof allow.refOut === 'boolean')) {
+			values.allow = { refOut: allow.refOut as boolean | undefined };
+		} else {
+			problems.push(vscode.l10n.t('"allow.refOut" must be a boolean.'));
+		}
+	}
+
+	if (input.policyPackPaths !== undefined) {
+		if (Array.isArray(input.policyPackPaths) && input.policyPackPaths.every(entry => typeof entry === 'string')) {
+			values.policyPackPaths = (input.policyPackPaths as string[]).map(entry => resolveRelative(entry, baseDirectory));
+		} else {
+			problems.push(vscode.l10n.t('"policyPackPaths" must be an array of strings.'));
+		}
+	}
+
+	for (const key of ['include', 'exclude'] as const) {
+		const globs = input[key];
+		if (globs === undefined) {
+			continue;
+		}
+		if (Array.isArray(globs) && globs.every(entry => typeof entry === 'string')) {
+			values[key] = (globs as string[]).map(glob => rebaseGlob(glob, globPrefix));
+		} else {
+			problems.push(vscode.l10n.t('"{0}" must be an array of glob strings.', key));
+		}
+	}
+
+	if (input.udonSharpBehavioursOnly !== undefined) {
+		if (typeof input.udonSharpBehavioursOnly === 'boolean') {
+			values.udonSharpBehavioursOnly = input.udonSharpBehavioursOnly;
+		} else {
+			problems.push(vscode.l10n.t('"udonSharpBehavioursOnly" must be a boolean.'));
+		}
+	}
+
+	if (input.overrides !== undefined) {
+		if (Array.isArray(input.overrides)) {
+			values.overrides = [];
+			input.overrides.forEach((block: unknown, index) => {
+				const override = validateOverride(block, index, globPrefix, problems);
+				if (override) {
+					values.overrides?.push(override);
+				}
+			});
+		} else {
+			problems.push(vscode.l10n.t('"overrides" must be an array of override blocks.'));
+		}
+	}
+
+	for (const key of Object.keys(input)) {
+		if (!['$schema', 'profile', 'rules', 'unityApiSurface', 'customStubPath', 'allow', 'policyPackPaths', 'include', 'exclude', 'udonSharpBehavioursOnly', 'overrides'].includes(key)) {
+			problems.push(vscode.l10n.t('Unknown property "{0}".', key));
+		}
+	}
+
+	return values;
+}
+
+function validateOverride(raw: unknown, index: number, globPrefix: string, problems: string[]): RuleOverrideBlock | undefined {
+	const block = raw as Record<string, unknown> | null;
+	if (typeof block !== 'object' || block === null || Array.isArray(block)
+		|| !Array.isArray(block.files) || block.files.length === 0 || !block.files.every(entry => typeof entry === 'string')) {
+		problems.push(vscode.l10n.t('"overrides[{0}].files" must be a non-empty array of glob strings.', index));
+		return undefined;
+	}
+
+	const files = (block.files as string[]).filter(glob => {
+		const unsupported = findUnsupportedGlobSyntax(glob);
+		if (unsupported) {
+			problems.push(vscode.l10n.t('"overrides[{0}].files" glob "{1}" is ignored: {2}.', index, glob, unsupported));
+		}
+		return !unsupported;
+	});
+	if (files.length === 0) {
+		return undefined;
+	}
+
+	const override: RuleOverrideBlock = { files: files.map(glob => rebaseGlob(glob, globPrefix)), rules: {} };
+	if (block.profile !== undefined) {
+		if (typeof block.profile === 'string' && block.profile.length > 0) {
+			override.profile = block.profile;
+		} else {
+			problems.push(vscode.l10n.t('"overrides[{0}].profile" must be a non-empty string.', index));
+		}
+	}
+	if (typeof block.rules === 'object' && block.rules !== null && !Array.isArray(block.rules)) {
+		for (const [ruleId, severity] of Object.entries(block.rules as Record<string, unknown>)) {
+			if (typeof severity === 'string' && SEVERITIES.includes(severity)) {
+				override.rules[ruleId] = severity as RuleSeveritySetting;
+			} else {
+				problems.push(vscode.l10n.t('"overrides[{0}].rules.{1}" must be one of error, warn, info, off.', index, ruleId));
+			}
+		}
+	} else if (block.rules !== undefined) {
+		problems.push(vscode.l10n.t('"overrides[{0}].rules" must be an object of rule IDs to severities.', index));
+	}
+	return override;
+}
+
+/**
+ * `glob` as written in a config file in the `prefix` folder, made relative to the workspace
+ * folder: `Assets/**` in `MyWorld/` becomes `MyWorld/Assets/**`. A leading `!` stays in front.
+ */
+export function rebaseGlob(glob: string, prefix: string): string {
+	if (!prefix) {
+		return glob;
+	}
+	const trimmed = glob.trim().replace(/\\/g, '/');
+	const negation = trimmed.startsWith('!') ? '!' : '';
+	const pattern = trimmed.slice(negation.length).replace(/^(\.\/)+/, '');
+	return `${negation}${prefix.replace(/\\/g, '/')}/${pattern}`;
+}
+
+// Paths in the project config are relative to the file itself, not the workspace folder.
+function resolveRelative(candidate: string, baseDirectory: string): string {
+	if (!candidate || path.isAbsolute(candidate) || candidate.startsWith('~')) {
+		return candidate;
+	}
+	return path.normalize(path.join(baseDirectory, candidate));
+}
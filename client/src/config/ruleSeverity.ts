@@ -0,0 +1,223 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { LinterSettings, RuleSeveritySetting, SETTING_SOURCE_PRECEDENCE, SettingSource, SettingSources, getSettingsFolder } from './settings';
+import { RuleDescriptor } from '../lsp/messages';
+import { createGlob } from '../lsp/lintScope';
+
+export const RULE_SEVERITY_SETTINGS: readonly RuleSeveritySetting[] = ['error', 'warn', 'info', 'off'];
+
+export function toSeveritySetting(severity: DiagnosticSeverity): RuleSeveritySetting {
+	switch (severity) {
+	case DiagnosticSeverity.Error:
+		return 'error';
+	case DiagnosticSeverity.Warning:
+		return 'warn';
+	case DiagnosticSeverity.Information:
+		return 'info';
+	case DiagnosticSeverity.Hint:
+	default:
+		return 'off';
+	}
+}
+
+export function resolveProfileSeverity(rule: RuleDescriptor, profile: string): RuleSeveritySetting {
+	const profileSeverity = findProfileSeverity(rule, profile);
+	return toSeveritySetting(profileSeverity ?? rule.baseSeverity ?? rule.defaultSeverity);
+}
+
+/** Every profile named by a rule in the catalogue, including ones only custom packs define. */
+export function collectProfiles(rules: readonly RuleDescriptor[]): string[] {
+	const profiles = new Map<string, string>();
+	for (const rule of rules) {
+		for (const profile of Object.keys(rule.profileSeverity ?? {})) {
+			if (!profiles.has(profile.toLowerCase())) {
+				profiles.set(profile.toLowerCase(), profile);
+			}
+		}
+	}
+	return [...profiles.values()];
+}
+
+export function resolveEffectiveSeverity(rule: RuleDescriptor, settings: LinterSettings): RuleSeveritySetting {
+	const override = settings.ruleOverrides[rule.id.toUpperCase()];
+	if (override) {
+		return override;
+	}
+	return resolveProfileSeverity(rule, settings.profile);
+}
+
+/** What decided a rule's severity for one file; `block` indexes `udonsharpLinter.overrides`. */
+export type SeverityOrigin =
+	| { readonly kind: 'override'; readonly block: number }
+	| { readonly kind: 'rules'; readonly source: SettingSource }
+	| { readonly kind: 'profile'; readonly profile: string; readonly block?: number };
+
+export interface EffectiveRuleSeverity {
+	readonly rule: RuleDescriptor;
+	readonly severity: RuleSeveritySetting;
+	readonly origin: SeverityOrigin;
+}
+
+/**
+ * Indexes of the override blocks that apply to `uri`, in the order they are applied.
+ * Mirrors the server: globs match the path relative to the settings folder.
+ */
+export function findMatchingOverrides(settings: LinterSettings, uri: vscode.Uri): number[] {
+	const filePath = toOverridePath(uri);
+	return settings.overrides
+		.map((block, index) => block.files.some(glob => createGlob(glob).match(filePath)) ? index : -1)
+		.filter(index => index >= 0);
+}
+
+/** Per-file severities with the same precedence as the server: last matching block, global `rules`, then the profile. */
+export function explainRuleSeverities(
+	rules: readonly RuleDescriptor[],
+	settings: LinterSettings,
+	sources: SettingSources,
+	uri: vscode.Uri
+): EffectiveRuleSeverity[] {
+	const matching = findMatchingOverrides(settings, uri);
+	const profileBlock = [...matching].reverse().find(index => settings.overrides[index].profile);
+	const profile = profileBlock === undefined ? settings.profile : settings.overrides[profileBlock].profile ?? settings.profile;
+
+	return rules.map(rule => {
+		const ruleId = rule.id.toUpperCase();
+		const block = [...matching].reverse().find(index => settings.overrides[index].rules[ruleId]);
+		if (block !== undefined) {
+			return { rule, severity: settings.overrides[block].rules[ruleId], origin: { kind: 'override', block } };
+		}
+		const override = settings.ruleOverrides[ruleId];
+		if (override) {
+			return { rule, severity: override, origin: { kind: 'rules', source: sources.ruleOverrides[ruleId] ?? 'default' } };
+		}
+		return { rule, severity: resolveProfileSeverity(rule, profile), origin: { kind: 'profile', profile, block: profileBlock } };
+	});
+}
+
+export async function updateRuleOverride(ruleId: string, severity: RuleSeveritySetting | undefined): Promise<void> {
+	await updateRuleOverrides([ruleId], severity, getRuleOverrideTarget());
+}
+
+/** Where `updateRuleOverride` writes: workspace settings when a folder is open, otherwise user settings. */
+export function getRuleOverrideTarget(): vscode.ConfigurationTarget {
+	return vscode.workspace.workspaceFolders?.length
+		? vscode.ConfigurationTarget.Workspace
+		: vscode.ConfigurationTarget.Global;
+}
+
+/**
+ * Sets (or with `undefined`, removes) the `udonsharpLinter.rules` entries for every rule in
+ * `ruleIds` at one scope, in a single settings write. Returns how many entries changed.
+ */
+export async function updateRuleOverrides(
+	ruleIds: readonly string[],
+	severity: RuleSeveritySetting | undefined,
+	target: vscode.ConfigurationTarget
+): Promise<number> {
+	const configuration = vscode.workspace.getConfiguration('udonsharpLinter', getSettingsFolder()?.uri);
+	const current = readRuleOverrides(configuration, target);
+
+	const { next, changed } = mergeRuleOverrides(current, ruleIds, severity);
+	if (changed === 0) {
+		return 0;
+	}
+
+	await configuration.update('rules', Object.keys(next).length > 0 ? next : undefined, target);
+	return changed;
+}
+
+/**
+ * `current` with the entries for `ruleIds` set to `severity`, or removed when it is `undefined`.
+ * Keys are matched case-insensitively and rewritten in upper case; `changed` counts the rules
+ * whose entry actually changed.
+ */
+export function mergeRuleOverrides(
+	current: Readonly<Record<string, RuleSeveritySetting>> | undefined,
+	ruleIds: readonly string[],
+	severity: RuleSeveritySetting | undefined
+): { next: Record<string, RuleSeveritySetting>; changed: number } {
+	const next: Record<string, RuleSeveritySetting> = { ...(current ?? {}) };
+	let changed = 0;
+	for (const ruleId of ruleIds) {
+		const key = ruleId.toUpperCase();
+		const existing = Object.keys(next).filter(candidate => candidate.toUpperCase() === key);
+		const unchanged = severity
+			? existing.length === 1 && existing[0] === key && next[key] === severity
+			: existing.length === 0;
+		if (unchanged) {
+			continue;
+		}
+		for (const candidate of existing) {
+			delete next[candidate];
+		}
+		if (severity) {
+			next[key] = severity;
+		}
+		changed += 1;
+	}
+	return { next, changed };
+}
+
+/**
+ * The rules in `ruleIds` whose `udonsharpLinter.rules` entry comes from a source that takes
+ * precedence over `target`, so writing them at `target` would not change their severity.
+ */
+export function findShadowedRuleOverrides(
+	ruleIds: readonly string[],
+	target: vscode.ConfigurationTarget,
+	sources: SettingSources
+): { readonly ruleId: string; readonly source: SettingSource }[] {
+	const targetRank = SETTING_SOURCE_PRECEDENCE.indexOf(toSettingSource(target));
+	return ruleIds
+		.map(ruleId => ({ ruleId, source: sources.ruleOverrides[ruleId.toUpperCase()] }))
+		.filter((entry): entry is { ruleId: string; source: SettingSource } =>
+			entry.source !== undefined && SETTING_SOURCE_PRECEDENCE.indexOf(entry.source) > targetRank);
+}
+
+/** The `udonsharpLinter.rules` value written at one scope, without the other layers merged in. */
+export function readRuleOverrides(
+	configuration: vscode.WorkspaceConfiguration,
+	target: vscode.ConfigurationTarget
+): Record<string, RuleSeveritySetting> | undefined {
+	const inspected = configuration.inspect<Record<string, RuleSeveritySetting>>('rules');
+	switch (target) {
+	case vscode.ConfigurationTarget.Global:
+		return inspected?.globalValue;
+	case vscode.ConfigurationTarget.Workspace:
+		return inspected?.workspaceValue;
+	case vscode.ConfigurationTarget.WorkspaceFolder:
+		return inspected?.workspaceFolderValue;
+	}
+}
+
+function toSettingSource(target: vscode.ConfigurationTarget): SettingSource {
+	switch (target) {
+	case vscode.ConfigurationTarget.Global:
+		return 'user';
+	case vscode.ConfigurationTarget.Workspace:
+		return 'workspace';
+	case vscode.ConfigurationTarget.WorkspaceFolder:
+		return 'workspaceFolder';
+	}
+}
+
+function findProfileSeverity(rule: RuleDescriptor, profile: string): DiagnosticSeverity | undefined {
+	if (!rule.profileSeverity) {
+		return undefined;
+	}
+	// Server-side profile lookups are case-insensitive; mirror that here.
+	const match = Object.keys(rule.profileSeverity).find(key => key.toLowerCase() === profile.toLowerCase());
+	return match ? rule.profileSeverity[match] : undefined;
+}
+
+function toOverridePath(uri: vscode.Uri): string {
+	const folder = getSettingsFolder();
+	if (folder && folder.uri.scheme === uri.scheme) {
+		const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+		if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+			return relative.split(path.sep).join('/');
+		}
+	}
+	return uri.fsPath.split(path.sep).join('/');
+}
@@ -1,8 +1,18 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { findUnsupportedGlobSyntax } from './globSyntax';
+import { PROJECT_CONFIG_FILE_NAMES, ProjectConfig, readProjectConfig } from './projectConfig';
+import type { ServerLaunchOptions } from '../lsp/serverProcess';
 
 export type RuleSeveritySetting = 'error' | 'warn' | 'info' | 'off';
 
+/** One `udonsharpLinter.overrides` entry. `files` are globs relative to the workspace folder. */
+export interface RuleOverrideBlock {
+	files: string[];
+	profile?: string;
+	rules: Record<string, RuleSeveritySetting>;
+}
+
 export interface LinterSettings {
 	profile: string;
 	ruleOverrides: Record<string, RuleSeveritySetting>;
@@ -12,19 +22,60 @@ export interface LinterSettings {
 	codeActionsEnabled: boolean;
 	telemetry: 'off' | 'minimal';
 	policyPackPaths: string[];
+	include: string[];
+	exclude: string[];
+	udonSharpBehavioursOnly: boolean;
+	overrides: RuleOverrideBlock[];
+}
+
+/**
+ * Where an effective value came from. Later entries win:
+ * default < user < projectFile < workspace < workspaceFolder.
+ */
+export type SettingSource = 'default' | 'user' | 'projectFile' | 'workspace' | 'workspaceFolder';
+
+/** Setting sources from lowest to highest precedence. */
+export const SETTING_SOURCE_PRECEDENCE: readonly SettingSource[] = ['default', 'user', 'projectFile', 'workspace', 'workspaceFolder'];
+
+export type SettingSources = { [Key in Exclude<keyof LinterSettings, 'ruleOverrides'>]: SettingSource } & {
+	ruleOverrides: Record<string, SettingSource>;
+};
+
+interface ResolvedSettings {
+	settings: LinterSettings;
+	sources: SettingSources;
+}
+
+interface Resolved<T> {
+	value: T;
+	source: SettingSource;
 }
 
 export class SettingsManager implements vscode.Disposable {
 	private readonly emitter = new vscode.EventEmitter<LinterSettings>();
 	private readonly disposables: vscode.Disposable[] = [];
 	private currentSettings: LinterSettings;
+	private currentSources: SettingSources;
+	private currentProjectConfig: ProjectConfig | undefined;
+	private reportedProblems = '';
 
 	constructor() {
-		this.currentSettings = readSettings();
+		this.currentProjectConfig = readProjectConfig();
+		const resolved = readSettings(this.currentProjectConfig);
+		this.currentSettings = resolved.settings;
+		this.currentSources = resolved.sources;
+		this.reportProjectConfigProblems();
+
+		const watcher = vscode.workspace.createFileSystemWatcher(`**/{${PROJECT_CONFIG_FILE_NAMES.join(',')}}`);
 		this.disposables.push(
+			watcher,
+			watcher.onDidCreate(() => this.refresh(true)),
+			watcher.onDidChange(() => this.refresh(true)),
+			watcher.onDidDelete(() => this.refresh(true)),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh(true)),
 			vscode.workspace.onDidChangeConfiguration(event => {
 				if (event.affectsConfiguration('udonsharpLinter')) {
-					this.refresh();
+					this.refresh(false);
 				}
 			})
 		);
@@ -34,8 +85,26 @@ export class SettingsManager implements vscode.Disposable {
 		return this.currentSettings;
 	}
 
+	public get sources(): SettingSources {
+		return this.currentSources;
+	}
+
+	public get projectConfig(): ProjectConfig | undefined {
+		return this.currentProjectConfig;
+	}
+
 	public readonly onDidChange = this.emitter.event;
 
+	/** What `Show Effective Settings` and the diagnostics bundle report. */
+	public createReport(): Record<string, unknown> {
+		return {
+			projectConfig: this.currentProjectConfig?.path ?? null,
+			precedence: SETTING_SOURCE_PRECEDENCE,
+			settings: this.currentSettings,
+			sources: this.currentSources,
+		};
+	}
+
 	public dispose(): void {
 		this.emitter.dispose();
 		for (const disposable of this.disposables) {
@@ -43,44 +112,156 @@ export class SettingsManager implements vscode.Disposable {
 		}
 	}
 
-	private refresh(): void {
-		const next = readSettings();
-		if (!settingsAreEqual(this.currentSettings, next)) {
-			this.currentSettings = next;
-			this.emitter.fire(next);
+	private refresh(reloadProjectConfig: boolean): void {
+		if (reloadProjectConfig) {
+			this.currentProjectConfig = readProjectConfig();
+			this.reportProjectConfigProblems();
+		}
+		const next = readSettings(this.currentProjectConfig);
+		this.currentSources = next.sources;
+		if (!settingsAreEqual(this.currentSettings, next.settings)) {
+			this.currentSettings = next.settings;
+			this.emitter.fire(next.settings);
+		}
+	}
+
+	private reportProjectConfigProblems(): void {
+		const problems = this.currentProjectConfig?.problems ?? [];
+		const signature = problems.join('\n');
+		if (signature === this.reportedProblems) {
+			return;
+		}
+		this.reportedProblems = signature;
+		if (problems.length === 0 || !this.currentProjectConfig) {
+			return;
 		}
+		void vscode.window.showWarningMessage(
+			vscode.l10n.t('{0} has problems and some values were ignored: {1}', path.basename(this.currentProjectConfig.path), problems.join(' '))
+		);
 	}
 }
 
-function readSettings(): LinterSettings {
-	const configuration = vscode.workspace.getConfiguration('udonsharpLinter');
+/**
+ * One server lints the whole window, so folder-scoped values are read from the first
+ * workspace folder, the same folder that holds the diagnostics baseline.
+ */
+export function getSettingsFolder(): vscode.WorkspaceFolder | undefined {
+	return vscode.workspace.workspaceFolders?.[0];
+}
+
+/** `udonsharpLinter.server.*` only affects how the client launches the server and is never sent to it. */
+export function readServerLaunchOptions(): ServerLaunchOptions {
+	const configuration = vscode.workspace.getConfiguration('udonsharpLinter.server');
+	const serverPath = configuration.get<string>('path', '').trim();
+	return {
+		serverPath: resolveToAbsolute(serverPath),
+		developmentMode: configuration.get<boolean>('developmentMode', false),
+	};
+}
+
+function readSettings(projectConfig: ProjectConfig | undefined): ResolvedSettings {
+	const configuration = vscode.workspace.getConfiguration('udonsharpLinter', getSettingsFolder()?.uri);
+	const project = projectConfig?.values ?? {};
 
-	const profile = configuration.get<string>('profile', 'latest');
-	const ruleOverrides = toRuleOverrides(configuration.get<Record<string, RuleSeveritySetting>>('rules', {}));
-	const unityApiSurface = configuration.get<'bundled-stubs' | 'custom-stubs' | 'none'>('unityApiSurface', 'bundled-stubs');
-	const allowRefOut = configuration.get<boolean>('allow.refOut', false);
-	const codeActionsEnabled = configuration.get<boolean>('codeActions.enable', true);
-	const telemetry = configuration.get<'off' | 'minimal'>('telemetry', 'minimal');
-	const rawPolicyPaths = configuration.get<string[]>('policyPackPaths', []);
-	const customStubPathRaw = configuration.get<string>('customStubPath', '')?.trim() ?? '';
-	const customStubPath = unityApiSurface === 'custom-stubs' && customStubPathRaw.length > 0
-		? resolveToAbsolute(customStubPathRaw)
+	const profile = resolveValue(configuration, 'profile', project.profile, 'latest');
+	const rules = resolveRuleOverrides(configuration, project.rules);
+	const unityApiSurface = resolveValue<LinterSettings['unityApiSurface']>(configuration, 'unityApiSurface', project.unityApiSurface, 'bundled-stubs');
+	const allowRefOut = resolveValue(configuration, 'allow.refOut', project.allow?.refOut, false);
+	const codeActionsEnabled = resolveValue(configuration, 'codeActions.enable', undefined, true);
+	const telemetry = resolveValue<'off' | 'minimal'>(configuration, 'telemetry', undefined, 'minimal');
+	const rawPolicyPaths = resolveValue<string[]>(configuration, 'policyPackPaths', project.policyPackPaths, []);
+	const include = resolveValue<string[]>(configuration, 'include', project.include, ['**/*.cs']);
+	const exclude = resolveValue<string[]>(configuration, 'exclude', project.exclude, ['**/Library/**', '**/Packages/**', '**/Editor/**']);
+	const udonSharpBehavioursOnly = resolveValue(configuration, 'udonSharpBehavioursOnly', project.udonSharpBehavioursOnly, false);
+	const overrides = resolveValue<unknown>(configuration, 'overrides', project.overrides, []);
+	const customStubPathRaw = resolveValue(configuration, 'customStubPath', project.customStubPath, '');
+	const customStubPathTrimmed = customStubPathRaw.value?.trim() ?? '';
+	const customStubPath = unityApiSurface.value === 'custom-stubs' && customStubPathTrimmed.length > 0
+		? resolveToAbsolute(customStubPathTrimmed)
 		: undefined;
 
 	return {
-		profile,
-		ruleOverrides,
-		unityApiSurface,
-		customStubPath,
-		allowRefOut,
-		codeActionsEnabled,
-		telemetry,
-		policyPackPaths: rawPolicyPaths
-			.map(pathCandidate => resolveToAbsolute(pathCandidate))
-			.filter(Boolean) as string[],
+		settings: {
+			profile: profile.value,
+			ruleOverrides: rules.value,
+			unityApiSurface: unityApiSurface.value,
+			customStubPath,
+			allowRefOut: allowRefOut.value,
+			codeActionsEnabled: codeActionsEnabled.value,
+			telemetry: telemetry.value,
+			policyPackPaths: rawPolicyPaths.value
+				.map(pathCandidate => resolveToAbsolute(pathCandidate))
+				.filter(Boolean) as string[],
+			include: include.value,
+			exclude: exclude.value,
+			udonSharpBehavioursOnly: udonSharpBehavioursOnly.value,
+			overrides: toOverrideBlocks(overrides.value),
+		},
+		sources: {
+			profile: profile.source,
+			ruleOverrides: rules.sources,
+			unityApiSurface: unityApiSurface.source,
+			customStubPath: customStubPathRaw.source,
+			allowRefOut: allowRefOut.source,
+			codeActionsEnabled: codeActionsEnabled.source,
+			telemetry: telemetry.source,
+			policyPackPaths: rawPolicyPaths.source,
+			include: include.source,
+			exclude: exclude.source,
+			udonSharpBehavioursOnly: udonSharpBehavioursOnly.source,
+			overrides: overrides.source,
+		},
 	};
 }
 
+/** The value from the highest-precedence source that sets `key`; the project file ranks between user and workspace settings. */
+export function resolveValue<T>(
+	configuration: vscode.WorkspaceConfiguration,
+	key: string,
+	projectValue: T | undefined,
+	fallback: T
+): Resolved<T> {
+	const inspected = configuration.inspect<T>(key);
+	if (inspected?.workspaceFolderValue !== undefined) {
+		return { value: inspected.workspaceFolderValue, source: 'workspaceFolder' };
+	}
+	if (inspected?.workspaceValue !== undefined) {
+		return { value: inspected.workspaceValue, source: 'workspace' };
+	}
+	if (projectValue !== undefined) {
+		return { value: projectValue, source: 'projectFile' };
+	}
+	if (inspected?.globalValue !== undefined) {
+		return { value: inspected.globalValue, source: 'user' };
+	}
+	return { value: inspected?.defaultValue ?? fallback, source: 'default' };
+}
+
+// Rule overrides merge key by key so a project file can add rules without hiding user ones.
+export function resolveRuleOverrides(
+	configuration: vscode.WorkspaceConfiguration,
+	projectRules: Record<string, RuleSeveritySetting> | undefined
+): { value: Record<string, RuleSeveritySetting>; sources: Record<string, SettingSource> } {
+	const inspected = configuration.inspect<Record<string, RuleSeveritySetting>>('rules');
+	const layers: Array<[SettingSource, Record<string, RuleSeveritySetting> | undefined]> = [
+		['default', inspected?.defaultValue],
+		['user', inspected?.globalValue],
+		['projectFile', projectRules],
+		['workspace', inspected?.workspaceValue],
+		['workspaceFolder', inspected?.workspaceFolderValue],
+	];
+
+	const value: Record<string, RuleSeveritySetting> = {};
+	const sources: Record<string, SettingSource> = {};
+	for (const [source, layer] of layers) {
+		for (const [ruleId, severity] of Object.entries(toRuleOverrides(layer ?? {}))) {
+			value[ruleId] = severity;
+			sources[ruleId] = source;
+		}
+	}
+	return { value, sources };
+}
+
 function toRuleOverrides(overrides: Record<string, RuleSeveritySetting>): Record<string, RuleSeveritySetting> {
 	const sanitized: Record<string, RuleSeveritySetting> = {};
 	for (const [ruleId, severity] of Object.entries(overrides)) {
@@ -94,6 +275,33 @@ function toRuleOverrides(overrides: Record<string, RuleSeveritySetting>): Record
 	return sanitized;
 }
 
+// The array comes from a single layer: unlike `rules`, blocks are order-dependent and so are never merged across layers.
+function toOverrideBlocks(blocks: unknown): RuleOverrideBlock[] {
+	if (!Array.isArray(blocks)) {
+		return [];
+	}
+	const sanitized: RuleOverrideBlock[] = [];
+	for (const block of blocks) {
+		if (typeof block !== 'object' || block === null) {
+			continue;
+		}
+		const { files, profile, rules } = block as Record<string, unknown>;
+		const globs = (Array.isArray(files) ? files : [files])
+			.filter((glob): glob is string => typeof glob === 'string' && glob.trim().length > 0 && !findUnsupportedGlobSyntax(glob));
+		if (globs.length === 0) {
+			continue;
+		}
+		sanitized.push({
+			files: globs,
+			...(typeof profile === 'string' && profile.length > 0 ? { profile } : {}),
+			rules: typeof rules === 'object' && rules !== null && !Array.isArray(rules)
+				? toRuleOverrides(rules as Record<string, RuleSeveritySetting>)
+				: {},
+		});
+	}
+	return sanitized;
+}
+
 function settingsAreEqual(left: LinterSettings, right: LinterSettings): boolean {
 	return left.profile === right.profile
 		&& left.unityApiSurface === right.unityApiSurface
@@ -101,8 +309,21 @@ function settingsAreEqual(left: LinterSettings, right: LinterSettings): boolean
 		&& left.allowRefOut === right.allowRefOut
 		&& left.codeActionsEnabled === right.codeActionsEnabled
 		&& left.telemetry === right.telemetry
+		&& left.udonSharpBehavioursOnly === right.udonSharpBehavioursOnly
 		&& arraysEqual(left.policyPackPaths, right.policyPackPaths)
-		&& recordEqual(left.ruleOverrides, right.ruleOverrides);
+		&& arraysEqual(left.include, right.include)
+		&& arraysEqual(left.exclude, right.exclude)
+		&& recordEqual(left.ruleOverrides, right.ruleOverrides)
+		&& overridesEqual(left.overrides, right.overrides);
+}
+
+function overridesEqual(left: readonly RuleOverrideBlock[], right: readonly RuleOverrideBlock[]): boolean {
+	return left.length === right.length && left.every((block, index) => {
+		const other = right[index];
+		return block.profile === other.profile
+			&& arraysEqual(block.files, other.files)
+			&& recordEqual(block.rules, other.rules);
+	});
 }
 
 function arraysEqual(left: readonly string[], right: readonly string[]): boolean {
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { candidateRoots } from './projectConfig';
+import { LinterSettings, getSettingsFolder } from './settings';
+
+const WORLDS_SDK_PACKAGE = 'com.vrchat.worlds';
+const UDONSHARP_PACKAGE = 'com.merlin.udonsharp';
+// From this release on UdonSharp ships inside the Worlds SDK instead of as its own package.
+const WORLDS_SDK_WITH_UDONSHARP = [3, 4, 0];
+const DETECTION_DELAY = 500;
+
+export interface DetectedUdonSharp {
+	/** The UdonSharp version, except for `worldsSdk`, where it is the Worlds SDK version. */
+	readonly version: string;
+	/** `worldsSdk` when UdonSharp is bundled with the Worlds SDK; `assets` for a legacy `Assets/UdonSharp` import. */
+	readonly source: 'vpm' | 'upm' | 'worldsSdk' | 'assets';
+}
+
+/** What `ProjectSettings/ProjectVersion.txt`, `Packages/manifest.json` and `Packages/vpm-manifest.json` reveal. */
+export interface UnityProject {
+	readonly root: string;
+	readonly unityVersion?: string;
+	readonly worldsSdkVersion?: string;
+	readonly udonSharp?: DetectedUdonSharp;
+	readonly scriptAssembliesPath?: string;
+}
+
+/** Settings the detected project suggests; only the keys that can be derived are present. */
+export type DetectedConfiguration = Partial<Pick<LinterSettings, 'profile' | 'unityApiSurface' | 'customStubPath'>>;
+
+/**
+ * Detects the Unity project in the settings folder (or one of its direct children) and
+ * re-detects when any of the version files change.
+ */
+export class UnityProjectDetector implements vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<UnityProject | undefined>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private currentProject: UnityProject | undefined;
+	private detectTimer: NodeJS.Timeout | undefined;
+
+	public readonly onDidChange = this.emitter.event;
+
+	constructor() {
+		this.currentProject = detectUnityProject();
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			'**/{ProjectSettings/ProjectVersion.txt,Packages/manifest.json,Packages/vpm-manifest.json,Library/ScriptAssemblies}'
+		);
+		this.disposables.push(
+			this.emitter,
+			watcher,
+			watcher.onDidCreate(() => this.scheduleDetect()),
+			watcher.onDidChange(() => this.scheduleDetect()),
+			watcher.onDidDelete(() => this.scheduleDetect()),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleDetect()),
+		);
+	}
+
+	public get project(): UnityProject | undefined {
+		return this.currentProject;
+	}
+
+	public dispose(): void {
+		if (this.detectTimer) {
+			clearTimeout(this.detectTimer);
+		}
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	// Package managers rewrite several manifests at once; detect after they settle.
+	private scheduleDetect(): void {
+		if (this.detectTimer) {
+			clearTimeout(this.detectTimer);
+		}
+		this.detectTimer = setTimeout(() => {
+			this.detectTimer = undefined;
+			const next = detectUnityProject();
+			if (JSON.stringify(next) !== JSON.stringify(this.currentProject)) {
+				this.currentProject = next;
+				this.emitter.fire(next);
+			}
+		}, DETECTION_DELAY);
+	}
+}
+
+export function detectUnityProject(): UnityProject | undefined {
+	const folder = getSettingsFolder();
+	if (!folder || folder.uri.scheme !== 'file') {
+		return undefined;
+	}
+	const root = candidateRoots(folder.uri.fsPath)
+		.find(candidate => fs.existsSync(path.join(candidate, 'ProjectSettings', 'ProjectVersion.txt')));
+	if (!root) {
+		return undefined;
+	}
+
+	const upmPackages = readUpmDependencies(path.join(root, 'Packages', 'manifest.json'));
+	const vpmPackages = readVpmDependencies(path.join(root, 'Packages', 'vpm-manifest.json'));
+	const worldsSdkVersion = vpmPackages.get(WORLDS_SDK_PACKAGE) ?? upmPackages.get(WORLDS_SDK_PACKAGE);
+	const scriptAssembliesPath = path.join(root, 'Library', 'ScriptAssemblies');
+
+	return {
+		root,
+		unityVersion: readUnityVersion(path.join(root, 'ProjectSettings', 'ProjectVersion.txt')),
+		worldsSdkVersion,
+		udonSharp: detectUdonSharp(root, upmPackages, vpmPackages, worldsSdkVersion),
+		scriptAssembliesPath: fs.existsSync(scriptAssembliesPath) ? scriptAssembliesPath : undefined,
+	};
+}
+
+export function suggestConfiguration(project: UnityProject): DetectedConfiguration {
+	const suggestion: { -readonly [Key in keyof DetectedConfiguration]: DetectedConfiguration[Key] } = {};
+	if (project.udonSharp) {
+		suggestion.profile = parseVersion(project.udonSharp.version)[0] === 0 ? 'legacy_0.x' : 'latest';
+	}
+	if (project.scriptAssembliesPath) {
+		suggestion.unityApiSurface = 'custom-stubs';
+		suggestion.customStubPath = project.scriptAssembliesPath;
+	}
+	return suggestion;
+}
+
+/** Keys of the suggestion that differ from the effective settings. */
+export function findConfigurationChanges(suggestion: DetectedConfiguration, settings: LinterSettings): (keyof DetectedConfiguration)[] {
+	return (Object.keys(suggestion) as (keyof DetectedConfiguration)[]).filter(key => {
+		const suggested = suggestion[key];
+		const current = settings[key];
+		return key === 'customStubPath'
+			? path.normalize(suggested ?? '') !== path.normalize(current ?? '')
+			: suggested !== current;
+	});
+}
+
+/**
+ * Writes the suggestion to workspace settings (folder settings in a multi-root workspace).
+ * `customStubPath` is stored relative to the folder so the settings file stays portable.
+ */
+export async function applyDetectedConfiguration(suggestion: DetectedConfiguration): Promise<void> {
+	const folder = getSettingsFolder();
+	const configuration = vscode.workspace.getConfiguration('udonsharpLinter', folder?.uri);
+	const target = vscode.workspace.workspaceFile
+		? vscode.ConfigurationTarget.WorkspaceFolder
+		: vscode.ConfigurationTarget.Workspace;
+
+	if (suggestion.profile !== undefined) {
+		await configuration.update('profile', suggestion.profile, target);
+	}
+	if (suggestion.unityApiSurface !== undefined) {
+		await configuration.update('unityApiSurface', suggestion.unityApiSurface, target);
+	}
+	if (suggestion.customStubPath !== undefined) {
+		const relative = folder ? path.relative(folder.uri.fsPath, suggestion.customStubPath) : '';
+		const stored = relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+			? relative.split(path.sep).join('/')
+			: suggestion.customStubPath;
+		await configuration.update('customStubPath', stored, target);
+	}
+}
+
+function readUnityVersion(filePath: string): string | undefined {
+	try {
+		const match = /^m_EditorVersion:\s*(\S+)/m.exec(fs.readFileSync(filePath, 'utf8'));
+		return match?.[1];
+	} catch {
+		return undefined;
+	}
+}
+
+// `Packages/manifest.json`: { "dependencies": { "<name>": "<version or URL>" } }
+function readUpmDependencies(filePath: string): Map<string, string> {
+	const packages = new Map<string, string>();
+	const dependencies = readJsonObject(filePath)?.dependencies;
+	if (isObject(dependencies)) {
+		for (const [name, version] of Object.entries(dependencies)) {
+			if (typeof version === 'string') {
+				packages.set(name.toLowerCase(), version);
+			}
+		}
+	}
+	return packages;
+}
+
+// `Packages/vpm-manifest.json`: { "dependencies": { "<name>": { "version" } }, "locked": { ... } }.
+// Locked versions are what is installed, so they win over the requested ranges.
+function readVpmDependencies(filePath: string): Map<string, string> {
+	const packages = new Map<string, string>();
+	const manifest = readJsonObject(filePath);
+	for (const section of [manifest?.dependencies, manifest?.locked]) {
+		if (!isObject(section)) {
+			continue;
+		}
+		for (const [name, entry] of Object.entries(section)) {
+			if (isObject(entry) && typeof entry.version === 'string') {
+				packages.set(name.toLowerCase(), entry.version);
+			}
+		}
+	}
+	return packages;
+}
+
+/** Where UdonSharp comes from: its own VPM or UPM package, the Worlds SDK, or a legacy `Assets/UdonSharp` import. */
+export function detectUdonSharp(
+	root: string,
+	upmPackages: ReadonlyMap<string, string>,
+	vpmPackages: ReadonlyMap<string, string>,
+	worldsSdkVersion: string | undefined
+): DetectedUdonSharp | undefined {
+	const vpmVersion = vpmPackages.get(UDONSHARP_PACKAGE);
+	if (vpmVersion) {
+		return { version: vpmVersion, source: 'vpm' };
+	}
+	const upmVersion = upmPackages.get(UDONSHARP_PACKAGE);
+	if (upmVersion) {
+		return { version: upmVersion, source: 'upm' };
+	}
+	if (worldsSdkVersion && compareVersions(parseVersion(worldsSdkVersion), WORLDS_SDK_WITH_UDONSHARP) >= 0) {
+		return { version: worldsSdkVersion, source: 'worldsSdk' };
+	}
+	// UdonSharp 0.x was imported as a .unitypackage into Assets/UdonSharp.
+	const legacyFolder = path.join(root, 'Assets', 'UdonSharp');
+	if (fs.existsSync(legacyFolder)) {
+		const version = readJsonObject(path.join(legacyFolder, 'package.json'))?.version;
+		return { version: typeof version === 'string' ? version : '0.x', source: 'assets' };
+	}
+	return undefined;
+}
+
+function readJsonObject(filePath: string): Record<string, unknown> | undefined {
+	try {
+		const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+		return isObject(parsed) ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Major, minor and patch of the first version in `version`, ignoring ranges and prefixes such as `^` or `v`. */
+export function parseVersion(version: string): number[] {
+	return (/(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version) ?? []).slice(1).map(part => Number(part ?? 0));
+}
+
+function compareVersions(left: readonly number[], right: readonly number[]): number {
+	for (let index = 0; index < Math.max(left.length, right.length); index++) {
+		const difference = (left[index] ?? 0) - (right[index] ?? 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+	return 0;
+}
@@ -1,41 +1,171 @@
 import * as vscode from 'vscode';
 import { SettingsManager } from './config/settings';
 import { RuleRepository } from './lsp/ruleRepository';
-import { StatusBarController } from './ui/statusBar';
+import { DocumentationStore } from './lsp/documentationStore';
+import { STATUS_MENU_COMMAND, StatusBarController } from './ui/statusBar';
 import { LanguageClientController } from './lsp/clientController';
 import { RuleDocumentationPanel } from './ui/ruleDocsPanel';
 import { pickRule } from './ui/ruleSearch';
-import { showProfilePicker } from './ui/profileQuickPick';
+import { CONFIGURE_RULE_SEVERITY_COMMAND, configureRuleSeverity } from './ui/ruleSeverityPicker';
+import { PROFILE_DIFF_SCHEME, ProfileDiffContentProvider, showProfilePicker } from './ui/profileQuickPick';
+import { RULES_VIEW_ID, RuleNode, RulesTreeProvider } from './ui/rulesTree';
+import { InsightRuleNode, RULE_INSIGHTS_VIEW_ID, RuleInsightsTreeProvider } from './ui/ruleInsightsTree';
+import { showRuleOccurrences } from './ui/ruleOccurrences';
+import { EventCallNode, NETWORK_VIEW_ID, NetworkTreeProvider, revealSymbolLocation } from './ui/networkTree';
+import { updateRuleOverride } from './config/ruleSeverity';
+import { RuleSeveritySetting } from './config/settings';
+import { DISABLE_RULE_COMMAND, SuppressionCodeActionProvider, disableRuleInWorkspace } from './ui/suppressionActions';
+import { RuleHoverProvider } from './ui/ruleHover';
+import { WorkspaceReportPanel } from './ui/workspaceReport';
+import { WorkspaceAnalysisResult, analyzeWorkspace } from './lsp/workspaceAnalysis';
+import { LintScope } from './lsp/lintScope';
+import { showEffectiveRules } from './ui/effectiveRules';
+import { exportDiagnostics } from './ui/exportDiagnostics';
+import { BaselineManager } from './lsp/baseline';
+import { PolicyPackValidator, pickPolicyPackDocumentation } from './ui/policyPackValidator';
+import { getLog } from './lsp/log';
+import { ServerLogViewer } from './ui/serverLog';
+import { collectDiagnosticsBundle } from './ui/diagnosticsBundle';
+import { TelemetryReporter } from './telemetry/telemetryReporter';
+import { UnityProjectDetector } from './config/unityProject';
+import { applyDetectedProjectConfiguration, offerDetectedConfiguration } from './ui/projectDetection';
+import { BASELINE_DOCUMENT_SELECTOR, BaselineCodeActionProvider, REMOVE_STALE_BASELINE_COMMAND } from './ui/baselineActions';
 
 let clientController: LanguageClientController | undefined;
+let lintScope: LintScope | undefined;
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
+	context.subscriptions.push(getLog());
 	const settingsManager = new SettingsManager();
-	const ruleRepository = new RuleRepository();
-	const statusBar = new StatusBarController(settingsManager);
-	const documentationPanel = new RuleDocumentationPanel(ruleRepository);
+	const documentationStore = new DocumentationStore(context.globalStorageUri, context.globalState, settingsManager);
+	await documentationStore.restore();
+	const ruleRepository = new RuleRepository(documentationStore);
+	const baseline = new BaselineManager();
+	const statusBar = new StatusBarController(settingsManager, baseline);
+	const documentationPanel = new RuleDocumentationPanel(ruleRepository, settingsManager);
+	const rulesTree = new RulesTreeProvider(ruleRepository, settingsManager);
+	const ruleInsights = new RuleInsightsTreeProvider(ruleRepository);
+	const workspaceReport = new WorkspaceReportPanel(ruleRepository);
+	const policyPackValidator = new PolicyPackValidator(settingsManager);
+	const serverLog = new ServerLogViewer(context.extensionUri.fsPath);
+	const telemetry = new TelemetryReporter(context, settingsManager);
+	const unityProject = new UnityProjectDetector();
+	lintScope = new LintScope(settingsManager);
 
-	context.subscriptions.push(settingsManager, ruleRepository, statusBar, documentationPanel);
+	context.subscriptions.push(settingsManager, documentationStore, ruleRepository, baseline, statusBar, documentationPanel, rulesTree, ruleInsights, workspaceReport, policyPackValidator, serverLog, telemetry, unityProject, lintScope);
+	statusBar.updateUnityProject(unityProject.project);
+	offerDetectedConfiguration(context, unityProject.project, settingsManager);
+	context.subscriptions.push(unityProject.onDidChange(project => {
+		statusBar.updateUnityProject(project);
+		offerDetectedConfiguration(context, project, settingsManager);
+	}));
+	await baseline.reload();
+	context.subscriptions.push(
+		vscode.window.createTreeView(RULES_VIEW_ID, {
+			treeDataProvider: rulesTree,
+			showCollapseAll: true,
+		})
+	);
+	const ruleInsightsView = vscode.window.createTreeView(RULE_INSIGHTS_VIEW_ID, {
+		treeDataProvider: ruleInsights,
+		showCollapseAll: true,
+	});
+	ruleInsights.attach(ruleInsightsView);
+	context.subscriptions.push(ruleInsightsView);
 
 	clientController = new LanguageClientController(
 		context,
 		settingsManager,
 		ruleRepository,
 		statusBar,
+		baseline,
+		telemetry,
+		lintScope,
 	);
 	context.subscriptions.push(clientController);
 
-	try {
-		await clientController.start();
-	} catch (error) {
-		const message = vscode.l10n.t('Failed to start the UdonSharp Linter server. {0}', String(error));
-		console.error(message, error);
-		await vscode.window.showErrorMessage(message);
-	}
+	const networkTree = new NetworkTreeProvider(() => clientController?.languageClient, lintScope, clientController.onDidChangeState);
+	const networkView = vscode.window.createTreeView(NETWORK_VIEW_ID, {
+		treeDataProvider: networkTree,
+		showCollapseAll: true,
+	});
+	networkTree.attach(networkView);
+	context.subscriptions.push(networkTree, networkView);
 
 	context.subscriptions.push(
 		vscode.commands.registerCommand('udonsharpLinter.switchProfile', async () => {
-			await showProfilePicker(settingsManager);
+			await showProfilePicker(settingsManager, ruleRepository);
+		}),
+		vscode.workspace.registerTextDocumentContentProvider(PROFILE_DIFF_SCHEME, new ProfileDiffContentProvider(ruleRepository)),
+		vscode.commands.registerCommand(STATUS_MENU_COMMAND, async () => {
+			await statusBar.showMenu();
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.restartServer', async () => {
+			try {
+				await clientController?.restart();
+			} catch (error) {
+				await vscode.window.showErrorMessage(
+					vscode.l10n.t('Failed to start the UdonSharp Linter server. {0}', String(error))
+				);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.startServer', async () => {
+			try {
+				await clientController?.startServer();
+			} catch (error) {
+				await vscode.window.showErrorMessage(
+					vscode.l10n.t('Failed to start the UdonSharp Linter server. {0}', String(error))
+				);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.stopServer', async () => {
+			await clientController?.stopServer();
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.showOutput', () => {
+			getLog().show(true);
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.showServerLog', async () => {
+			await serverLog.show();
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.applyDetectedConfiguration', async () => {
+			await applyDetectedProjectConfiguration(unityProject, settingsManager);
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.showTelemetry', async () => {
+			await telemetry.showCollected();
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.collectDiagnostics', async () => {
+			try {
+				await collectDiagnosticsBundle(context, settingsManager, ruleRepository, clientController);
+			} catch (error) {
+				await vscode.window.showErrorMessage(
+					vscode.l10n.t('UdonSharp Linter could not collect the diagnostics bundle. {0}', String(error))
+				);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.prefetchDocumentation', async () => {
+			if (ruleRepository.rules.length === 0) {
+				await vscode.window.showWarningMessage(
+					vscode.l10n.t('Start the UdonSharp Linter server before prefetching rule documentation.')
+				);
+				return;
+			}
+			try {
+				const fetched = await vscode.window.withProgress(
+					{
+						location: vscode.ProgressLocation.Notification,
+						title: vscode.l10n.t('Prefetching rule documentation'),
+						cancellable: true,
+					},
+					(progress, token) => ruleRepository.prefetchDocumentation(progress, token)
+				);
+				await vscode.window.showInformationMessage(
+					vscode.l10n.t('Rule documentation is available offline ({0} pages downloaded).', fetched)
+				);
+			} catch (error) {
+				await vscode.window.showErrorMessage(
+					vscode.l10n.t('UdonSharp Linter could not prefetch documentation. {0}', String(error))
+				);
+			}
 		}),
 		vscode.commands.registerCommand('udonsharpLinter.searchRules', async () => {
 			const selection = await pickRule(ruleRepository);
@@ -43,6 +173,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 				await documentationPanel.show(selection.id);
 			}
 		}),
+		vscode.commands.registerCommand(CONFIGURE_RULE_SEVERITY_COMMAND, async (search?: string) => {
+			await configureRuleSeverity(ruleRepository, settingsManager, typeof search === 'string' ? search : '');
+		}),
 		vscode.commands.registerCommand('udonsharpLinter.openRuleDocs', async (ruleId?: string) => {
 			if (!ruleId) {
 				const picked = await pickRule(ruleRepository);
@@ -53,11 +186,200 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			}
 			await documentationPanel.show(ruleId);
 		}),
+		vscode.commands.registerCommand('udonsharpLinter.showEffectiveSettings', async () => {
+			const document = await vscode.workspace.openTextDocument({
+				language: 'json',
+				content: JSON.stringify(settingsManager.createReport(), undefined, 2),
+			});
+			await vscode.window.showTextDocument(document, { preview: true });
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.showEffectiveRules', async () => {
+			if (lintScope) {
+				await showEffectiveRules(ruleRepository, settingsManager, lintScope);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.previewRuleDocumentation', async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor || !policyPackValidator.isPolicyPack(editor.document)) {
+				await vscode.window.showWarningMessage(vscode.l10n.t('Open a policy pack JSON file to preview its rule documentation.'));
+				return;
+			}
+			const documentation = await pickPolicyPackDocumentation(editor);
+			if (documentation) {
+				await documentationPanel.showDocumentation(documentation);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.rules.refresh', async () => {
+			await ruleRepository.refresh();
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.rules.openDocs', async (node?: RuleNode) => {
+			if (node?.rule) {
+				await documentationPanel.show(node.rule.id);
+			}
+		}),
+		...registerSeverityCommands(),
+		vscode.commands.registerCommand('udonsharpLinter.network.refresh', async () => {
+			await networkTree.refresh();
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.network.goToTarget', async (node?: EventCallNode) => {
+			if (node?.call.target) {
+				await revealSymbolLocation(node.call.target.location);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.ruleInsights.groupByCategory', () => {
+			ruleInsights.setGrouping('category');
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.ruleInsights.groupByRule', () => {
+			ruleInsights.setGrouping('rule');
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.ruleInsights.openDocs', async (node?: InsightRuleNode) => {
+			if (node?.ruleId) {
+				await documentationPanel.show(node.ruleId);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.ruleInsights.showOccurrences', async (node?: InsightRuleNode) => {
+			if (node?.ruleId) {
+				await showRuleOccurrences(node.ruleId);
+			}
+		}),
+		vscode.commands.registerCommand(DISABLE_RULE_COMMAND, async (ruleId?: string) => {
+			if (ruleId) {
+				await disableRuleInWorkspace(ruleId, settingsManager);
+			}
+		}),
+		vscode.languages.registerCodeActionsProvider(
+			{ language: 'csharp' },
+			new SuppressionCodeActionProvider(settingsManager),
+			{ providedCodeActionKinds: SuppressionCodeActionProvider.providedCodeActionKinds }
+		),
+		vscode.commands.registerCommand('udonsharpLinter.lintWorkspace', async () => {
+			const result = await runWorkspaceAnalysis();
+			if (result) {
+				workspaceReport.show(result);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.exportDiagnostics', async () => {
+			try {
+				await exportDiagnostics(
+					ruleRepository,
+					settingsManager,
+					baseline,
+					String(context.extension.packageJSON.version ?? '0.0.0'),
+					runWorkspaceAnalysis
+				);
+			} catch (error) {
+				await vscode.window.showErrorMessage(
+					vscode.l10n.t('UdonSharp Linter could not export diagnostics. {0}', String(error))
+				);
+			}
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.baseline.create', async () => {
+			if (baseline.hasBaseline) {
+				const overwrite = vscode.l10n.t('Overwrite');
+				const choice = await vscode.window.showWarningMessage(
+					vscode.l10n.t('A diagnostics baseline already exists. Overwrite it with the current findings?'),
+					{ modal: true },
+					overwrite
+				);
+				if (choice !== overwrite) {
+					return;
+				}
+			}
+			await recordBaseline(baseline);
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.baseline.update', async () => {
+			await recordBaseline(baseline);
+		}),
+		vscode.commands.registerCommand('udonsharpLinter.baseline.toggle', () => {
+			baseline.setEnabled(!baseline.isEnabled);
+		}),
+		vscode.commands.registerCommand(REMOVE_STALE_BASELINE_COMMAND, async () => {
+			const stale = await baseline.findStaleEntries();
+			if (stale.length === 0) {
+				await vscode.window.showInformationMessage(vscode.l10n.t('The diagnostics baseline has no stale entries.'));
+				return;
+			}
+			await baseline.removeEntries(stale);
+			await vscode.window.showInformationMessage(vscode.l10n.t('Removed {0} stale baseline entries.', stale.length));
+		}),
+		vscode.languages.registerCodeActionsProvider(
+			BASELINE_DOCUMENT_SELECTOR,
+			new BaselineCodeActionProvider(baseline),
+			{ providedCodeActionKinds: BaselineCodeActionProvider.providedCodeActionKinds }
+		),
+		vscode.languages.registerHoverProvider({ language: 'csharp' }, new RuleHoverProvider(ruleRepository)),
 	);
 
+	// Commands are registered first: Restart, Start Server and Show Log must work when this fails.
+	try {
+		await clientController.start();
+	} catch (error) {
+		const message = vscode.l10n.t('Failed to start the UdonSharp Linter server. {0}', String(error));
+		getLog().error(message);
+		clientController.offerRestart(message);
+	}
+
 	vscode.window.showInformationMessage(vscode.l10n.t('UdonSharp Linter is active.'));
 }
 
+async function runWorkspaceAnalysis(): Promise<WorkspaceAnalysisResult | undefined> {
+	const client = clientController?.languageClient;
+	if (!client?.isRunning() || !lintScope) {
+		await vscode.window.showWarningMessage(vscode.l10n.t('The UdonSharp Linter server is not running.'));
+		return undefined;
+	}
+	try {
+		return await analyzeWorkspace(client, lintScope);
+	} catch (error) {
+		await vscode.window.showErrorMessage(
+			vscode.l10n.t('UdonSharp Linter could not analyze the workspace. {0}', String(error))
+		);
+		return undefined;
+	}
+}
+
+async function recordBaseline(baseline: BaselineManager): Promise<void> {
+	const result = await runWorkspaceAnalysis();
+	if (!result) {
+		return;
+	}
+	if (result.cancelled) {
+		await vscode.window.showWarningMessage(vscode.l10n.t('Workspace analysis was cancelled; the baseline was not written.'));
+		return;
+	}
+	try {
+		const count = await baseline.create(result);
+		await vscode.window.showInformationMessage(vscode.l10n.t('Recorded {0} findings in the diagnostics baseline.', count));
+	} catch (error) {
+		await vscode.window.showErrorMessage(
+			vscode.l10n.t('UdonSharp Linter could not write the diagnostics baseline. {0}', String(error))
+		);
+	}
+}
+
+function registerSeverityCommands(): vscode.Disposable[] {
+	const commands: Array<[string, RuleSeveritySetting | undefined]> = [
+		['udonsharpLinter.rules.setSeverityError', 'error'],
+		['udonsharpLinter.rules.setSeverityWarn', 'warn'],
+		['udonsharpLinter.rules.setSeverityInfo', 'info'],
+		['udonsharpLinter.rules.setSeverityOff', 'off'],
+		['udonsharpLinter.rules.resetSeverity', undefined],
+	];
+
+	return commands.map(([command, severity]) => vscode.commands.registerCommand(command, async (node?: RuleNode) => {
+		if (!node?.rule) {
+			return;
+		}
+		try {
+			await updateRuleOverride(node.rule.id, severity);
+		} catch (error) {
+			await vscode.window.showErrorMessage(
+				vscode.l10n.t('UdonSharp Linter could not update the severity of {0}. {1}', node.rule.id, String(error))
+			);
+		}
+	}));
+}
+
 export async function deactivate(): Promise<void> {
 	if (clientController) {
 		await clientController.stop();
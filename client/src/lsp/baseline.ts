@@ -0,0 +1,372 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageclient/node';
+import { getRuleId } from './diagnosticCodes';
+import { getLog } from './log';
+import { WorkspaceAnalysisResult } from './workspaceAnalysis';
+
+export const BASELINE_FILE_NAME = '.udonsharp-baseline.json';
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+	readonly ruleId: string;
+	readonly file: string;
+	readonly fingerprint: string;
+}
+
+interface BaselineFile {
+	readonly version: number;
+	readonly entries: BaselineEntry[];
+}
+
+/** Anything fingerprinted by its first line: VS Code diagnostics and LSP diagnostics alike. */
+interface BaselineCandidate {
+	readonly range: { readonly start: { readonly line: number } };
+}
+
+type HandleDiagnostics = (uri: vscode.Uri, diagnostics: vscode.Diagnostic[]) => void;
+
+/**
+ * Tracks `.udonsharp-baseline.json` and hides diagnostics it records. Raw diagnostics are
+ * kept per document so toggling the baseline can re-publish without asking the server.
+ */
+export class BaselineManager implements vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<void>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private readonly rawDiagnostics = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[]; fingerprints: (string | undefined)[] }>();
+	private readonly hiddenCounts = new Map<string, number>();
+	private readonly publishVersions = new Map<string, number>();
+	private entries: BaselineEntry[] = [];
+	private exists = false;
+	private enabled = true;
+	private forward: HandleDiagnostics | undefined;
+
+	public readonly onDidChange = this.emitter.event;
+
+	constructor() {
+		const watcher = vscode.workspace.createFileSystemWatcher(`**/${BASELINE_FILE_NAME}`);
+		this.disposables.push(
+			watcher,
+			watcher.onDidCreate(() => void this.reload()),
+			watcher.onDidChange(() => void this.reload()),
+			watcher.onDidDelete(() => void this.reload()),
+		);
+	}
+
+	public get hasBaseline(): boolean {
+		return this.exists;
+	}
+
+	public get isEnabled(): boolean {
+		return this.enabled;
+	}
+
+	public get entryCount(): number {
+		return this.entries.length;
+	}
+
+	public get hiddenCount(): number {
+		let total = 0;
+		for (const count of this.hiddenCounts.values()) {
+			total += count;
+		}
+		return total;
+	}
+
+	public async reload(): Promise<void> {
+		const baselineUri = getBaselineUri();
+		this.entries = [];
+		this.exists = false;
+		if (baselineUri) {
+			try {
+				const content = await vscode.workspace.fs.readFile(baselineUri);
+				const parsed = JSON.parse(Buffer.from(content).toString('utf8')) as Partial<BaselineFile>;
+				this.entries = Array.isArray(parsed.entries) ? parsed.entries.filter(isBaselineEntry) : [];
+				this.exists = true;
+			} catch (error) {
+				if (!(error instanceof vscode.FileSystemError)) {
+					getLog().error('Reading the diagnostics baseline failed:', error);
+				}
+			}
+		}
+		this.republishAll();
+	}
+
+	public setEnabled(enabled: boolean): void {
+		if (this.enabled === enabled) {
+			return;
+		}
+		this.enabled = enabled;
+		this.republishAll();
+	}
+
+	/** Middleware entry point for `textDocument/publishDiagnostics`. */
+	public async handleDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[], next: HandleDiagnostics): Promise<void> {
+		this.forward = next;
+		const key = uri.toString();
+		const version = (this.publishVersions.get(key) ?? 0) + 1;
+		this.publishVersions.set(key, version);
+
+		const fingerprints = diagnostics.some(diagnostic => getRuleId(diagnostic))
+			? await computeFingerprints(uri, diagnostics)
+			: diagnostics.map(() => undefined);
+		if (this.publishVersions.get(key) !== version) {
+			// A newer publish for this document arrived while the file was being read.
+			return;
+		}
+
+		// An open document with no findings stays recorded as analyzed, so the baseline entries
+		// it fixed become stale. The empty publish that follows a close says nothing about the file.
+		if (diagnostics.length === 0 && !isOpenDocument(uri)) {
+			this.rawDiagnostics.delete(key);
+			this.hiddenCounts.delete(key);
+			next(uri, diagnostics);
+			this.emitter.fire();
+			return;
+		}
+
+		this.rawDiagnostics.set(key, { uri, diagnostics, fingerprints });
+		this.publish(key);
+		this.emitter.fire();
+	}
+
+	/** Forgets published diagnostics when the language client that owned them stops. */
+	public clearDiagnostics(): void {
+		this.rawDiagnostics.clear();
+		this.hiddenCounts.clear();
+		this.forward = undefined;
+		this.emitter.fire();
+	}
+
+	public async create(result: WorkspaceAnalysisResult): Promise<number> {
+		const entries: BaselineEntry[] = [];
+		for (const file of result.files) {
+			if (file.diagnostics.length === 0) {
+				continue;
+			}
+			const uri = vscode.Uri.parse(file.uri);
+			entries.push(...toBaselineEntries(toBaselinePath(uri), file.diagnostics, await readLines(uri)));
+		}
+		await this.write(entries);
+		return entries.length;
+	}
+
+	/**
+	 * Hides baselined findings in a workspace analysis the way the Problems panel does, so
+	 * exports of fresh results match exports of published diagnostics.
+	 */
+	public async applyToAnalysis(result: WorkspaceAnalysisResult): Promise<WorkspaceAnalysisResult> {
+		if (!this.enabled || this.entries.length === 0) {
+			return result;
+		}
+		const files = [];
+		for (const file of result.files) {
+			const uri = vscode.Uri.parse(file.uri);
+			const fingerprints = file.diagnostics.length > 0
+				? await computeFingerprints(uri, file.diagnostics)
+				: [];
+			const diagnostics = this.filter(uri, file.diagnostics, fingerprints, diagnostic => diagnostic.code === undefined ? undefined : String(diagnostic.code));
+			files.push({ ...file, diagnostics });
+		}
+		return { ...result, files };
+	}
+
+	/** Entries whose file is gone, or whose file was re-analyzed without a matching finding. */
+	public async findStaleEntries(): Promise<BaselineEntry[]> {
+		const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+		if (!root) {
+			return [];
+		}
+
+		const analyzedFiles = new Map<string, { ruleId: string; fingerprint: string }[]>();
+		for (const raw of this.rawDiagnostics.values()) {
+			analyzedFiles.set(toBaselinePath(raw.uri), raw.diagnostics.flatMap((diagnostic, index) => {
+				const ruleId = getRuleId(diagnostic);
+				const print = raw.fingerprints[index];
+				return ruleId && print ? [{ ruleId, fingerprint: print }] : [];
+			}));
+		}
+
+		const stale: BaselineEntry[] = [];
+		for (const entry of this.entries) {
+			const current = analyzedFiles.get(entry.file);
+			if (current) {
+				const index = current.findIndex(candidate => candidate.ruleId === entry.ruleId && candidate.fingerprint === entry.fingerprint);
+				if (index >= 0) {
+					current.splice(index, 1);
+				} else {
+					stale.push(entry);
+				}
+				continue;
+			}
+			if (!await fileExists(vscode.Uri.joinPath(root, entry.file))) {
+				stale.push(entry);
+			}
+		}
+		return stale;
+	}
+
+	public async removeEntries(stale: readonly BaselineEntry[]): Promise<void> {
+		const remaining = [...this.entries];
+		for (const entry of stale) {
+			const index = remaining.indexOf(entry);
+			if (index >= 0) {
+				remaining.splice(index, 1);
+			}
+		}
+		await this.write(remaining);
+	}
+
+	public dispose(): void {
+		this.emitter.dispose();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private async write(entries: BaselineEntry[]): Promise<void> {
+		const baselineUri = getBaselineUri();
+		if (!baselineUri) {
+			throw new Error(vscode.l10n.t('Open a workspace folder to use a diagnostics baseline.'));
+		}
+		const sorted = [...entries].sort((left, right) =>
+			left.file.localeCompare(right.file, 'en')
+			|| left.ruleId.localeCompare(right.ruleId, 'en')
+			|| left.fingerprint.localeCompare(right.fingerprint, 'en'));
+		const payload: BaselineFile = { version: BASELINE_VERSION, entries: sorted };
+		await vscode.workspace.fs.writeFile(baselineUri, Buffer.from(`${JSON.stringify(payload, undefined, 2)}\n`, 'utf8'));
+		this.entries = sorted;
+		this.exists = true;
+		this.republishAll();
+	}
+
+	private republishAll(): void {
+		for (const key of [...this.rawDiagnostics.keys()]) {
+			this.publish(key);
+		}
+		this.emitter.fire();
+	}
+
+	private publish(key: string): void {
+		const raw = this.rawDiagnostics.get(key);
+		if (!raw) {
+			return;
+		}
+
+		const visible = this.enabled && this.entries.length > 0
+			? this.filter(raw.uri, raw.diagnostics, raw.fingerprints, getRuleId)
+			: raw.diagnostics;
+		this.hiddenCounts.set(key, raw.diagnostics.length - visible.length);
+		this.forward?.(raw.uri, visible);
+	}
+
+	private filter<T extends BaselineCandidate>(
+		uri: vscode.Uri,
+		diagnostics: T[],
+		fingerprints: (string | undefined)[],
+		getId: (diagnostic: T) => string | undefined
+	): T[] {
+		const file = toBaselinePath(uri);
+		return removeBaselined(this.entries.filter(entry => entry.file === file), diagnostics, fingerprints, getId);
+	}
+}
+
+/**
+ * Baseline entries for one analyzed file. Hints (rules set to `off`), findings without a rule
+ * ID and findings whose line could not be read are left out: `removeBaselined` never hides them.
+ */
+export function toBaselineEntries(file: string, diagnostics: readonly Diagnostic[], lines: readonly string[] | undefined): BaselineEntry[] {
+	return diagnostics.flatMap(diagnostic => {
+		const ruleId = diagnostic.code === undefined ? '' : String(diagnostic.code);
+		const line = lines?.[diagnostic.range.start.line];
+		return ruleId && line !== undefined && diagnostic.severity !== DiagnosticSeverity.Hint
+			? [{ ruleId, file, fingerprint: fingerprint(line) }]
+			: [];
+	});
+}
+
+/**
+ * The diagnostics of one file that no entry in `entries` records. `fingerprints` line up
+ * with `diagnostics`; findings without a rule ID or a fingerprint always stay.
+ */
+export function removeBaselined<T>(
+	entries: readonly BaselineEntry[],
+	diagnostics: T[],
+	fingerprints: readonly (string | undefined)[],
+	getId: (diagnostic: T) => string | undefined
+): T[] {
+	if (entries.length === 0) {
+		return diagnostics;
+	}
+
+	const candidates = [...entries];
+	return diagnostics.filter((diagnostic, index) => {
+		const ruleId = getId(diagnostic);
+		const print = fingerprints[index];
+		if (!ruleId || !print) {
+			return true;
+		}
+		const match = candidates.findIndex(entry => entry.ruleId === ruleId && entry.fingerprint === print);
+		if (match < 0) {
+			return true;
+		}
+		// Each entry hides a single finding so duplicated violations still surface.
+		candidates.splice(match, 1);
+		return false;
+	});
+}
+
+function getBaselineUri(): vscode.Uri | undefined {
+	const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+	return root ? vscode.Uri.joinPath(root, BASELINE_FILE_NAME) : undefined;
+}
+
+function isBaselineEntry(value: unknown): value is BaselineEntry {
+	const candidate = value as Partial<BaselineEntry> | undefined;
+	return typeof candidate?.ruleId === 'string'
+		&& typeof candidate.file === 'string'
+		&& typeof candidate.fingerprint === 'string';
+}
+
+function toBaselinePath(uri: vscode.Uri): string {
+	return vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+}
+
+/** Identifies a finding by the trimmed text of its first line, so it survives code moving around it. */
+export function fingerprint(lineText: string): string {
+	return crypto.createHash('sha256').update(lineText.trim()).digest('hex').substring(0, 16);
+}
+
+async function computeFingerprints(uri: vscode.Uri, diagnostics: readonly BaselineCandidate[]): Promise<(string | undefined)[]> {
+	const lines = await readLines(uri);
+	return diagnostics.map(diagnostic => {
+		const line = lines?.[diagnostic.range.start.line];
+		return line === undefined ? undefined : fingerprint(line);
+	});
+}
+
+function isOpenDocument(uri: vscode.Uri): boolean {
+	return vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString());
+}
+
+async function readLines(uri: vscode.Uri): Promise<string[] | undefined> {
+	const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+	if (openDocument) {
+		return openDocument.getText().split(/\r?\n/);
+	}
+	try {
+		const content = await vscode.workspace.fs.readFile(uri);
+		return Buffer.from(content).toString('utf8').split(/\r?\n/);
+	} catch {
+		return undefined;
+	}
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	} catch {
+		return false;
+	}
+}
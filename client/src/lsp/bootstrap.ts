@@ -1,28 +1,25 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import * as vscode from 'vscode';
-import { CloseAction, ErrorAction, ErrorHandler, LanguageClient, LanguageClientOptions, ServerOptions } from 'vscode-languageclient/node';
+import { CloseAction, ErrorAction, ErrorHandler, LanguageClient, LanguageClientOptions, ServerOptions, State } from 'vscode-languageclient/node';
 import type { CancellationToken, MessageSignature } from 'vscode-jsonrpc';
-import { SettingsManager } from '../config/settings';
+import { SettingsManager, readServerLaunchOptions } from '../config/settings';
 import { RuleRepository } from './ruleRepository';
-
-interface ServerCommand {
-	command: string;
-	args: string[];
-	options: {
-		env: NodeJS.ProcessEnv;
-	};
-}
-
-const SERVER_ENV_PREFIX = 'udonsharpLinter';
+import { linkDiagnosticCode } from './diagnosticCodes';
+import { resolveServerCommand } from './serverProcess';
+import { BaselineManager } from './baseline';
+import { getLog } from './log';
+import { LintScope, ScopedDocumentSync } from './lintScope';
+import { TelemetryReporter } from '../telemetry/telemetryReporter';
 
 export async function createLanguageClient(
 	context: vscode.ExtensionContext,
 	settingsManager: SettingsManager,
 	ruleRepository: RuleRepository,
+	baseline: BaselineManager,
+	telemetry: TelemetryReporter,
+	lintScope: LintScope,
 	errorHandler?: ErrorHandler
 ): Promise<LanguageClient> {
-	const serverCommand = await resolveServerCommand(context);
+	const serverCommand = await resolveServerCommand(context.extensionUri.fsPath, readServerLaunchOptions(), telemetry.level);
 
 	const serverOptions: ServerOptions = {
 		command: serverCommand.command,
@@ -30,21 +27,34 @@ export async function createLanguageClient(
 		options: serverCommand.options,
 	};
 
+	// Excluded files are filtered here, so the server never sees them.
+	const documentSync = new ScopedDocumentSync(lintScope);
+
 	const clientOptions: LanguageClientOptions = {
 		documentSelector: [
 			{ language: 'csharp', scheme: 'file' },
 			{ language: 'csharp', scheme: 'untitled' },
 		],
-		initializationOptions: settingsManager.settings,
+		initializationOptions: { ...settingsManager.settings, telemetry: telemetry.level },
 		synchronize: {
 			configurationSection: 'udonsharpLinter',
 			fileEvents: vscode.workspace.createFileSystemWatcher('**/*.cs'),
 		},
 		errorHandler: errorHandler ?? createDefaultErrorHandler(),
+		outputChannel: getLog(),
+		traceOutputChannel: getLog(),
+		middleware: {
+			...documentSync.createMiddleware(),
+			handleDiagnostics: (uri, diagnostics, next) => {
+				telemetry.recordDiagnostics(uri, diagnostics);
+				void baseline.handleDiagnostics(uri, diagnostics.map(linkDiagnosticCode), next);
+			},
+		},
 	};
 
+	// The client ID doubles as the settings section for `udonsharpLinter.trace.server`.
 	const client = new LanguageClient(
-		'UdonSharpLinter',
+		'udonsharpLinter',
 		'UdonSharp Linter',
 		serverOptions,
 		clientOptions
@@ -62,7 +72,8 @@ export async function createLanguageClient(
 			return defaultValue;
 		}
 
-		console.error(`UdonSharp Linter request failed (${type.method}):`, error);
+		getLog().error(`Request ${type.method} failed:`, error);
+		telemetry.recordRequestFailure(type.method);
 
 		return originalHandleFailedRequest(
 			type,
@@ -73,6 +84,13 @@ export async function createLanguageClient(
 		);
 	};
 
+	documentSync.attach(client);
+	client.onDidChangeState(event => {
+		if (event.newState === State.Stopped) {
+			documentSync.dispose();
+		}
+	});
+
 	client.registerProposedFeatures();
 	ruleRepository.attachClient(client);
 
@@ -89,68 +107,3 @@ function createDefaultErrorHandler(): ErrorHandler {
 		},
 	};
 }
-
-async function resolveServerCommand(context: vscode.ExtensionContext): Promise<ServerCommand> {
-	const override = process.env.UDONSHARP_LINTER_SERVER_PATH;
-	if (override && override.length > 0) {
-		await ensureExecutable(override);
-		return {
-			command: override,
-			args: ['--lsp'],
-			options: {
-				env: createServerEnvironment(),
-			},
-		};
-	}
-
-	const executableRelative = path.join('resources', 'server', detectPlatform(), detectExecutableName());
-	const executablePath = vscode.Uri.joinPath(context.extensionUri, executableRelative).fsPath;
-	await ensureExecutable(executablePath);
-	return {
-		command: executablePath,
-		args: ['--lsp'],
-		options: {
-			env: createServerEnvironment(),
-		},
-	};
-}
-
-function detectPlatform(): string {
-	const arch = process.arch;
-	switch (process.platform) {
-	case 'win32':
-		if (arch === 'arm64') {
-			return 'win-arm64';
-		}
-		return 'win-x64';
-	case 'darwin':
-		if (arch === 'arm64') {
-			return 'osx-arm64';
-		}
-		return 'osx-x64';
-	case 'linux':
-	default:
-		if (arch === 'arm64') {
-			return 'linux-arm64';
-		}
-		return 'linux-x64';
-	}
-}
-
-function detectExecutableName(): string {
-	return process.platform === 'win32' ? 'udonsharp-lsp.exe' : 'udonsharp-lsp';
-}
-
-async function ensureExecutable(executablePath: string): Promise<void> {
-	const mode = process.platform === 'win32' ? fs.constants.F_OK : fs.constants.X_OK;
-	await fs.promises.access(executablePath, mode);
-	if (process.platform !== 'win32') {
-		await fs.promises.chmod(executablePath, 0o755);
-	}
-}
-
-function createServerEnvironment(): NodeJS.ProcessEnv {
-	const env: NodeJS.ProcessEnv = { ...process.env };
-	env[`${SERVER_ENV_PREFIX.toUpperCase()}_TELEMETRY`] = process.env.UDONSHARP_LINTER_TELEMETRY ?? '1';
-	return env;
-}
@@ -1,40 +1,73 @@
 import * as vscode from 'vscode';
 import { CloseAction, ErrorAction, ErrorHandler, LanguageClient } from 'vscode-languageclient/node';
-import { SettingsManager } from '../config/settings';
+import { LinterSettings, SettingsManager } from '../config/settings';
 import { createLanguageClient } from './bootstrap';
 import { RuleRepository } from './ruleRepository';
-import { Requests, ServerStatusPayload } from './messages';
+import { AnalyzeWorkspaceFilesParams, Requests, ServerStatusPayload } from './messages';
 import { StatusBarController } from '../ui/statusBar';
+import { BaselineManager } from './baseline';
+import { getLog } from './log';
+import { PolicyPackWatcher } from './policyPackWatcher';
+import { TelemetryReporter } from '../telemetry/telemetryReporter';
+import { LintScope } from './lintScope';
 
 const MAX_RESTART_ATTEMPTS = 3;
 const STATUS_REFRESH_INTERVAL = 60_000;
 
+export type ServerState =
+	| { readonly kind: 'starting' }
+	| { readonly kind: 'running' }
+	| { readonly kind: 'restarting'; readonly attempt?: number; readonly maxAttempts?: number }
+	| { readonly kind: 'crashed' }
+	| { readonly kind: 'stopped' };
+
 export class LanguageClientController implements vscode.Disposable {
 	private client: LanguageClient | undefined;
 	private disposed = false;
 	private restartAttempts = 0;
-	private restartPending = false;
+	private restartTimer: NodeJS.Timeout | undefined;
+	private startCount = 0;
 	private statusInterval: NodeJS.Timeout | undefined;
+	private lastServerStatus: ServerStatusPayload | undefined;
+	private currentState: ServerState = { kind: 'starting' };
+	private lastSentConfiguration = '';
+	private checkedServerVersion: string | undefined;
 	// Prevent repetitive info logs when the server status API is unavailable.
 	private warningLoggedForMissingStatus = false;
 	private readonly settingsListener: vscode.Disposable;
+	private readonly policyPackWatcher: PolicyPackWatcher;
+	private readonly stateEmitter = new vscode.EventEmitter<ServerState>();
+
+	public readonly onDidChangeState = this.stateEmitter.event;
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
 		private readonly settings: SettingsManager,
 		private readonly ruleRepository: RuleRepository,
 		private readonly statusBar: StatusBarController,
+		private readonly baseline: BaselineManager,
+		private readonly telemetry: TelemetryReporter,
+		private readonly lintScope: LintScope,
 	) {
-		this.settingsListener = this.settings.onDidChange(() => {
-			if (!this.client) {
-				return;
-			}
-			this.client.sendNotification('workspace/didChangeConfiguration', {
-				settings: {
-					udonsharpLinter: this.settings.settings,
-				},
-			});
-		});
+		this.settingsListener = vscode.Disposable.from(
+			this.settings.onDidChange(() => this.sendConfiguration()),
+			// VS Code's own telemetry switch changes the level without touching our settings.
+			this.telemetry.onDidChangeLevel(() => this.sendConfiguration()),
+			vscode.workspace.onDidChangeConfiguration(event => {
+				// After a failed start there is no client, and a corrected server path should start one.
+				// A server the user stopped stays stopped.
+				if (event.affectsConfiguration('udonsharpLinter.server') && this.currentState.kind !== 'stopped') {
+					getLog().info('Server launch settings changed; restarting the server.');
+					void (this.client ? this.restart() : this.startServer()).catch(error => {
+						void vscode.window.showErrorMessage(
+							vscode.l10n.t('Failed to start the UdonSharp Linter server. {0}', String(error))
+						);
+					});
+				}
+			}),
+		);
+		this.policyPackWatcher = new PolicyPackWatcher(this.settings);
+		this.policyPackWatcher.onDidChangePolicyPack(() => void this.reloadPolicyPacks());
 	}
 
 	public async start(): Promise<void> {
@@ -45,28 +78,44 @@ export class LanguageClientController implements vscode.Disposable {
 			return;
 		}
 
-		const errorHandler = this.createErrorHandler();
-		const client = await createLanguageClient(
-			this.context,
-			this.settings,
-			this.ruleRepository,
-			errorHandler
-		);
-		this.client = client;
-
-		this.statusInterval = setInterval(() => {
-			void this.requestServerStatus();
-		}, STATUS_REFRESH_INTERVAL);
+		if (this.currentState.kind !== 'restarting') {
+			this.setState({ kind: 'starting' });
+		}
 
 		try {
+			// A missing server binary throws here; it must leave the state 'crashed' like a failed start.
+			const client = await createLanguageClient(
+				this.context,
+				this.settings,
+				this.ruleRepository,
+				this.baseline,
+				this.telemetry,
+				this.lintScope,
+				this.createErrorHandler()
+			);
+			this.client = client;
+			this.lastSentConfiguration = JSON.stringify(this.createServerSettings());
+
+			this.statusInterval = setInterval(() => {
+				void this.requestServerStatus();
+			}, STATUS_REFRESH_INTERVAL);
+
 			await client.start();
 			this.restartAttempts = 0;
+			this.startCount += 1;
+			this.setState({ kind: 'running' });
 			this.warningLoggedForMissingStatus = false;
+			// A restarted server may ship different rules or policy packs than the last one.
+			this.ruleRepository.clearCache();
 			await this.ruleRepository.initialise();
 			await this.requestServerStatus();
+			if (this.startCount > 1) {
+				await this.republishOpenDocuments(client);
+			}
 		} catch (error) {
 			this.clearStatusInterval();
 			this.client = undefined;
+			this.setState({ kind: 'crashed' });
 			throw error;
 		}
 	}
@@ -75,6 +124,54 @@ export class LanguageClientController implements vscode.Disposable {
 		return this.client;
 	}
 
+	public get state(): ServerState {
+		return this.currentState;
+	}
+
+	/** Manual restart; also recovers after automatic restarts were exhausted. */
+	public async restart(): Promise<void> {
+		this.telemetry.recordServerRestart();
+		this.resetBackoff();
+		this.setState({ kind: 'restarting' });
+		await this.stop();
+		await this.start();
+	}
+
+	public async startServer(): Promise<void> {
+		this.resetBackoff();
+		await this.start();
+	}
+
+	public async stopServer(): Promise<void> {
+		this.resetBackoff();
+		await this.stop();
+	}
+
+	/** Shows `message` as an error with Restart and Show Output actions, without waiting for it. */
+	public offerRestart(message: string): void {
+		const restartAction = vscode.l10n.t('Restart');
+		const showOutputAction = vscode.l10n.t('Show Output');
+		void vscode.window.showErrorMessage(message, restartAction, showOutputAction).then(async choice => {
+			if (choice === restartAction) {
+				try {
+					await this.restart();
+				} catch (error) {
+					getLog().error('Manual restart failed:', error);
+					void vscode.window.showErrorMessage(
+						vscode.l10n.t('Failed to start the UdonSharp Linter server. {0}', String(error))
+					);
+				}
+			} else if (choice === showOutputAction) {
+				getLog().show(true);
+			}
+		});
+	}
+
+	/** Last payload from `udonsharp/server/status`, if the server answered one. */
+	public get serverStatus(): ServerStatusPayload | undefined {
+		return this.lastServerStatus;
+	}
+
 	public async stop(): Promise<void> {
 		this.clearStatusInterval();
 		if (this.client) {
@@ -83,32 +180,42 @@ export class LanguageClientController implements vscode.Disposable {
 			try {
 				await current.stop(2_000);
 			} catch (error) {
-				console.error('UdonSharp Linter client stop failure:', error);
+				getLog().error('Stopping the language client failed:', error);
 			}
+			this.baseline.clearDiagnostics();
+		}
+		if (this.currentState.kind !== 'restarting') {
+			this.setState({ kind: 'stopped' });
 		}
 	}
 
 	public dispose(): void {
 		this.disposed = true;
+		this.resetBackoff();
 		this.clearStatusInterval();
 		this.settingsListener.dispose();
+		this.policyPackWatcher.dispose();
+		this.stateEmitter.dispose();
 		void this.stop();
 	}
 
 	private createErrorHandler(): ErrorHandler {
 		return {
 			error: (error: unknown, message: unknown, count: number | undefined) => {
-				console.error('UdonSharp Linter server error:', error, message);
+				getLog().error('Server connection error:', error, message);
 				if ((count ?? 0) >= MAX_RESTART_ATTEMPTS) {
-					vscode.window.showErrorMessage(
-						vscode.l10n.t('The UdonSharp Linter server failed repeatedly. Check the output window for details.')
-					).then(undefined, console.error);
+					// The client shuts itself down; forget it so Start and Restart create a new one.
+					this.clearStatusInterval();
+					this.client = undefined;
+					this.baseline.clearDiagnostics();
+					this.setState({ kind: 'crashed' });
+					this.offerRestart(vscode.l10n.t('The UdonSharp Linter server failed repeatedly. Check the output window for details.'));
 					return { action: ErrorAction.Shutdown };
 				}
 				return { action: ErrorAction.Continue };
 			},
 			closed: () => {
-				console.warn('UdonSharp Linter server connection closed.');
+				getLog().warn('Server connection closed.');
 				this.scheduleRestart();
 				return { action: CloseAction.DoNotRestart };
 			},
@@ -120,23 +227,23 @@ export class LanguageClientController implements vscode.Disposable {
 			return;
 		}
 
-		if (this.restartPending) {
+		if (this.restartTimer) {
 			return;
 		}
 
 		if (this.restartAttempts >= MAX_RESTART_ATTEMPTS) {
-			void vscode.window.showErrorMessage(
-				vscode.l10n.t('The UdonSharp Linter server cannot be restarted. Reload the extension or restart VSCode.')
-			);
+			this.setState({ kind: 'crashed' });
+			this.offerRestart(vscode.l10n.t('The UdonSharp Linter server stopped after {0} restart attempts.', MAX_RESTART_ATTEMPTS));
 			return;
 		}
 
-		this.restartPending = true;
 		this.restartAttempts += 1;
+		this.telemetry.recordServerRestart();
+		this.setState({ kind: 'restarting', attempt: this.restartAttempts, maxAttempts: MAX_RESTART_ATTEMPTS });
 		const delay = Math.pow(2, this.restartAttempts - 1) * 1_000;
-		setTimeout(() => {
+		this.restartTimer = setTimeout(() => {
 			void (async () => {
-				this.restartPending = false;
+				this.restartTimer = undefined;
 
 				if (this.client) {
 					await this.stop();
@@ -151,13 +258,118 @@ export class LanguageClientController implements vscode.Disposable {
 				try {
 					await this.start();
 				} catch (error) {
-					console.error('UdonSharp Linter server restart failed:', error);
+					getLog().error('Server restart failed:', error);
 					this.scheduleRestart();
 				}
 			})();
 		}, delay);
 	}
 
+	private resetBackoff(): void {
+		if (this.restartTimer) {
+			clearTimeout(this.restartTimer);
+			this.restartTimer = undefined;
+		}
+		this.restartAttempts = 0;
+	}
+
+	/** Settings as the server sees them: the telemetry level is the resolved one, not the raw setting. */
+	private createServerSettings(): LinterSettings {
+		return { ...this.settings.settings, telemetry: this.telemetry.level };
+	}
+
+	private sendConfiguration(): void {
+		if (!this.client) {
+			return;
+		}
+		// A telemetry setting change fires both listeners; send it once.
+		const serverSettings = this.createServerSettings();
+		const signature = JSON.stringify(serverSettings);
+		if (signature === this.lastSentConfiguration) {
+			return;
+		}
+		this.lastSentConfiguration = signature;
+		// The server answers with `udonsharp/rules/didChange`, which refreshes the rule list.
+		void this.client.sendNotification('workspace/didChangeConfiguration', {
+			settings: {
+				udonsharpLinter: serverSettings,
+			},
+		}).then(
+			undefined,
+			error => getLog().error('Configuration update failed:', error)
+		);
+	}
+
+	private async reloadPolicyPacks(): Promise<void> {
+		const client = this.client;
+		if (!client?.isRunning()) {
+			return;
+		}
+		try {
+			await client.sendRequest(Requests.reloadRules);
+			await this.republishOpenDocuments(client);
+			await this.requestServerStatus();
+		} catch (error) {
+			getLog().error('Reloading policy packs failed:', error);
+		}
+	}
+
+	// Diagnostics are only pushed on edits; after a restart or pack reload ask for them again.
+	private async republishOpenDocuments(client: LanguageClient): Promise<void> {
+		const uris = vscode.workspace.textDocuments
+			.filter(document => document.languageId === 'csharp' && document.uri.scheme === 'file')
+			.filter(document => this.lintScope.includesDocument(document))
+			.map(document => document.uri.toString());
+		if (uris.length === 0) {
+			return;
+		}
+		try {
+			const params: AnalyzeWorkspaceFilesParams = { uris };
+			await client.sendRequest(Requests.analyzeWorkspaceFiles, params);
+		} catch (error) {
+			getLog().warn('Re-publishing diagnostics after restart failed:', error);
+		}
+	}
+
+	/** Warns once per server version when its major version differs from the extension's. */
+	private checkServerVersion(serverVersion: string): void {
+		if (serverVersion === this.checkedServerVersion) {
+			return;
+		}
+		this.checkedServerVersion = serverVersion;
+		const extensionVersion = String(this.context.extension.packageJSON.version ?? '0.0.0');
+		const serverMajor = parseMajorVersion(serverVersion);
+		const extensionMajor = parseMajorVersion(extensionVersion);
+		if (serverMajor === undefined || extensionMajor === undefined || serverMajor === extensionMajor) {
+			return;
+		}
+
+		getLog().warn(`Server version ${serverVersion} is incompatible with extension version ${extensionVersion}.`);
+		const settingsAction = vscode.l10n.t('Open Server Settings');
+		void vscode.window.showWarningMessage(
+			vscode.l10n.t(
+				'The UdonSharp Linter server is version {0}, but this extension ({1}) expects a {2}.x server. Diagnostics may be missing or wrong until both match.',
+				serverVersion,
+				extensionVersion,
+				extensionMajor
+			),
+			settingsAction
+		).then(choice => {
+			if (choice === settingsAction) {
+				void vscode.commands.executeCommand('workbench.action.openSettings', 'udonsharpLinter.server');
+			}
+		});
+	}
+
+	private setState(state: ServerState): void {
+		if (this.disposed) {
+			return;
+		}
+		this.currentState = state;
+		this.statusBar.updateServerState(state);
+		this.stateEmitter.fire(state);
+	}
+
 	private clearStatusInterval(): void {
 		if (this.statusInterval) {
 			clearInterval(this.statusInterval);
@@ -176,7 +388,10 @@ export class LanguageClientController implements vscode.Disposable {
 		try {
 			const payload = await client.sendRequest<ServerStatusPayload>(Requests.serverStatus);
 			if (payload) {
+				this.lastServerStatus = payload;
 				this.statusBar.updateServerStatus(payload);
+				void this.ruleRepository.setServerVersion(payload.serverVersion);
+				this.checkServerVersion(payload.serverVersion);
 				this.warningLoggedForMissingStatus = false;
 				return;
 			}
@@ -188,7 +403,10 @@ export class LanguageClientController implements vscode.Disposable {
 				try {
 					const compatPayload = await client.sendRequest<ServerStatusPayload>(Requests.serverStatusCompat);
 					if (compatPayload) {
+						this.lastServerStatus = compatPayload;
 						this.statusBar.updateServerStatus(compatPayload);
+						void this.ruleRepository.setServerVersion(compatPayload.serverVersion);
+						this.checkServerVersion(compatPayload.serverVersion);
 						this.warningLoggedForMissingStatus = false;
 						return;
 					}
@@ -200,9 +418,14 @@ export class LanguageClientController implements vscode.Disposable {
 			}
 			if (!this.warningLoggedForMissingStatus) {
 				this.warningLoggedForMissingStatus = true;
-				console.info('[UdonSharp] Server status API unavailable; continuing without it.');
+				getLog().info('Server status API unavailable; continuing without it.');
 			}
 			this.statusBar.refreshFromSettings();
 		}
 	}
 }
+
+function parseMajorVersion(version: string): number | undefined {
+	const match = /^v?(\d+)\./.exec(version.trim());
+	return match ? Number(match[1]) : undefined;
+}
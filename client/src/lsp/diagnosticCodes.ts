@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+
+export const DIAGNOSTIC_SOURCE = 'UdonSharp';
+export const OPEN_RULE_DOCS_COMMAND = 'udonsharpLinter.openRuleDocs';
+
+export function getRuleId(diagnostic: vscode.Diagnostic): string | undefined {
+	if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+		return undefined;
+	}
+	const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+	return code === undefined ? undefined : String(code);
+}
+
+export function createRuleDocumentationUri(ruleId: string): vscode.Uri {
+	return vscode.Uri.parse(`command:${OPEN_RULE_DOCS_COMMAND}?${encodeURIComponent(JSON.stringify([ruleId]))}`);
+}
+
+/**
+ * Rewrites the plain rule ID the server publishes into a `{ value, target }` code
+ * so the Problems panel and diagnostic hovers link to the rule documentation.
+ */
+export function linkDiagnosticCode(diagnostic: vscode.Diagnostic): vscode.Diagnostic {
+	const ruleId = getRuleId(diagnostic);
+	if (ruleId && typeof diagnostic.code !== 'object') {
+		diagnostic.code = {
+			value: ruleId,
+			target: createRuleDocumentationUri(ruleId),
+		};
+	}
+	return diagnostic;
+}
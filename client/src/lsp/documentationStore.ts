@@ -0,0 +1,194 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SettingsManager, getSettingsFolder } from '../config/settings';
+import { RuleDocumentation } from './messages';
+import { getLog } from './log';
+
+const ACTIVE_SCOPE_KEY = 'udonsharpLinter.documentationScope';
+const SAVE_DELAY = 500;
+
+interface StoredDocumentation {
+	readonly serverVersion: string;
+	readonly policyPackHash: string;
+	readonly entries: Record<string, RuleDocumentation>;
+}
+
+/**
+ * Documentation persisted under `globalStorageUri/documentation`, one file per server
+ * version and policy pack hash. Switching either starts a fresh file, so stale docs
+ * are never shown; the last active scope is remembered for sessions without a server.
+ */
+export class DocumentationStore implements vscode.Disposable {
+	private readonly directory: vscode.Uri;
+	private scope: string | undefined;
+	private serverVersion = '';
+	private policyPackHash = '';
+	private entries = new Map<string, RuleDocumentation>();
+	private saveTimer: NodeJS.Timeout | undefined;
+
+	constructor(
+		storageUri: vscode.Uri,
+		private readonly memento: vscode.Memento,
+		private readonly settings: SettingsManager
+	) {
+		this.directory = vscode.Uri.joinPath(storageUri, 'documentation');
+	}
+
+	/** Loads the scope used by the previous session so documentation works before the server starts. */
+	public async restore(): Promise<void> {
+		const scope = this.memento.get<string>(ACTIVE_SCOPE_KEY);
+		if (scope && !this.scope) {
+			await this.load(scope);
+		}
+	}
+
+	/** Switches to the file for this server version and the current policy pack contents. */
+	public async activate(serverVersion: string): Promise<void> {
+		const policyPackHash = await hashPolicyPacks(this.settings.settings.policyPackPaths);
+		const scope = `${serverVersion.replace(/[^\w.-]/g, '_')}-${policyPackHash.substring(0, 16)}`;
+		if (scope === this.scope) {
+			return;
+		}
+
+		await this.flush();
+		this.serverVersion = serverVersion;
+		this.policyPackHash = policyPackHash;
+		await this.load(scope);
+		await this.memento.update(ACTIVE_SCOPE_KEY, scope);
+		await this.removeOtherScopes(scope);
+	}
+
+	public get(ruleId: string, locale: string): RuleDocumentation | undefined {
+		return this.entries.get(toEntryKey(ruleId, locale));
+	}
+
+	/** Locales persisted for a rule, for extending the fallback chain with same-language variants. */
+	public locales(ruleId: string): string[] {
+		const prefix = toEntryKey(ruleId, '');
+		return [...this.entries.keys()]
+			.filter(key => key.startsWith(prefix))
+			.map(key => key.substring(prefix.length));
+	}
+
+	public set(ruleId: string, locale: string, documentation: RuleDocumentation): void {
+		if (!this.scope) {
+			return;
+		}
+		this.entries.set(toEntryKey(ruleId, locale), documentation);
+		this.scheduleSave();
+	}
+
+	public async flush(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = undefined;
+			await this.save();
+		}
+	}
+
+	public dispose(): void {
+		void this.flush();
+	}
+
+	private async load(scope: string): Promise<void> {
+		this.scope = scope;
+		this.entries = new Map();
+		try {
+			const content = await vscode.workspace.fs.readFile(this.toFileUri(scope));
+			const stored = JSON.parse(Buffer.from(content).toString('utf8')) as StoredDocumentation;
+			this.serverVersion = stored.serverVersion;
+			this.policyPackHash = stored.policyPackHash;
+			this.entries = new Map(Object.entries(stored.entries ?? {}));
+		} catch {
+			// First use of this scope; the file is written on the first fetch.
+		}
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = undefined;
+			void this.save();
+		}, SAVE_DELAY);
+	}
+
+	private async save(): Promise<void> {
+		if (!this.scope) {
+			return;
+		}
+		const stored: StoredDocumentation = {
+			serverVersion: this.serverVersion,
+			policyPackHash: this.policyPackHash,
+			entries: Object.fromEntries(this.entries),
+		};
+		try {
+			await vscode.workspace.fs.createDirectory(this.directory);
+			await vscode.workspace.fs.writeFile(this.toFileUri(this.scope), Buffer.from(JSON.stringify(stored), 'utf8'));
+		} catch (error) {
+			getLog().warn(`Saving the documentation cache failed: ${String(error)}`);
+		}
+	}
+
+	private async removeOtherScopes(scope: string): Promise<void> {
+		try {
+			for (const [name] of await vscode.workspace.fs.readDirectory(this.directory)) {
+				if (name !== `${scope}.json`) {
+					await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.directory, name));
+				}
+			}
+		} catch {
+			// Nothing persisted yet.
+		}
+	}
+
+	private toFileUri(scope: string): vscode.Uri {
+		return vscode.Uri.joinPath(this.directory, `${scope}.json`);
+	}
+}
+
+/**
+ * Fallback chain for a VS Code display language: the exact locale, its language, any other
+ * available locale of that language, and finally `en-US`. A `ja` user therefore still finds
+ * `ja-JP` documentation: `ja` → `ja-JP` → `en-US`.
+ */
+export function getLocaleFallbackChain(locale: string, availableLocales: readonly string[] = []): string[] {
+	const chain: string[] = [];
+	const add = (candidate: string) => {
+		if (candidate && !chain.some(existing => existing.toLowerCase() === candidate.toLowerCase())) {
+			chain.push(candidate);
+		}
+	};
+	const language = locale.split('-')[0];
+	add(locale);
+	add(language);
+	availableLocales
+		.filter(candidate => candidate.split('-')[0].toLowerCase() === language.toLowerCase())
+		.sort((left, right) => left.localeCompare(right, 'en'))
+		.forEach(add);
+	add('en-US');
+	return chain;
+}
+
+function toEntryKey(ruleId: string, locale: string): string {
+	return `${ruleId}:${locale.toLowerCase()}`;
+}
+
+async function hashPolicyPacks(policyPackPaths: readonly string[]): Promise<string> {
+	const hash = crypto.createHash('sha256');
+	const folder = getSettingsFolder()?.uri.fsPath;
+	for (const packPath of policyPackPaths) {
+		const resolved = path.isAbsolute(packPath) || !folder ? packPath : path.join(folder, packPath);
+		hash.update(packPath).update('\0');
+		try {
+			hash.update(await fs.promises.readFile(resolved));
+		} catch {
+			hash.update('<missing>');
+		}
+		hash.update('\0');
+	}
+	return hash.digest('hex');
+}
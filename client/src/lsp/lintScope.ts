@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { Minimatch } from 'minimatch';
+import { DidCloseTextDocumentNotification, DidOpenTextDocumentNotification, LanguageClient, Middleware } from 'vscode-languageclient/node';
+import { LinterSettings, SettingsManager } from '../config/settings';
+import { getLog } from './log';
+
+// Mirrors the server's check in UdonSharpTextDocumentSyncHandler so both sides agree on what a behaviour is.
+const UDONSHARP_BEHAVIOUR_DECLARATION = /\bclass\s+\w+\s*:\s*UdonSharpBehaviour\b/;
+
+/**
+ * Which C# files are linted: `udonsharpLinter.include` minus `udonsharpLinter.exclude`,
+ * matched against the path relative to its workspace folder, and optionally only files
+ * that declare an `UdonSharpBehaviour` subclass.
+ */
+export class LintScope implements vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<void>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private include: Minimatch[] = [];
+	private exclude: Minimatch[] = [];
+	private behavioursOnly = false;
+	private signature = '';
+
+	public readonly onDidChange = this.emitter.event;
+
+	constructor(settings: SettingsManager) {
+		this.update(settings.settings);
+		this.disposables.push(
+			this.emitter,
+			settings.onDidChange(next => {
+				if (this.update(next)) {
+					this.emitter.fire();
+				}
+			}),
+		);
+	}
+
+	/** Applies the globs only; the behaviour check needs the file content. */
+	public includesUri(uri: vscode.Uri): boolean {
+		// Untitled files have no path to match until they are saved.
+		if (uri.scheme === 'untitled') {
+			return true;
+		}
+		const relativePath = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+		return this.include.some(glob => glob.match(relativePath))
+			&& !this.exclude.some(glob => glob.match(relativePath));
+	}
+
+	public includesDocument(document: vscode.TextDocument): boolean {
+		return this.includesUri(document.uri)
+			&& (!this.behavioursOnly || declaresUdonSharpBehaviour(document.getText()));
+	}
+
+	/** Like `includesDocument`, for files that may not be open; reads them from disk when needed. */
+	public async includesFile(uri: vscode.Uri): Promise<boolean> {
+		if (!this.includesUri(uri)) {
+			return false;
+		}
+		if (!this.behavioursOnly) {
+			return true;
+		}
+		const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+		if (open) {
+			return declaresUdonSharpBehaviour(open.getText());
+		}
+		try {
+			return declaresUdonSharpBehaviour(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+		} catch {
+			return false;
+		}
+	}
+
+	public dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private update(settings: LinterSettings): boolean {
+		const signature = JSON.stringify([settings.include, settings.exclude, settings.udonSharpBehavioursOnly]);
+		if (signature === this.signature) {
+			return false;
+		}
+		this.signature = signature;
+		this.include = settings.include.map(createGlob);
+		this.exclude = settings.exclude.map(createGlob);
+		this.behavioursOnly = settings.udonSharpBehavioursOnly;
+		return true;
+	}
+}
+
+/**
+ * Text synchronization middleware for one language client. Out-of-scope documents are
+ * never opened on the server; documents that enter or leave the scope while open (a
+ * settings change, or an edit that adds or removes the base class) are opened or
+ * closed by hand, and closing them clears their diagnostics.
+ */
+export class ScopedDocumentSync implements vscode.Disposable {
+	// Documents the server currently has open, independent of the client's own bookkeeping.
+	private readonly synced = new Set<string>();
+	private readonly scopeListener: vscode.Disposable;
+	private client: LanguageClient | undefined;
+
+	constructor(private readonly scope: LintScope) {
+		this.scopeListener = scope.onDidChange(() => void this.reconcile());
+	}
+
+	public attach(client: LanguageClient): void {
+		this.client = client;
+	}
+
+	public createMiddleware(): Middleware {
+		return {
+			didOpen: (document, next) => {
+				if (!this.scope.includesDocument(document)) {
+					return Promise.resolve();
+				}
+				this.synced.add(document.uri.toString());
+				return next(document);
+			},
+			didChange: (event, next) => {
+				const isSynced = this.synced.has(event.document.uri.toString());
+				const inScope = this.scope.includesDocument(event.document);
+				if (isSynced && inScope) {
+					return next(event);
+				}
+				if (isSynced) {
+					return this.close(event.document);
+				}
+				return inScope ? this.open(event.document) : Promise.resolve();
+			},
+			willSave: (event, next) => this.synced.has(event.document.uri.toString()) ? next(event) : Promise.resolve(),
+			didSave: (document, next) => this.synced.has(document.uri.toString()) ? next(document) : Promise.resolve(),
+			didClose: (document, next) => this.synced.delete(document.uri.toString()) ? next(document) : Promise.resolve(),
+			workspace: {
+				didChangeWatchedFile: (event, next) => this.scope.includesUri(vscode.Uri.parse(event.uri)) ? next(event) : Promise.resolve(),
+			},
+		};
+	}
+
+	public dispose(): void {
+		this.scopeListener.dispose();
+		this.synced.clear();
+		this.client = undefined;
+	}
+
+	private async reconcile(): Promise<void> {
+		if (!this.client?.isRunning()) {
+			return;
+		}
+		for (const document of vscode.workspace.textDocuments) {
+			if (document.languageId !== 'csharp' || (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled')) {
+				continue;
+			}
+			const isSynced = this.synced.has(document.uri.toString());
+			const inScope = this.scope.includesDocument(document);
+			if (inScope && !isSynced) {
+				await this.open(document);
+			} else if (!inScope && isSynced) {
+				await this.close(document);
+			}
+		}
+	}
+
+	private async open(document: vscode.TextDocument): Promise<void> {
+		const client = this.client;
+		if (!client) {
+			return;
+		}
+		this.synced.add(document.uri.toString());
+		try {
+			await client.sendNotification(DidOpenTextDocumentNotification.type, client.code2ProtocolConverter.asOpenTextDocumentParams(document));
+		} catch (error) {
+			getLog().error('Opening a document that entered the lint scope failed:', error);
+		}
+	}
+
+	// The server answers a close with empty diagnostics, which clears the Problems entries.
+	private async close(document: vscode.TextDocument): Promise<void> {
+		const client = this.client;
+		if (!client) {
+			return;
+		}
+		this.synced.delete(document.uri.toString());
+		try {
+			await client.sendNotification(DidCloseTextDocumentNotification.type, client.code2ProtocolConverter.asCloseTextDocumentParams(document));
+		} catch (error) {
+			getLog().error('Closing a document that left the lint scope failed:', error);
+		}
+	}
+}
+
+/** Whether `text` declares a class deriving directly from `UdonSharpBehaviour`. */
+export function declaresUdonSharpBehaviour(text: string): boolean {
+	return UDONSHARP_BEHAVIOUR_DECLARATION.test(text);
+}
+
+/** Glob dialect shared by the lint scope and `udonsharpLinter.overrides`. */
+export function createGlob(pattern: string): Minimatch {
+	return new Minimatch(pattern.trim(), { dot: true, windowsPathsNoEscape: true });
+}
@@ -0,0 +1,12 @@
+import * as vscode from 'vscode';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+/**
+ * The "UdonSharp Linter" output channel. The language client writes its own messages
+ * and the `udonsharpLinter.trace.server` protocol trace here too.
+ */
+export function getLog(): vscode.LogOutputChannel {
+	channel ??= vscode.window.createOutputChannel(vscode.l10n.t('UdonSharp Linter'), { log: true });
+	return channel;
+}
@@ -1,14 +1,18 @@
-import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageclient/node';
 
 export interface RuleDescriptor {
 	readonly id: string;
 	readonly title: string;
 	readonly category: string;
+	/** Severity under the active profile, before `udonsharpLinter.rules` overrides. */
 	readonly defaultSeverity: DiagnosticSeverity;
 	readonly description: string;
 	readonly helpLink: string | null;
 	readonly hasCodeFix: boolean;
+	/** Per-profile severities from the policy packs, likewise without overrides. */
 	readonly profileSeverity?: Record<string, DiagnosticSeverity>;
+	/** Severity for profiles missing from `profileSeverity`; absent on older servers. */
+	readonly baseSeverity?: DiagnosticSeverity;
 }
 
 export interface RuleDocumentation {
@@ -16,6 +20,11 @@ export interface RuleDocumentation {
 	readonly locale: string;
 	readonly title: string;
 	readonly markdown: string;
+	/**
+	 * False when the server has no documentation for the rule in any fallback locale.
+	 * Absent on older servers, whose answers are always documentation.
+	 */
+	readonly found?: boolean;
 }
 
 export interface ServerStatusPayload {
@@ -25,9 +34,94 @@ export interface ServerStatusPayload {
 	readonly serverVersion: string;
 }
 
+export interface AnalyzeWorkspaceFilesParams {
+	readonly uris: string[];
+}
+
+export interface WorkspaceFileDiagnostics {
+	readonly uri: string;
+	readonly diagnostics: Diagnostic[];
+}
+
+export interface AnalyzeWorkspaceFilesResponse {
+	readonly files: WorkspaceFileDiagnostics[];
+}
+
+export interface ReloadRulesResponse {
+	readonly ruleCount: number;
+}
+
+export interface RulesDidChangeParams {
+	readonly reason: string;
+	readonly ruleCount: number;
+}
+
+export interface NetworkBehavioursParams {
+	readonly uris: string[];
+}
+
+export interface SymbolLocation {
+	readonly uri: string;
+	readonly range: Range;
+}
+
+export interface SyncedFieldModel {
+	readonly name: string;
+	readonly type: string;
+	/** `UdonSyncMode` member name; absent when the attribute does not set one. */
+	readonly syncMode: string | null;
+	readonly location: SymbolLocation;
+}
+
+export interface NetworkMethodModel {
+	readonly name: string;
+	readonly parameterTypes: string[];
+	readonly hasNetworkCallableAttribute: boolean;
+	readonly location: SymbolLocation;
+}
+
+export interface EventTargetModel {
+	readonly behaviour: string;
+	readonly method: string;
+	readonly location: SymbolLocation;
+}
+
+export interface EventCallModel {
+	readonly method: string;
+	readonly isNetworkEvent: boolean;
+	readonly eventName: string;
+	/** `NetworkEventTarget` member for network events, e.g. `All` or `Owner`. */
+	readonly networkTarget: string | null;
+	readonly location: SymbolLocation;
+	/** Absent when the event name or the receiving behaviour could not be resolved. */
+	readonly target: EventTargetModel | null;
+}
+
+export interface NetworkBehaviourModel {
+	readonly name: string;
+	readonly fullName: string;
+	readonly location: SymbolLocation;
+	/** `BehaviourSyncMode` member name; absent when the class has no `[UdonBehaviourSyncMode]`. */
+	readonly syncMode: string | null;
+	readonly syncedFields: SyncedFieldModel[];
+	readonly networkMethods: NetworkMethodModel[];
+	readonly eventCalls: EventCallModel[];
+}
+
+export interface NetworkBehavioursResponse {
+	readonly behaviours: NetworkBehaviourModel[];
+}
+
 export namespace Requests {
 	export const listRules = 'udonsharp/rules/list';
 	export const loadRuleDocumentation = 'udonsharp/rules/documentation';
 	export const serverStatus = 'udonsharp/server/status';
 	export const serverStatusCompat = 'udonsharp/status';
+	export const analyzeWorkspaceFiles = 'udonsharp/workspace/analyzeFiles';
+	export const reloadRules = 'udonsharp/rules/reload';
+	export const networkBehaviours = 'udonsharp/network/behaviours';
+}
+
+export namespace Notifications {
+	export const rulesDidChange = 'udonsharp/rules/didChange';
 }
@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { LintScope } from './lintScope';
+import { NetworkBehaviourModel, NetworkBehavioursParams, NetworkBehavioursResponse, Requests } from './messages';
+
+/**
+ * Asks the server for the networking model of every behaviour in the lint scope. All files
+ * go in one request: the server only resolves event targets between files it holds at once.
+ */
+export async function loadNetworkModel(
+	client: LanguageClient,
+	lintScope: LintScope,
+	token: vscode.CancellationToken
+): Promise<NetworkBehaviourModel[]> {
+	const uris: string[] = [];
+	for (const uri of await vscode.workspace.findFiles('**/*.cs', undefined, undefined, token)) {
+		if (await lintScope.includesFile(uri)) {
+			uris.push(uri.toString());
+		}
+	}
+	if (uris.length === 0 || token.isCancellationRequested) {
+		return [];
+	}
+
+	const params: NetworkBehavioursParams = { uris };
+	const response = await client.sendRequest<NetworkBehavioursResponse>(Requests.networkBehaviours, params, token);
+	return response?.behaviours ?? [];
+}
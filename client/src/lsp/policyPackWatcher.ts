@@ -0,0 +1,73 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+
+const RELOAD_DELAY = 300;
+
+/**
+ * Watches every file listed in `policyPackPaths` and reports edits, so the server can
+ * reload the packs without a restart. Saves often arrive as several events; they are
+ * coalesced into one reload.
+ */
+export class PolicyPackWatcher implements vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<void>();
+	private readonly settingsListener: vscode.Disposable;
+	private watchers: vscode.Disposable[] = [];
+	private watchedPaths = '';
+	private reloadTimer: NodeJS.Timeout | undefined;
+
+	public readonly onDidChangePolicyPack = this.emitter.event;
+
+	constructor(private readonly settings: SettingsManager) {
+		this.settingsListener = settings.onDidChange(() => this.update());
+		this.update();
+	}
+
+	public dispose(): void {
+		if (this.reloadTimer) {
+			clearTimeout(this.reloadTimer);
+		}
+		this.settingsListener.dispose();
+		this.disposeWatchers();
+		this.emitter.dispose();
+	}
+
+	private update(): void {
+		const paths = this.settings.settings.policyPackPaths.filter(entry => path.isAbsolute(entry));
+		const signature = paths.join('\n');
+		if (signature === this.watchedPaths) {
+			return;
+		}
+		this.watchedPaths = signature;
+		this.disposeWatchers();
+
+		for (const packPath of paths) {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(vscode.Uri.file(path.dirname(packPath)), path.basename(packPath))
+			);
+			this.watchers.push(
+				watcher,
+				watcher.onDidCreate(() => this.scheduleReload()),
+				watcher.onDidChange(() => this.scheduleReload()),
+				watcher.onDidDelete(() => this.scheduleReload()),
+			);
+		}
+	}
+
+	private scheduleReload(): void {
+		if (this.reloadTimer) {
+			clearTimeout(this.reloadTimer);
+		}
+		this.reloadTimer = setTimeout(() => {
+			this.reloadTimer = undefined;
+			this.emitter.fire();
+		}, RELOAD_DELAY);
+	}
+
+	private disposeWatchers(): void {
+		for (const watcher of this.watchers) {
+			watcher.dispose();
+		}
+		this.watchers = [];
+	}
+}
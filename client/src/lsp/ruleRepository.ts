@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { LanguageClient } from 'vscode-languageclient/node';
-import { Requests, RuleDescriptor, RuleDocumentation } from './messages';
+import { Notifications, Requests, RuleDescriptor, RuleDocumentation, RulesDidChangeParams } from './messages';
+import { getLog } from './log';
+import { DocumentationStore, getLocaleFallbackChain } from './documentationStore';
 
 export class RuleRepository implements vscode.Disposable {
 	private client: LanguageClient | undefined;
@@ -8,12 +10,29 @@ export class RuleRepository implements vscode.Disposable {
 	private readonly documentationCache = new Map<string, RuleDocumentation>();
 	private cachedRules: RuleDescriptor[] = [];
 	private metadataWarningLogged = false;
+	private serverVersion: string | undefined;
 
 	public readonly onDidChangeRules = this.ruleEmitter.event;
 
+	constructor(private readonly documentationStore: DocumentationStore) {}
+
 	public attachClient(client: LanguageClient): void {
 		this.client = client;
-		// No push notifications yet; listeners request status explicitly.
+		// The server pushes this whenever it rebuilds the catalogue (settings or policy pack changes).
+		client.onNotification(Notifications.rulesDidChange, (params: RulesDidChangeParams) => {
+			getLog().info(`Rule catalogue changed (${params.reason}, ${params.ruleCount} rules).`);
+			this.clearCache();
+			void this.refresh();
+			// Policy pack edits change the persisted documentation scope as well.
+			if (this.serverVersion) {
+				void this.documentationStore.activate(this.serverVersion);
+			}
+		});
+	}
+
+	public async setServerVersion(serverVersion: string): Promise<void> {
+		this.serverVersion = serverVersion;
+		await this.documentationStore.activate(serverVersion);
 	}
 
 	public async initialise(): Promise<void> {
@@ -42,10 +61,11 @@ export class RuleRepository implements vscode.Disposable {
 			if (methodNotFound) {
 				if (!this.metadataWarningLogged) {
 					this.metadataWarningLogged = true;
-					console.info('[UdonSharp] Rule metadata endpoint unavailable; continuing without rule catalog.');
+					getLog().info('Rule metadata endpoint unavailable; continuing without rule catalog.');
 				}
 				return;
 			}
+			getLog().error('Loading rule metadata failed:', error);
 			await vscode.window.showErrorMessage(
 				vscode.l10n.t('UdonSharp Linter could not load rule metadata. {0}', String(error))
 			);
@@ -56,26 +76,57 @@ export class RuleRepository implements vscode.Disposable {
 		return this.cachedRules;
 	}
 
-	public async getDocumentation(ruleId: string, locale: string): Promise<RuleDocumentation | undefined> {
-		const cacheKey = `${ruleId}:${locale}`;
+	/**
+	 * Asks the running server, which walks the fallback chain itself, and persists the
+	 * answer. Without a server the persisted documentation is searched along the same chain.
+	 */
+	public async getDocumentation(ruleId: string, locale = vscode.env.language): Promise<RuleDocumentation | undefined> {
+		const chain = getLocaleFallbackChain(locale);
+		const cacheKey = `${ruleId}:${chain[0]}`;
 		if (this.documentationCache.has(cacheKey)) {
 			return this.documentationCache.get(cacheKey);
 		}
-		if (!this.client) {
-			return undefined;
+		if (!this.client?.isRunning()) {
+			return this.findStoredDocumentation(ruleId, chain[0]);
 		}
 		try {
-			const doc = await this.client.sendRequest<RuleDocumentation>(Requests.loadRuleDocumentation, { ruleId, locale });
+			const doc = await this.requestDocumentation(ruleId, chain[0]);
 			if (doc) {
 				this.documentationCache.set(cacheKey, doc);
 			}
 			return doc;
 		} catch (error) {
+			getLog().error(`Loading documentation for ${ruleId} (${chain[0]}) failed:`, error);
+			const stored = this.findStoredDocumentation(ruleId, chain[0]);
+			if (stored) {
+				return stored;
+			}
 			await vscode.window.showErrorMessage(vscode.l10n.t('UdonSharp Linter could not load documentation. {0}', String(error)));
 			return undefined;
 		}
 	}
 
+	/** Persists documentation for every rule in the display language; returns how many were downloaded. */
+	public async prefetchDocumentation(
+		progress: vscode.Progress<{ message?: string; increment?: number }>,
+		token: vscode.CancellationToken
+	): Promise<number> {
+		const locale = getLocaleFallbackChain(vscode.env.language)[0];
+		await this.documentationStore.activate(this.serverVersion ?? 'unknown');
+		let fetched = 0;
+		for (const rule of this.cachedRules) {
+			if (token.isCancellationRequested) {
+				break;
+			}
+			progress.report({ message: rule.id, increment: 100 / this.cachedRules.length });
+			if (!this.documentationStore.get(rule.id, locale) && await this.requestDocumentation(rule.id, locale)) {
+				fetched++;
+			}
+		}
+		await this.documentationStore.flush();
+		return fetched;
+	}
+
 	public clearCache(): void {
 		this.documentationCache.clear();
 	}
@@ -84,4 +135,37 @@ export class RuleRepository implements vscode.Disposable {
 		this.ruleEmitter.dispose();
 		this.documentationCache.clear();
 	}
+
+	private async requestDocumentation(ruleId: string, locale: string): Promise<RuleDocumentation | undefined> {
+		if (!this.client) {
+			return undefined;
+		}
+		const doc = await this.client.sendRequest<RuleDocumentation | null>(Requests.loadRuleDocumentation, { ruleId, locale });
+		// A miss is neither cached nor persisted: callers fall back to the help link, and a
+		// reloaded policy pack may still add the page.
+		if (!isDocumentationFound(doc)) {
+			return undefined;
+		}
+		this.documentationStore.set(ruleId, locale, doc);
+		// The server reports the locale it actually used, which also answers lookups for that locale.
+		if (doc.locale && doc.locale.toLowerCase() !== locale.toLowerCase()) {
+			this.documentationStore.set(ruleId, doc.locale, doc);
+		}
+		return doc;
+	}
+
+	private findStoredDocumentation(ruleId: string, locale: string): RuleDocumentation | undefined {
+		for (const candidate of getLocaleFallbackChain(locale, this.documentationStore.locales(ruleId))) {
+			const stored = this.documentationStore.get(ruleId, candidate);
+			if (stored) {
+				return stored;
+			}
+		}
+		return undefined;
+	}
+}
+
+/** Whether a `loadRuleDocumentation` answer holds documentation; only an explicit `found: false` is a miss. */
+export function isDocumentationFound(doc: RuleDocumentation | null | undefined): doc is RuleDocumentation {
+	return !!doc && doc.found !== false;
 }
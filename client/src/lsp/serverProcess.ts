@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Kept free of the `vscode` module so the headless CLI can spawn the server too.
+
+export interface ServerCommand {
+	command: string;
+	args: string[];
+	options: {
+		env: NodeJS.ProcessEnv;
+	};
+}
+
+const SERVER_ENV_PREFIX = 'udonsharpLinter';
+
+// Written by the server next to its executable (see Program.cs and FileLoggerProvider).
+export const SERVER_LOG_FILE_NAMES = ['server.log', 'boot.log', 'fatal.log'] as const;
+
+/** Launch choices from `udonsharpLinter.server.*`; the CLI leaves them unset. */
+export interface ServerLaunchOptions {
+	/** Explicit server executable; wins over UDONSHARP_LINTER_SERVER_PATH. */
+	serverPath?: string;
+	/** Runs the server from source with `dotnet run` instead of a published binary. */
+	developmentMode?: boolean;
+}
+
+export const SERVER_PROJECT_PATH = path.join('server', 'UdonSharpLsp.Server.csproj');
+
+// `dotnet run` builds into the default Debug output, which is also where the server writes its logs.
+const DEVELOPMENT_OUTPUT_PATH = path.join('server', 'bin', 'Debug', 'net8.0');
+
+export async function resolveServerCommand(
+	extensionPath: string,
+	launch: ServerLaunchOptions,
+	telemetry: 'off' | 'minimal'
+): Promise<ServerCommand> {
+	const env = createServerEnvironment(telemetry);
+
+	if (launch.developmentMode) {
+		const projectPath = path.join(extensionPath, SERVER_PROJECT_PATH);
+		if (!fs.existsSync(projectPath)) {
+			throw new Error(
+				`Development mode needs the server project at ${projectPath}. `
+				+ 'It is only available when the extension runs from a source checkout.'
+			);
+		}
+		// Quiet build output and no first-run banner: anything else on stdout corrupts the LSP stream.
+		env.DOTNET_NOLOGO = '1';
+		return {
+			command: 'dotnet',
+			args: ['run', '--project', projectPath, '--verbosity', 'quiet', '--', '--lsp'],
+			options: { env },
+		};
+	}
+
+	const override = resolveServerPathOverride(launch);
+	if (override) {
+		await ensureExecutable(override.path, `${override.source} points to ${override.path}, but no server executable exists there.`);
+		return {
+			command: override.path,
+			args: ['--lsp'],
+			options: { env },
+		};
+	}
+
+	const rid = detectPlatform();
+	const executableRelative = path.join('resources', 'server', rid, detectExecutableName());
+	const executablePath = path.join(extensionPath, executableRelative);
+	await ensureExecutable(
+		executablePath,
+		`The UdonSharp Linter server for ${rid} is missing; expected ${executableRelative} in ${extensionPath}. `
+		+ `Run build_and_publish.sh (or build_and_publish.ps1) with DOTNET_RIDS="${rid}", or set udonsharpLinter.server.path.`
+	);
+	return {
+		command: executablePath,
+		args: ['--lsp'],
+		options: { env },
+	};
+}
+
+export function resolveServerLogDirectory(extensionPath: string, launch: ServerLaunchOptions): string {
+	if (launch.developmentMode) {
+		return path.join(extensionPath, DEVELOPMENT_OUTPUT_PATH, 'logs');
+	}
+	const override = resolveServerPathOverride(launch);
+	const serverDirectory = override
+		? path.dirname(override.path)
+		: path.join(extensionPath, 'resources', 'server', detectPlatform());
+	return path.join(serverDirectory, 'logs');
+}
+
+function resolveServerPathOverride(launch: ServerLaunchOptions): { path: string; source: string } | undefined {
+	if (launch.serverPath && launch.serverPath.length > 0) {
+		return { path: launch.serverPath, source: 'udonsharpLinter.server.path' };
+	}
+	const environmentPath = process.env.UDONSHARP_LINTER_SERVER_PATH;
+	if (environmentPath && environmentPath.length > 0) {
+		return { path: environmentPath, source: 'UDONSHARP_LINTER_SERVER_PATH' };
+	}
+	return undefined;
+}
+
+export function detectPlatform(): string {
+	const arch = process.arch;
+	switch (process.platform) {
+	case 'win32':
+		if (arch === 'arm64') {
+			return 'win-arm64';
+		}
+		return 'win-x64';
+	case 'darwin':
+		if (arch === 'arm64') {
+			return 'osx-arm64';
+		}
+		return 'osx-x64';
+	case 'linux':
+	default:
+		if (arch === 'arm64') {
+			return 'linux-arm64';
+		}
+		return 'linux-x64';
+	}
+}
+
+export function detectExecutableName(): string {
+	return process.platform === 'win32' ? 'udonsharp-lsp.exe' : 'udonsharp-lsp';
+}
+
+export async function ensureExecutable(executablePath: string, missingMessage: string): Promise<void> {
+	try {
+		await fs.promises.access(executablePath, fs.constants.F_OK);
+	} catch {
+		throw new Error(missingMessage);
+	}
+	if (process.platform !== 'win32') {
+		await fs.promises.chmod(executablePath, 0o755);
+	}
+}
+
+// `telemetry` is the level already resolved against VS Code's own telemetry setting;
+// UDONSHARP_LINTER_TELEMETRY=0 still force-disables it for the server.
+export function createServerEnvironment(telemetry: 'off' | 'minimal'): NodeJS.ProcessEnv {
+	const env: NodeJS.ProcessEnv = { ...process.env };
+	const disabled = telemetry === 'off' || process.env.UDONSHARP_LINTER_TELEMETRY === '0';
+	env[`${SERVER_ENV_PREFIX.toUpperCase()}_TELEMETRY`] = disabled ? '0' : '1';
+	return env;
+}
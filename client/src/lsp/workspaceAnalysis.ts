@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { LintScope } from './lintScope';
+import { AnalyzeWorkspaceFilesParams, AnalyzeWorkspaceFilesResponse, Requests, WorkspaceFileDiagnostics } from './messages';
+
+const ANALYSIS_BATCH_SIZE = 25;
+
+export interface WorkspaceAnalysisResult {
+	readonly files: WorkspaceFileDiagnostics[];
+	readonly analyzedFileCount: number;
+	readonly totalFileCount: number;
+	readonly cancelled: boolean;
+}
+
+/**
+ * Sends every C# file in the lint scope to the server in batches so progress can be
+ * reported and the run can be cancelled between batches.
+ */
+export async function analyzeWorkspace(client: LanguageClient, lintScope: LintScope): Promise<WorkspaceAnalysisResult> {
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: vscode.l10n.t('UdonSharp Linter'),
+			cancellable: true,
+		},
+		async (progress, token) => {
+			progress.report({ message: vscode.l10n.t('Collecting C# files...') });
+			const uris: vscode.Uri[] = [];
+			for (const uri of await vscode.workspace.findFiles('**/*.cs', undefined, undefined, token)) {
+				if (await lintScope.includesFile(uri)) {
+					uris.push(uri);
+				}
+			}
+			const files: WorkspaceFileDiagnostics[] = [];
+			let analyzedFileCount = 0;
+
+			for (let index = 0; index < uris.length; index += ANALYSIS_BATCH_SIZE) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+
+				const batch = uris.slice(index, index + ANALYSIS_BATCH_SIZE);
+				progress.report({
+					message: vscode.l10n.t('Analyzing {0} of {1} files...', analyzedFileCount, uris.length),
+				});
+
+				const params: AnalyzeWorkspaceFilesParams = { uris: batch.map(uri => uri.toString()) };
+				try {
+					const response = await client.sendRequest<AnalyzeWorkspaceFilesResponse>(Requests.analyzeWorkspaceFiles, params, token);
+					files.push(...(response?.files ?? []));
+				} catch (error) {
+					if (token.isCancellationRequested) {
+						break;
+					}
+					throw error;
+				}
+
+				analyzedFileCount += batch.length;
+				progress.report({ increment: (batch.length / uris.length) * 100 });
+			}
+
+			return {
+				files,
+				analyzedFileCount,
+				totalFileCount: uris.length,
+				cancelled: token.isCancellationRequested,
+			};
+		}
+	);
+}
@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { LinterSettings, SettingsManager } from '../config/settings';
+import { getRuleId } from '../lsp/diagnosticCodes';
+import { getLog } from '../lsp/log';
+
+export type TelemetryLevel = LinterSettings['telemetry'];
+
+/** One line of `telemetry.jsonl`. Only counters keyed by rule ID or request method; no paths or code. */
+export interface TelemetryRecord {
+	readonly periodStart: string;
+	readonly periodEnd: string;
+	readonly extensionVersion: string;
+	readonly ruleHits: Record<string, number>;
+	readonly serverRestarts: number;
+	readonly requestFailures: Record<string, number>;
+}
+
+const FLUSH_INTERVAL = 15 * 60 * 1000;
+// Keeps the sink bounded; roughly a week of active use at one record per interval.
+const MAX_RECORDS = 500;
+
+/**
+ * Collects anonymized usage counters while both `udonsharpLinter.telemetry` and VS Code's
+ * own telemetry setting allow it. Records are appended to a local JSONL file; nothing
+ * leaves the machine, and "Show Collected Telemetry" displays the file as is.
+ */
+export class TelemetryReporter implements vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<TelemetryLevel>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private readonly sinkUri: vscode.Uri;
+	private readonly flushInterval: NodeJS.Timeout;
+	// Last published per-rule counts by document, so republishing the same findings is not counted again.
+	private readonly publishedCounts = new Map<string, Map<string, number>>();
+	private currentLevel: TelemetryLevel;
+	private periodStart = new Date();
+	private ruleHits = new Map<string, number>();
+	private requestFailures = new Map<string, number>();
+	private serverRestarts = 0;
+
+	public readonly onDidChangeLevel = this.emitter.event;
+
+	constructor(private readonly context: vscode.ExtensionContext, private readonly settings: SettingsManager) {
+		this.sinkUri = vscode.Uri.joinPath(context.globalStorageUri, 'telemetry.jsonl');
+		this.currentLevel = this.resolveLevel();
+		this.flushInterval = setInterval(() => void this.flush(), FLUSH_INTERVAL);
+		this.disposables.push(
+			this.emitter,
+			settings.onDidChange(() => this.updateLevel()),
+			vscode.env.onDidChangeTelemetryEnabled(() => this.updateLevel()),
+			vscode.workspace.onDidCloseTextDocument(document => this.publishedCounts.delete(document.uri.toString())),
+		);
+	}
+
+	/** `minimal` only when the extension setting and VS Code's telemetry setting both allow it. */
+	public get level(): TelemetryLevel {
+		return this.currentLevel;
+	}
+
+	public recordDiagnostics(uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[]): void {
+		if (this.currentLevel === 'off') {
+			return;
+		}
+		const { counts, added } = countRuleHits(diagnostics, this.publishedCounts.get(uri.toString()));
+		for (const [ruleId, count] of added) {
+			increment(this.ruleHits, ruleId, count);
+		}
+		this.publishedCounts.set(uri.toString(), counts);
+	}
+
+	public recordServerRestart(): void {
+		if (this.currentLevel !== 'off') {
+			this.serverRestarts += 1;
+		}
+	}
+
+	public recordRequestFailure(method: string): void {
+		if (this.currentLevel !== 'off') {
+			increment(this.requestFailures, method, 1);
+		}
+	}
+
+	public async showCollected(): Promise<void> {
+		await this.flush();
+		const content = await this.readSink();
+		if (content.trim().length === 0) {
+			await vscode.window.showInformationMessage(
+				this.currentLevel === 'off'
+					? vscode.l10n.t('UdonSharp Linter telemetry is off, and nothing has been collected.')
+					: vscode.l10n.t('No UdonSharp Linter telemetry has been collected yet.')
+			);
+			return;
+		}
+		const document = await vscode.workspace.openTextDocument({ language: 'jsonl', content });
+		await vscode.window.showTextDocument(document, { preview: true });
+	}
+
+	public dispose(): void {
+		clearInterval(this.flushInterval);
+		void this.flush();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private resolveLevel(): TelemetryLevel {
+		return vscode.env.isTelemetryEnabled ? this.settings.settings.telemetry : 'off';
+	}
+
+	private updateLevel(): void {
+		const level = this.resolveLevel();
+		if (level === this.currentLevel) {
+			return;
+		}
+		this.currentLevel = level;
+		if (level === 'off') {
+			// Opting out also drops what was counted but not yet written.
+			this.resetCounters();
+			this.publishedCounts.clear();
+		}
+		this.emitter.fire(level);
+	}
+
+	private async flush(): Promise<void> {
+		if (this.ruleHits.size === 0 && this.requestFailures.size === 0 && this.serverRestarts === 0) {
+			return;
+		}
+		const record: TelemetryRecord = {
+			periodStart: this.periodStart.toISOString(),
+			periodEnd: new Date().toISOString(),
+			extensionVersion: String(this.context.extension.packageJSON.version ?? '0.0.0'),
+			ruleHits: Object.fromEntries([...this.ruleHits].sort(([left], [right]) => left.localeCompare(right, 'en'))),
+			serverRestarts: this.serverRestarts,
+			requestFailures: Object.fromEntries(this.requestFailures),
+		};
+		this.resetCounters();
+
+		try {
+			const lines = (await this.readSink()).split('\n').filter(line => line.length > 0);
+			lines.push(JSON.stringify(record));
+			await vscode.workspace.fs.createDirectory(this.context.globalStorageUri);
+			await vscode.workspace.fs.writeFile(this.sinkUri, Buffer.from(`${lines.slice(-MAX_RECORDS).join('\n')}\n`, 'utf8'));
+		} catch (error) {
+			getLog().warn(`Writing telemetry failed: ${String(error)}`);
+		}
+	}
+
+	private async readSink(): Promise<string> {
+		try {
+			return Buffer.from(await vscode.workspace.fs.readFile(this.sinkUri)).toString('utf8');
+		} catch {
+			return '';
+		}
+	}
+
+	private resetCounters(): void {
+		this.periodStart = new Date();
+		this.ruleHits = new Map();
+		this.requestFailures = new Map();
+		this.serverRestarts = 0;
+	}
+}
+
+/**
+ * Per-rule counts in one publish for a document, and the hits it adds over `previous`, the
+ * counts of the last publish for that document. Fixed findings do not make the hits negative.
+ */
+export function countRuleHits(
+	diagnostics: readonly vscode.Diagnostic[],
+	previous?: ReadonlyMap<string, number>
+): { counts: Map<string, number>; added: Map<string, number> } {
+	const counts = new Map<string, number>();
+	for (const diagnostic of diagnostics) {
+		const ruleId = getRuleId(diagnostic);
+		if (ruleId) {
+			increment(counts, ruleId, 1);
+		}
+	}
+	const added = new Map<string, number>();
+	for (const [ruleId, count] of counts) {
+		const difference = count - (previous?.get(ruleId) ?? 0);
+		if (difference > 0) {
+			added.set(ruleId, difference);
+		}
+	}
+	return { counts, added };
+}
+
+function increment(counters: Map<string, number>, key: string, amount: number): void {
+	counters.set(key, (counters.get(key) ?? 0) + amount);
+}
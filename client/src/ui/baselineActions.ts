@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { BASELINE_FILE_NAME, BaselineManager } from '../lsp/baseline';
+
+export const REMOVE_STALE_BASELINE_COMMAND = 'udonsharpLinter.baseline.removeStale';
+export const BASELINE_DOCUMENT_SELECTOR: vscode.DocumentSelector = { pattern: `**/${BASELINE_FILE_NAME}` };
+
+export class BaselineCodeActionProvider implements vscode.CodeActionProvider {
+	public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	constructor(private readonly baseline: BaselineManager) {}
+
+	public async provideCodeActions(): Promise<vscode.CodeAction[]> {
+		const stale = await this.baseline.findStaleEntries();
+		if (stale.length === 0) {
+			return [];
+		}
+
+		const action = new vscode.CodeAction(
+			vscode.l10n.t('Remove {0} stale UdonSharp baseline entries', stale.length),
+			vscode.CodeActionKind.QuickFix
+		);
+		action.command = {
+			command: REMOVE_STALE_BASELINE_COMMAND,
+			title: action.title,
+		};
+		return [action];
+	}
+}
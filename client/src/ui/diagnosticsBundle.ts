@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as vscode from 'vscode';
+import { SettingsManager, readServerLaunchOptions } from '../config/settings';
+import { LanguageClientController } from '../lsp/clientController';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { SERVER_LOG_FILE_NAMES, detectPlatform, resolveServerLogDirectory } from '../lsp/serverProcess';
+import { readTail } from './serverLog';
+
+export interface BundleEntry {
+	readonly name: string;
+	readonly data: Buffer;
+}
+
+// Keeps a bundle small enough to attach to an issue even after days of logging.
+const MAX_LOG_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Drives "Collect Diagnostics Bundle": a zip with the server and client logs, the
+ * effective settings and the last known server status for bug reports.
+ */
+export async function collectDiagnosticsBundle(
+	context: vscode.ExtensionContext,
+	settings: SettingsManager,
+	ruleRepository: RuleRepository,
+	controller: LanguageClientController | undefined
+): Promise<void> {
+	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const fileName = `udonsharp-linter-diagnostics-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`;
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, fileName) : undefined,
+		filters: { [vscode.l10n.t('Zip archive')]: ['zip'] },
+		title: vscode.l10n.t('Save UdonSharp Linter Diagnostics Bundle'),
+	});
+	if (!target) {
+		return;
+	}
+
+	const entries: BundleEntry[] = [
+		...await readLogDirectory(resolveServerLogDirectory(context.extensionUri.fsPath, readServerLaunchOptions()), 'server-logs', SERVER_LOG_FILE_NAMES),
+		...await readLogDirectory(context.logUri.fsPath, 'client-logs'),
+		toJsonEntry('settings.json', settings.createReport()),
+		toJsonEntry('status.json', {
+			extensionVersion: String(context.extension.packageJSON.version ?? '0.0.0'),
+			vscodeVersion: vscode.version,
+			platform: `${os.platform()} ${os.release()} (${process.arch})`,
+			serverRuntimeIdentifier: detectPlatform(),
+			serverState: controller?.state ?? null,
+			serverStatus: controller?.serverStatus ?? null,
+			loadedRuleCount: ruleRepository.rules.length,
+			collectedAt: new Date().toISOString(),
+		}),
+	];
+
+	await vscode.workspace.fs.writeFile(target, createZip(entries));
+	const revealAction = vscode.l10n.t('Reveal in File Explorer');
+	const choice = await vscode.window.showInformationMessage(
+		vscode.l10n.t('Saved the UdonSharp Linter diagnostics bundle to {0}. Review it before sharing; logs contain file paths.', target.fsPath),
+		revealAction
+	);
+	if (choice === revealAction) {
+		await vscode.commands.executeCommand('revealFileInOS', target);
+	}
+}
+
+async function readLogDirectory(directory: string, prefix: string, fileNames?: readonly string[]): Promise<BundleEntry[]> {
+	let names: string[];
+	try {
+		names = fileNames ? [...fileNames] : await fs.promises.readdir(directory);
+	} catch {
+		return [];
+	}
+
+	const entries: BundleEntry[] = [];
+	for (const name of names) {
+		try {
+			const text = await readTail(path.join(directory, name), MAX_LOG_BYTES);
+			entries.push({ name: `${prefix}/${name}`, data: Buffer.from(text, 'utf8') });
+		} catch {
+			// Missing or unreadable logs (e.g. fatal.log before any crash) are skipped.
+		}
+	}
+	return entries;
+}
+
+function toJsonEntry(name: string, value: unknown): BundleEntry {
+	return { name, data: Buffer.from(`${JSON.stringify(value, undefined, 2)}\n`, 'utf8') };
+}
+
+/** Minimal deflate zip writer; enough for a handful of text files without a dependency. */
+export function createZip(entries: readonly BundleEntry[]): Buffer {
+	const { time, date } = toDosDateTime(new Date());
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, 'utf8');
+		const compressed = zlib.deflateRawSync(entry.data);
+		const crc = zlib.crc32(entry.data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(0x0800, 6);
+		local.writeUInt16LE(8, 8);
+		local.writeUInt16LE(time, 10);
+		local.writeUInt16LE(date, 12);
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(entry.data.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		local.writeUInt16LE(0, 28);
+		localParts.push(local, name, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt16LE(time, 12);
+		central.writeUInt16LE(date, 14);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(entry.data.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centralParts.push(central, name);
+
+		offset += local.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+	return {
+		time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+		date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+	};
+}
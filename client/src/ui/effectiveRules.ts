@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { RuleOverrideBlock, SettingsManager } from '../config/settings';
+import { EffectiveRuleSeverity, explainRuleSeverities, findMatchingOverrides } from '../config/ruleSeverity';
+import { LintScope } from '../lsp/lintScope';
+import { RuleRepository } from '../lsp/ruleRepository';
+
+/** Opens a Markdown report of every rule's severity for the active C# file and what decided it. */
+export async function showEffectiveRules(ruleRepository: RuleRepository, settings: SettingsManager, lintScope: LintScope): Promise<void> {
+	const document = vscode.window.activeTextEditor?.document;
+	if (!document || document.languageId !== 'csharp') {
+		await vscode.window.showWarningMessage(vscode.l10n.t('Open a C# file to see the rules that apply to it.'));
+		return;
+	}
+	if (ruleRepository.rules.length === 0) {
+		await vscode.window.showWarningMessage(vscode.l10n.t('The rule list is not available. Start the UdonSharp Linter server and try again.'));
+		return;
+	}
+
+	const current = settings.settings;
+	const matching = findMatchingOverrides(current, document.uri);
+	const explained = explainRuleSeverities(ruleRepository.rules, current, settings.sources, document.uri);
+	const lines = [
+		`# ${vscode.l10n.t('Effective rules for {0}', vscode.workspace.asRelativePath(document.uri, false))}`,
+		'',
+	];
+	if (!lintScope.includesDocument(document)) {
+		lines.push(`> ${vscode.l10n.t('This file is outside the lint scope (udonsharpLinter.include, udonsharpLinter.exclude), so none of these rules run on it.')}`, '');
+	}
+	lines.push(
+		matching.length === 0
+			? vscode.l10n.t('No override block matches this file.')
+			: vscode.l10n.t('Matching override blocks, applied in this order: {0}', matching.map(index => describeBlock(index, current.overrides[index].files)).join(', ')),
+		'',
+		`| ${vscode.l10n.t('Rule')} | ${vscode.l10n.t('Title')} | ${vscode.l10n.t('Severity')} | ${vscode.l10n.t('Decided by')} |`,
+		'|---|---|---|---|',
+		...explained.map(entry => `| ${entry.rule.id} | ${escapeCell(entry.rule.title)} | ${entry.severity} | ${escapeCell(describeOrigin(entry, current.overrides))} |`),
+		''
+	);
+
+	const report = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
+	await vscode.window.showTextDocument(report, { preview: true });
+}
+
+function describeOrigin(entry: EffectiveRuleSeverity, overrides: readonly RuleOverrideBlock[]): string {
+	const origin = entry.origin;
+	switch (origin.kind) {
+	case 'override':
+		return describeBlock(origin.block, overrides[origin.block].files);
+	case 'rules':
+		return vscode.l10n.t('udonsharpLinter.rules ({0})', origin.source);
+	case 'profile':
+		return origin.block === undefined
+			? vscode.l10n.t('Profile {0}', origin.profile)
+			: vscode.l10n.t('Profile {0}, set by {1}', origin.profile, describeBlock(origin.block, overrides[origin.block].files));
+	}
+}
+
+function describeBlock(index: number, files: readonly string[]): string {
+	return `overrides[${index}] (${files.map(glob => `\`${glob}\``).join(', ')})`;
+}
+
+function escapeCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import { DiagnosticSeverity as LspDiagnosticSeverity } from 'vscode-languageclient/node';
+import { RuleSeveritySetting, SettingsManager } from '../config/settings';
+import { resolveEffectiveSeverity } from '../config/ruleSeverity';
+import { BaselineManager } from '../lsp/baseline';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { RuleDescriptor } from '../lsp/messages';
+import { WorkspaceAnalysisResult } from '../lsp/workspaceAnalysis';
+import { getRuleId } from '../lsp/diagnosticCodes';
+import { escapeHtml } from './html';
+
+type ExportFormat = 'sarif' | 'json' | 'junit';
+type FindingSeverity = 'error' | 'warning' | 'information';
+
+export interface ExportedFinding {
+	readonly ruleId: string;
+	readonly message: string;
+	readonly severity: FindingSeverity;
+	readonly uri: vscode.Uri;
+	readonly range: vscode.Range;
+}
+
+export interface ExportContext {
+	readonly findings: ExportedFinding[];
+	readonly rules: Map<string, RuleDescriptor>;
+	readonly settings: SettingsManager;
+	readonly toolVersion: string;
+}
+
+interface FormatQuickPickItem extends vscode.QuickPickItem {
+	readonly format: ExportFormat;
+	readonly extension: string;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'UdonSharp Linter';
+const TOOL_URI = 'https://github.com/Project-Sakanah/vscode-udonsharp-linter';
+
+/**
+ * Drives the "Export Diagnostics..." command. `runWorkspaceAnalysis` is invoked when the
+ * user asks for a fresh analysis instead of exporting what is currently published. Either
+ * way, findings hidden by an enabled baseline and rules set to `off` are left out.
+ */
+export async function exportDiagnostics(
+	ruleRepository: RuleRepository,
+	settings: SettingsManager,
+	baseline: BaselineManager,
+	toolVersion: string,
+	runWorkspaceAnalysis: () => Promise<WorkspaceAnalysisResult | undefined>
+): Promise<void> {
+	const source = await vscode.window.showQuickPick(
+		[
+			{ label: vscode.l10n.t('Current diagnostics'), description: vscode.l10n.t('Export what the Problems panel shows now.'), analyze: false },
+			{ label: vscode.l10n.t('Analyze workspace first'), description: vscode.l10n.t('Lint every C# file, then export the results.'), analyze: true },
+		],
+		{ title: vscode.l10n.t('Export UdonSharp Diagnostics'), placeHolder: vscode.l10n.t('Choose which diagnostics to export.') }
+	);
+	if (!source) {
+		return;
+	}
+
+	const formatItems: FormatQuickPickItem[] = [
+		{ label: 'SARIF 2.1.0', description: '.sarif', format: 'sarif', extension: 'sarif' },
+		{ label: 'JSON', description: '.json', format: 'json', extension: 'json' },
+		{ label: 'JUnit XML', description: '.xml', format: 'junit', extension: 'xml' },
+	];
+	const format = await vscode.window.showQuickPick(formatItems, {
+		title: vscode.l10n.t('Export UdonSharp Diagnostics'),
+		placeHolder: vscode.l10n.t('Choose an export format.'),
+	});
+	if (!format) {
+		return;
+	}
+
+	let findings: ExportedFinding[];
+	if (source.analyze) {
+		const result = await runWorkspaceAnalysis();
+		if (!result) {
+			return;
+		}
+		if (result.cancelled) {
+			const exportAction = vscode.l10n.t('Export Partial Results');
+			const choice = await vscode.window.showWarningMessage(
+				vscode.l10n.t('Workspace analysis was cancelled after {0} of {1} files. Export the partial results anyway?', result.analyzedFileCount, result.totalFileCount),
+				{ modal: true },
+				exportAction
+			);
+			if (choice !== exportAction) {
+				return;
+			}
+		}
+		// Published diagnostics went through the baseline middleware; fresh results have not.
+		findings = fromWorkspaceAnalysis(await baseline.applyToAnalysis(result));
+	} else {
+		findings = fromPublishedDiagnostics();
+	}
+
+	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const defaultUri = workspaceRoot
+		? vscode.Uri.joinPath(workspaceRoot, `udonsharp-diagnostics.${format.extension}`)
+		: undefined;
+	const target = await vscode.window.showSaveDialog({
+		defaultUri,
+		filters: { [format.label]: [format.extension] },
+		title: vscode.l10n.t('Export UdonSharp Diagnostics'),
+	});
+	if (!target) {
+		return;
+	}
+
+	const context: ExportContext = {
+		findings,
+		rules: new Map(ruleRepository.rules.map(rule => [rule.id, rule])),
+		settings,
+		toolVersion,
+	};
+	const content = format.format === 'sarif'
+		? toSarif(context)
+		: format.format === 'json'
+			? toJson(context)
+			: toJUnit(context);
+
+	await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+	const openAction = vscode.l10n.t('Open');
+	const choice = await vscode.window.showInformationMessage(
+		vscode.l10n.t('Exported {0} UdonSharp findings to {1}.', findings.length, vscode.workspace.asRelativePath(target)),
+		openAction
+	);
+	if (choice === openAction) {
+		await vscode.window.showTextDocument(target);
+	}
+}
+
+function fromPublishedDiagnostics(): ExportedFinding[] {
+	const findings: ExportedFinding[] = [];
+	for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+		for (const diagnostic of diagnostics) {
+			const ruleId = getRuleId(diagnostic);
+			// Rules set to `off` are still published, as hints.
+			if (!ruleId || diagnostic.severity === vscode.DiagnosticSeverity.Hint) {
+				continue;
+			}
+			findings.push({
+				ruleId,
+				message: diagnostic.message,
+				severity: fromVsCodeSeverity(diagnostic.severity),
+				uri,
+				range: diagnostic.range,
+			});
+		}
+	}
+	return findings;
+}
+
+/** Findings of a fresh analysis; rules set to `off` arrive as hints and are left out. */
+export function fromWorkspaceAnalysis(result: WorkspaceAnalysisResult): ExportedFinding[] {
+	return result.files.flatMap(file => file.diagnostics
+		.filter(diagnostic => diagnostic.severity !== LspDiagnosticSeverity.Hint)
+		.map(diagnostic => ({
+			ruleId: String(diagnostic.code ?? ''),
+			message: diagnostic.message,
+			severity: fromLspSeverity(diagnostic.severity),
+			uri: vscode.Uri.parse(file.uri),
+			range: new vscode.Range(
+				diagnostic.range.start.line,
+				diagnostic.range.start.character,
+				diagnostic.range.end.line,
+				diagnostic.range.end.character
+			),
+		})));
+}
+
+function fromVsCodeSeverity(severity: vscode.DiagnosticSeverity): FindingSeverity {
+	switch (severity) {
+	case vscode.DiagnosticSeverity.Error:
+		return 'error';
+	case vscode.DiagnosticSeverity.Warning:
+		return 'warning';
+	default:
+		return 'information';
+	}
+}
+
+function fromLspSeverity(severity: LspDiagnosticSeverity | undefined): FindingSeverity {
+	switch (severity) {
+	case LspDiagnosticSeverity.Error:
+		return 'error';
+	case LspDiagnosticSeverity.Information:
+		return 'information';
+	default:
+		// The protocol leaves a missing severity to the client; the CLI treats it as a warning too.
+		return 'warning';
+	}
+}
+
+function profileSeverity(context: ExportContext, ruleId: string): RuleSeveritySetting | undefined {
+	const rule = context.rules.get(ruleId);
+	return rule ? resolveEffectiveSeverity(rule, context.settings.settings) : undefined;
+}
+
+function toSarifLevel(severity: FindingSeverity): string {
+	switch (severity) {
+	case 'error':
+		return 'error';
+	case 'warning':
+		return 'warning';
+	case 'information':
+		return 'note';
+	}
+}
+
+function toSarifConfigurationLevel(severity: RuleSeveritySetting | undefined): string {
+	switch (severity) {
+	case 'error':
+		return 'error';
+	case 'warn':
+		return 'warning';
+	case 'info':
+		return 'note';
+	case 'off':
+		return 'none';
+	default:
+		return 'warning';
+	}
+}
+
+/** SARIF 2.1.0 with one run; paths inside the workspace are relative to `SRCROOT`. */
+export function toSarif(context: ExportContext): string {
+	const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const ruleIds = [...new Set(context.findings.map(finding => finding.ruleId))].sort();
+	const ruleIndex = new Map(ruleIds.map((id, index) => [id, index]));
+
+	const sarif = {
+		$schema: SARIF_SCHEMA,
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: TOOL_NAME,
+					version: context.toolVersion,
+					informationUri: TOOL_URI,
+					rules: ruleIds.map(id => {
+						const rule = context.rules.get(id);
+						return {
+							id,
+							name: rule?.title,
+							shortDescription: rule ? { text: rule.title } : undefined,
+							fullDescription: rule?.description ? { text: rule.description } : undefined,
+							helpUri: rule?.helpLink ?? undefined,
+							defaultConfiguration: { level: toSarifConfigurationLevel(profileSeverity(context, id)) },
+							properties: {
+								category: rule?.category,
+								profile: context.settings.settings.profile,
+								profileSeverity: profileSeverity(context, id),
+							},
+						};
+					}),
+				},
+			},
+			originalUriBaseIds: root ? { SRCROOT: { uri: `${root.toString()}/` } } : undefined,
+			results: context.findings.map(finding => ({
+				ruleId: finding.ruleId,
+				ruleIndex: ruleIndex.get(finding.ruleId),
+				level: toSarifLevel(finding.severity),
+				message: { text: finding.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: toArtifactLocation(finding.uri, root),
+						region: {
+							startLine: finding.range.start.line + 1,
+							startColumn: finding.range.start.character + 1,
+							endLine: finding.range.end.line + 1,
+							endColumn: finding.range.end.character + 1,
+						},
+					},
+				}],
+			})),
+		}],
+	};
+	return JSON.stringify(sarif, undefined, 2);
+}
+
+function toArtifactLocation(uri: vscode.Uri, root: vscode.Uri | undefined): { uri: string; uriBaseId?: string } {
+	if (root && uri.toString().startsWith(`${root.toString()}/`)) {
+		return { uri: uri.toString().substring(root.toString().length + 1), uriBaseId: 'SRCROOT' };
+	}
+	return { uri: uri.toString() };
+}
+
+function toJson(context: ExportContext): string {
+	const payload = {
+		tool: TOOL_NAME,
+		version: context.toolVersion,
+		generatedAt: new Date().toISOString(),
+		profile: context.settings.settings.profile,
+		diagnostics: context.findings.map(finding => {
+			const rule = context.rules.get(finding.ruleId);
+			return {
+				ruleId: finding.ruleId,
+				title: rule?.title ?? null,
+				category: rule?.category ?? null,
+				helpLink: rule?.helpLink ?? null,
+				profileSeverity: profileSeverity(context, finding.ruleId) ?? null,
+				severity: finding.severity,
+				message: finding.message,
+				file: vscode.workspace.asRelativePath(finding.uri, false),
+				range: {
+					start: { line: finding.range.start.line + 1, character: finding.range.start.character + 1 },
+					end: { line: finding.range.end.line + 1, character: finding.range.end.character + 1 },
+				},
+			};
+		}),
+	};
+	return JSON.stringify(payload, undefined, 2);
+}
+
+/** JUnit XML with one test suite per file and one failing test case per finding. */
+export function toJUnit(context: ExportContext): string {
+	const byFile = new Map<string, ExportedFinding[]>();
+	for (const finding of context.findings) {
+		const file = vscode.workspace.asRelativePath(finding.uri, false);
+		const bucket = byFile.get(file);
+		if (bucket) {
+			bucket.push(finding);
+		} else {
+			byFile.set(file, [finding]);
+		}
+	}
+
+	const suites = [...byFile.entries()]
+		.sort(([left], [right]) => left.localeCompare(right, 'en'))
+		.map(([file, findings]) => {
+			const cases = findings.map(finding => {
+				const rule = context.rules.get(finding.ruleId);
+				const line = finding.range.start.line + 1;
+				const column = finding.range.start.character + 1;
+				const details = [
+					`${file}:${line}:${column}`,
+					rule ? `${rule.id}: ${rule.title} (${rule.category})` : finding.ruleId,
+					`${vscode.l10n.t('Severity')}: ${profileSeverity(context, finding.ruleId) ?? finding.severity}`,
+					rule?.helpLink ? `${vscode.l10n.t('Help')}: ${rule.helpLink}` : undefined,
+				].filter(Boolean).join('\n');
+				return `\t\t<testcase classname="${escapeHtml(file)}" name="${escapeHtml(`${finding.ruleId} (${line}:${column})`)}">
+\t\t\t<failure type="${escapeHtml(finding.severity)}" message="${escapeHtml(finding.message)}">${escapeHtml(details)}</failure>
+\t\t</testcase>`;
+			}).join('\n');
+			return `\t<testsuite name="${escapeHtml(file)}" tests="${findings.length}" failures="${findings.length}" errors="0">
+${cases}
+\t</testsuite>`;
+		})
+		.join('\n');
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${TOOL_NAME}" tests="${context.findings.length}" failures="${context.findings.length}">
+${suites}
+</testsuites>
+`;
+}
@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { LintScope } from '../lsp/lintScope';
+import { getLog } from '../lsp/log';
+import {
+	EventCallModel,
+	NetworkBehaviourModel,
+	NetworkMethodModel,
+	SymbolLocation,
+	SyncedFieldModel,
+} from '../lsp/messages';
+import { loadNetworkModel } from '../lsp/networkModel';
+import type { ServerState } from '../lsp/clientController';
+
+export const NETWORK_VIEW_ID = 'udonsharpLinter.network';
+
+const SAVE_REFRESH_DELAY = 1000;
+
+export interface NetworkBehaviourNode {
+	readonly kind: 'behaviour';
+	readonly behaviour: NetworkBehaviourModel;
+}
+
+export interface NetworkSectionNode {
+	readonly kind: 'section';
+	readonly section: 'fields' | 'methods' | 'events';
+	readonly behaviour: NetworkBehaviourModel;
+}
+
+export interface SyncedFieldNode {
+	readonly kind: 'field';
+	readonly field: SyncedFieldModel;
+}
+
+export interface NetworkMethodNode {
+	readonly kind: 'method';
+	readonly method: NetworkMethodModel;
+}
+
+export interface EventCallNode {
+	readonly kind: 'event';
+	readonly call: EventCallModel;
+}
+
+export type NetworkTreeNode = NetworkBehaviourNode | NetworkSectionNode | SyncedFieldNode | NetworkMethodNode | EventCallNode;
+
+/**
+ * "Network Explorer": each UdonSharpBehaviour's sync mode, synced fields, network-callable
+ * methods and outgoing custom events, as reported by `udonsharp/network/behaviours`. Loaded
+ * when the view is first shown, then again on refresh, after C# files are saved and whenever
+ * the server (re)starts.
+ */
+export class NetworkTreeProvider implements vscode.TreeDataProvider<NetworkTreeNode>, vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<NetworkTreeNode | undefined>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private behaviours: NetworkBehaviourModel[] = [];
+	private loaded = false;
+	private loading: vscode.CancellationTokenSource | undefined;
+	private saveTimer: NodeJS.Timeout | undefined;
+	private view: vscode.TreeView<NetworkTreeNode> | undefined;
+
+	public readonly onDidChangeTreeData = this.emitter.event;
+
+	constructor(
+		private readonly getClient: () => LanguageClient | undefined,
+		private readonly lintScope: LintScope,
+		onDidChangeServerState: vscode.Event<ServerState>,
+	) {
+		this.disposables.push(
+			onDidChangeServerState(state => {
+				if (state.kind === 'running') {
+					this.reloadWhenVisible();
+				}
+			}),
+			vscode.workspace.onDidSaveTextDocument(document => {
+				if (document.languageId === 'csharp') {
+					this.scheduleRefresh();
+				}
+			}),
+			lintScope.onDidChange(() => this.scheduleRefresh()),
+		);
+	}
+
+	/** Loads the model the first time the view becomes visible and keeps its message current. */
+	public attach(view: vscode.TreeView<NetworkTreeNode>): void {
+		this.view = view;
+		this.disposables.push(view.onDidChangeVisibility(event => {
+			if (event.visible && !this.loaded) {
+				void this.refresh();
+			}
+		}));
+		if (view.visible) {
+			void this.refresh();
+		}
+	}
+
+	public async refresh(): Promise<void> {
+		this.loading?.cancel();
+		const client = this.getClient();
+		if (!client?.isRunning()) {
+			this.setMessage(vscode.l10n.t('The UdonSharp Linter server is not running.'));
+			return;
+		}
+
+		const loading = new vscode.CancellationTokenSource();
+		this.loading = loading;
+
+		try {
+			const behaviours = await vscode.window.withProgress(
+				{ location: { viewId: NETWORK_VIEW_ID } },
+				() => loadNetworkModel(client, this.lintScope, loading.token)
+			);
+			if (loading.token.isCancellationRequested) {
+				return;
+			}
+			this.behaviours = behaviours;
+			this.loaded = true;
+			this.setMessage(behaviours.length === 0
+				? vscode.l10n.t('No UdonSharpBehaviours were found in the lint scope.')
+				: undefined);
+			this.emitter.fire(undefined);
+		} catch (error) {
+			if (loading.token.isCancellationRequested) {
+				return;
+			}
+			getLog().error('Loading the network model failed:', error);
+			this.setMessage(vscode.l10n.t('UdonSharp Linter could not load the network model. {0}', String(error)));
+		} finally {
+			if (this.loading === loading) {
+				this.loading = undefined;
+			}
+			loading.dispose();
+		}
+	}
+
+	public getChildren(element?: NetworkTreeNode): NetworkTreeNode[] {
+		if (!element) {
+			return this.behaviours.map(behaviour => ({ kind: 'behaviour', behaviour }));
+		}
+		switch (element.kind) {
+		case 'behaviour': {
+			const { behaviour } = element;
+			const sections: NetworkSectionNode[] = [];
+			if (behaviour.syncedFields.length > 0) {
+				sections.push({ kind: 'section', section: 'fields', behaviour });
+			}
+			if (behaviour.networkMethods.length > 0) {
+				sections.push({ kind: 'section', section: 'methods', behaviour });
+			}
+			if (behaviour.eventCalls.length > 0) {
+				sections.push({ kind: 'section', section: 'events', behaviour });
+			}
+			return sections;
+		}
+		case 'section':
+			switch (element.section) {
+			case 'fields':
+				return element.behaviour.syncedFields.map(field => ({ kind: 'field', field }));
+			case 'methods':
+				return element.behaviour.networkMethods.map(method => ({ kind: 'method', method }));
+			case 'events':
+				return element.behaviour.eventCalls.map(call => ({ kind: 'event', call }));
+			}
+			break;
+		}
+		return [];
+	}
+
+	public getTreeItem(element: NetworkTreeNode): vscode.TreeItem {
+		switch (element.kind) {
+		case 'behaviour':
+			return createBehaviourItem(element.behaviour);
+		case 'section':
+			return createSectionItem(element);
+		case 'field':
+			return createFieldItem(element.field);
+		case 'method':
+			return createMethodItem(element.method);
+		case 'event':
+			return createEventItem(element.call);
+		}
+	}
+
+	public dispose(): void {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+		}
+		this.loading?.cancel();
+		this.emitter.dispose();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	// Saving several files at once (Save All) should cost one request.
+	private scheduleRefresh(): void {
+		if (this.saveTimer) {
+			return;
+		}
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = undefined;
+			this.reloadWhenVisible();
+		}, SAVE_REFRESH_DELAY);
+	}
+
+	// A hidden view reloads when it is next shown.
+	private reloadWhenVisible(): void {
+		if (this.view?.visible) {
+			void this.refresh();
+		} else {
+			this.loaded = false;
+		}
+	}
+
+	private setMessage(message: string | undefined): void {
+		if (this.view) {
+			this.view.message = message;
+		}
+	}
+}
+
+/** Opens a location reported by the server, selecting its range. */
+export async function revealSymbolLocation(location: SymbolLocation): Promise<void> {
+	await vscode.window.showTextDocument(vscode.Uri.parse(location.uri), { selection: toRange(location) });
+}
+
+function createBehaviourItem(behaviour: NetworkBehaviourModel): vscode.TreeItem {
+	const unresolved = behaviour.eventCalls.filter(call => !call.target).length;
+	const item = new vscode.TreeItem(behaviour.name, vscode.TreeItemCollapsibleState.Collapsed);
+	item.id = `behaviour:${behaviour.fullName}`;
+	item.description = unresolved > 0
+		? vscode.l10n.t('{0} · {1} unresolved', describeSyncMode(behaviour.syncMode), unresolved)
+		: describeSyncMode(behaviour.syncMode);
+	item.iconPath = unresolved > 0
+		? new vscode.ThemeIcon('symbol-class', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+		: new vscode.ThemeIcon('symbol-class');
+	item.tooltip = `${behaviour.fullName}\n${vscode.workspace.asRelativePath(vscode.Uri.parse(behaviour.location.uri), false)}`;
+	item.contextValue = 'udonsharpNetworkBehaviour';
+	item.command = createRevealCommand(behaviour.location);
+	return item;
+}
+
+function createSectionItem(node: NetworkSectionNode): vscode.TreeItem {
+	const { behaviour } = node;
+	const [label, count, icon] = node.section === 'fields'
+		? [vscode.l10n.t('Synced Fields'), behaviour.syncedFields.length, 'sync']
+		: node.section === 'methods'
+			? [vscode.l10n.t('Network-Callable Methods'), behaviour.networkMethods.length, 'symbol-method']
+			: [vscode.l10n.t('Outgoing Events'), behaviour.eventCalls.length, 'broadcast'];
+	const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+	item.id = `behaviour:${behaviour.fullName}:${node.section}`;
+	item.description = String(count);
+	item.iconPath = new vscode.ThemeIcon(icon);
+	return item;
+}
+
+function createFieldItem(field: SyncedFieldModel): vscode.TreeItem {
+	const item = new vscode.TreeItem(field.name, vscode.TreeItemCollapsibleState.None);
+	item.description = `${field.type} · ${field.syncMode ?? vscode.l10n.t('None (default)')}`;
+	item.iconPath = new vscode.ThemeIcon('symbol-field');
+	item.contextValue = 'udonsharpSyncedField';
+	item.command = createRevealCommand(field.location);
+	return item;
+}
+
+function createMethodItem(method: NetworkMethodModel): vscode.TreeItem {
+	const item = new vscode.TreeItem(`${method.name}(${method.parameterTypes.join(', ')})`, vscode.TreeItemCollapsibleState.None);
+	item.description = method.hasNetworkCallableAttribute
+		? '[NetworkCallable]'
+		: vscode.l10n.t('network event target without [NetworkCallable]');
+	item.iconPath = new vscode.ThemeIcon('symbol-method');
+	item.contextValue = 'udonsharpNetworkMethod';
+	item.command = createRevealCommand(method.location);
+	return item;
+}
+
+function createEventItem(call: EventCallModel): vscode.TreeItem {
+	const item = new vscode.TreeItem(call.eventName, vscode.TreeItemCollapsibleState.None);
+	const target = call.target
+		? `→ ${call.target.behaviour}.${call.target.method}`
+		: vscode.l10n.t('unresolved');
+	item.description = call.networkTarget ? `${target} · ${call.networkTarget}` : target;
+	item.iconPath = call.target
+		? new vscode.ThemeIcon(call.isNetworkEvent ? 'broadcast' : 'symbol-event')
+		: new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+	item.tooltip = call.target
+		? `${call.method}("${call.eventName}")`
+		: vscode.l10n.t('{0}: the target of "{1}" could not be resolved. Use nameof() on a method of a typed UdonSharpBehaviour reference.', call.method, call.eventName);
+	item.contextValue = call.target ? 'udonsharpEventCall.resolved' : 'udonsharpEventCall';
+	item.command = createRevealCommand(call.location);
+	return item;
+}
+
+function createRevealCommand(location: SymbolLocation): vscode.Command {
+	return {
+		command: 'vscode.open',
+		title: vscode.l10n.t('Go to Symbol'),
+		arguments: [vscode.Uri.parse(location.uri), { selection: toRange(location) } satisfies vscode.TextDocumentShowOptions],
+	};
+}
+
+function describeSyncMode(syncMode: string | null): string {
+	return syncMode ?? vscode.l10n.t('no sync mode');
+}
+
+function toRange(location: SymbolLocation): vscode.Range {
+	const { start, end } = location.range;
+	return new vscode.Range(start.line, start.character, end.line, end.character);
+}
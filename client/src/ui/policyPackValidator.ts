@@ -0,0 +1,247 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Node as JsonNode, findNodeAtLocation, getNodeValue, parseTree } from 'jsonc-parser';
+import { SettingsManager } from '../config/settings';
+import { RuleDocumentation } from '../lsp/messages';
+import { SHIPPED_PROFILES } from './profileQuickPick';
+
+export const POLICY_PACK_DIAGNOSTIC_SOURCE = 'UdonSharp Policy Pack';
+
+// Mirrors PolicyRuleDefinition.ToSeverity on the server.
+const KNOWN_SEVERITIES = ['error', 'warn', 'warning', 'info', 'information', 'hidden', 'off'];
+// Without one of these `PolicyPackLoader.TryParseRule` throws and the whole pack is skipped.
+// A missing or empty `id` only drops that rule, so it is checked separately.
+const REQUIRED_STRING_FIELDS = ['title', 'message', 'category', 'defaultSeverity'];
+const FALLBACK_LOCALE = 'en-US';
+
+export interface PolicyPackRule {
+	readonly id: string;
+	readonly title: string;
+	readonly documentation: Record<string, string>;
+	readonly range: vscode.Range;
+}
+
+/**
+ * Reports the semantic problems `PolicyPackLoader` would otherwise only log on the
+ * server, or silently skip: a rule without an ID is dropped, and most other missing
+ * required fields make the whole pack fail to load.
+ */
+export class PolicyPackValidator implements vscode.Disposable {
+	private readonly collection = vscode.languages.createDiagnosticCollection('udonsharpPolicyPacks');
+	private readonly disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly settings: SettingsManager) {
+		this.disposables.push(
+			this.collection,
+			vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this.validate(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri)),
+			settings.onDidChange(() => this.validateOpenDocuments()),
+		);
+		this.validateOpenDocuments();
+	}
+
+	public isPolicyPack(document: vscode.TextDocument): boolean {
+		if (document.uri.scheme !== 'file' || !document.fileName.toLowerCase().endsWith('.json')) {
+			return false;
+		}
+		const fileName = path.normalize(document.fileName);
+		if (this.settings.settings.policyPackPaths.some(candidate => path.normalize(candidate) === fileName)) {
+			return true;
+		}
+		return path.basename(path.dirname(fileName)) === 'PolicyPacks'
+			|| fileName.toLowerCase().endsWith('.policy-pack.json');
+	}
+
+	public dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private validateOpenDocuments(): void {
+		for (const document of vscode.workspace.textDocuments) {
+			this.validate(document);
+		}
+	}
+
+	private validate(document: vscode.TextDocument): void {
+		if (!this.isPolicyPack(document)) {
+			this.collection.delete(document.uri);
+			return;
+		}
+		this.collection.set(document.uri, validatePolicyPack(document));
+	}
+}
+
+export function validatePolicyPack(document: vscode.TextDocument): vscode.Diagnostic[] {
+	const diagnostics: vscode.Diagnostic[] = [];
+	const report = (node: JsonNode | undefined, message: string, severity: vscode.DiagnosticSeverity) => {
+		const range = node
+			? new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length))
+			: new vscode.Range(0, 0, 0, 0);
+		const diagnostic = new vscode.Diagnostic(range, message, severity);
+		diagnostic.source = POLICY_PACK_DIAGNOSTIC_SOURCE;
+		diagnostics.push(diagnostic);
+	};
+
+	const root = parseTree(document.getText());
+	if (!root || root.type !== 'object') {
+		report(root, vscode.l10n.t('A policy pack must be a JSON object with a "rules" array.'), vscode.DiagnosticSeverity.Error);
+		return diagnostics;
+	}
+
+	const rulesNode = findNodeAtLocation(root, ['rules']);
+	if (!rulesNode || rulesNode.type !== 'array') {
+		report(rulesNode ?? root, vscode.l10n.t('A policy pack must contain a "rules" array.'), vscode.DiagnosticSeverity.Error);
+		return diagnostics;
+	}
+
+	const seenIds = new Map<string, JsonNode>();
+	for (const ruleNode of rulesNode.children ?? []) {
+		if (ruleNode.type !== 'object') {
+			report(ruleNode, vscode.l10n.t('Each rule must be an object.'), vscode.DiagnosticSeverity.Error);
+			continue;
+		}
+
+		const idNode = findNodeAtLocation(ruleNode, ['id']);
+		if (!idNode || idNode.type === 'null' || (idNode.type === 'string' && String(idNode.value).length === 0)) {
+			report(idNode ?? ruleNode, vscode.l10n.t('Rule has no "id"; the server skips this rule.'), vscode.DiagnosticSeverity.Error);
+		} else if (idNode.type !== 'string') {
+			report(idNode, vscode.l10n.t('"{0}" must be a string; the server would skip the whole pack.', 'id'), vscode.DiagnosticSeverity.Error);
+		}
+
+		for (const field of REQUIRED_STRING_FIELDS) {
+			const fieldNode = findNodeAtLocation(ruleNode, [field]);
+			if (!fieldNode) {
+				report(ruleNode, vscode.l10n.t('Rule is missing required field "{0}"; the server would skip the whole pack.', field), vscode.DiagnosticSeverity.Error);
+			} else if (fieldNode.type !== 'string') {
+				report(fieldNode, vscode.l10n.t('"{0}" must be a string.', field), vscode.DiagnosticSeverity.Error);
+			}
+		}
+
+		const id = idNode?.type === 'string' ? String(idNode.value) : undefined;
+		if (id) {
+			const key = id.toUpperCase();
+			const previous = seenIds.get(key);
+			if (previous) {
+				report(idNode, vscode.l10n.t('Duplicate rule ID {0}; only the last definition is used.', id), vscode.DiagnosticSeverity.Error);
+				report(previous, vscode.l10n.t('Rule {0} is redefined later in this pack.', id), vscode.DiagnosticSeverity.Warning);
+			}
+			seenIds.set(key, idNode!);
+		}
+
+		const defaultSeverityNode = findNodeAtLocation(ruleNode, ['defaultSeverity']);
+		if (defaultSeverityNode?.type === 'string') {
+			checkSeverity(defaultSeverityNode, report);
+		}
+
+		const profilesNode = findNodeAtLocation(ruleNode, ['profiles']);
+		if (profilesNode) {
+			if (profilesNode.type !== 'object') {
+				report(profilesNode, vscode.l10n.t('"profiles" must map profile names to severities.'), vscode.DiagnosticSeverity.Error);
+			} else {
+				for (const property of profilesNode.children ?? []) {
+					const [keyNode, valueNode] = property.children ?? [];
+					if (keyNode && !SHIPPED_PROFILES.includes(String(keyNode.value))) {
+						report(keyNode, vscode.l10n.t('Profile "{0}" is not one of the bundled profiles ({1}). It becomes selectable once this pack is loaded; check the spelling if you meant a bundled one.', String(keyNode.value), SHIPPED_PROFILES.join(', ')), vscode.DiagnosticSeverity.Information);
+					}
+					if (valueNode) {
+						checkSeverity(valueNode, report);
+					}
+				}
+			}
+		}
+
+		const documentationNode = findNodeAtLocation(ruleNode, ['documentation']);
+		const fallbackMarkdown = findNodeAtLocation(ruleNode, ['documentation', FALLBACK_LOCALE, 'markdown']);
+		if (!fallbackMarkdown || fallbackMarkdown.type !== 'string') {
+			report(documentationNode ?? idNode ?? ruleNode, vscode.l10n.t('Rule {0} has no {1} documentation markdown to fall back on.', id ?? '?', FALLBACK_LOCALE), vscode.DiagnosticSeverity.Warning);
+		}
+	}
+
+	return diagnostics;
+}
+
+export function readPolicyPackRules(document: vscode.TextDocument): PolicyPackRule[] {
+	const root = parseTree(document.getText());
+	const rulesNode = root ? findNodeAtLocation(root, ['rules']) : undefined;
+	if (!rulesNode || rulesNode.type !== 'array') {
+		return [];
+	}
+
+	const rules: PolicyPackRule[] = [];
+	for (const ruleNode of rulesNode.children ?? []) {
+		const value = ruleNode.type === 'object' ? getNodeValue(ruleNode) as Record<string, unknown> : undefined;
+		if (!value || typeof value.id !== 'string') {
+			continue;
+		}
+
+		const documentation: Record<string, string> = {};
+		if (typeof value.documentation === 'object' && value.documentation !== null) {
+			for (const [locale, entry] of Object.entries(value.documentation as Record<string, unknown>)) {
+				const markdown = (entry as { markdown?: unknown } | null)?.markdown;
+				if (typeof markdown === 'string') {
+					documentation[locale] = markdown;
+				}
+			}
+		}
+
+		rules.push({
+			id: value.id,
+			title: typeof value.title === 'string' ? value.title : value.id,
+			documentation,
+			range: new vscode.Range(document.positionAt(ruleNode.offset), document.positionAt(ruleNode.offset + ruleNode.length)),
+		});
+	}
+	return rules;
+}
+
+function checkSeverity(node: JsonNode, report: (node: JsonNode, message: string, severity: vscode.DiagnosticSeverity) => void): void {
+	const value = node.type === 'string' ? String(node.value) : undefined;
+	if (!value || !KNOWN_SEVERITIES.includes(value.toLowerCase())) {
+		report(node, vscode.l10n.t('Unknown severity "{0}". Use error, warn, info or off.', String(node.value)), vscode.DiagnosticSeverity.Error);
+	}
+}
+
+/** Lets the author choose a rule (defaulting to the one under the cursor) and a locale to preview. */
+export async function pickPolicyPackDocumentation(editor: vscode.TextEditor): Promise<RuleDocumentation | undefined> {
+	const rules = readPolicyPackRules(editor.document);
+	if (rules.length === 0) {
+		await vscode.window.showWarningMessage(vscode.l10n.t('No rules were found in this policy pack.'));
+		return undefined;
+	}
+
+	let rule = rules.find(candidate => candidate.range.contains(editor.selection.active));
+	if (!rule) {
+		const picked = await vscode.window.showQuickPick(
+			rules.map(candidate => ({ label: candidate.id, description: candidate.title, rule: candidate })),
+			{ placeHolder: vscode.l10n.t('Select the rule to preview.') }
+		);
+		rule = picked?.rule;
+	}
+	if (!rule) {
+		return undefined;
+	}
+
+	const locales = Object.keys(rule.documentation);
+	if (locales.length === 0) {
+		await vscode.window.showWarningMessage(vscode.l10n.t('Rule {0} has no documentation markdown.', rule.id));
+		return undefined;
+	}
+
+	const locale = locales.length === 1
+		? locales[0]
+		: await vscode.window.showQuickPick(locales, { placeHolder: vscode.l10n.t('Select the documentation locale to preview.') });
+	if (!locale) {
+		return undefined;
+	}
+
+	return {
+		id: rule.id,
+		locale,
+		title: rule.title,
+		markdown: rule.documentation[locale],
+		found: true,
+	};
+}
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
-import { SettingsManager } from '../config/settings';
+import { RuleSeveritySetting, SettingsManager } from '../config/settings';
+import { collectProfiles, resolveProfileSeverity } from '../config/ruleSeverity';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { RuleDescriptor } from '../lsp/messages';
 
 const PROFILE_OPTIONS = [
 	{ label: 'latest', description: vscode.l10n.t('Latest UdonSharp/VRChat SDK profile.') },
@@ -7,24 +10,68 @@ const PROFILE_OPTIONS = [
 	{ label: 'strict_experimental', description: vscode.l10n.t('Strict/experimental profile that promotes all warnings to errors.') },
 ];
 
-export async function showProfilePicker(settings: SettingsManager): Promise<void> {
-	const quickPick = vscode.window.createQuickPick();
+export const SHIPPED_PROFILES: readonly string[] = PROFILE_OPTIONS.map(option => option.label);
+export const PROFILE_DIFF_SCHEME = 'udonsharp-profile';
+
+interface ProfileQuickPickItem extends vscode.QuickPickItem {
+	readonly profile: string;
+}
+
+interface SeverityChange {
+	readonly rule: RuleDescriptor;
+	readonly from: RuleSeveritySetting;
+	readonly to: RuleSeveritySetting;
+}
+
+interface ScopeQuickPickItem extends vscode.QuickPickItem {
+	readonly target: vscode.ConfigurationTarget;
+	readonly folder?: vscode.WorkspaceFolder;
+}
+
+const DIFF_BUTTON: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('diff'),
+	tooltip: vscode.l10n.t('Show severity changes'),
+};
+
+export async function showProfilePicker(settings: SettingsManager, ruleRepository: RuleRepository): Promise<void> {
+	const currentProfile = settings.settings.profile;
+	const rules = ruleRepository.rules;
+
+	const quickPick = vscode.window.createQuickPick<ProfileQuickPickItem>();
 	quickPick.matchOnDescription = true;
 	quickPick.title = vscode.l10n.t('Select UdonSharp Linter Profile');
 	quickPick.placeholder = vscode.l10n.t('Choose the constraint profile to apply.');
-	quickPick.items = PROFILE_OPTIONS.map(item => ({
-		label: item.label,
-		description: item.description,
-		picked: item.label === settings.settings.profile,
-	}));
+	quickPick.items = listProfiles(rules, currentProfile).map(profile => {
+		const changes = diffProfiles(rules, currentProfile, profile);
+		const isCurrent = profile.toLowerCase() === currentProfile.toLowerCase();
+		return {
+			label: profile,
+			description: describeProfile(profile),
+			detail: isCurrent
+				? vscode.l10n.t('Current profile')
+				: rules.length === 0
+					? undefined
+					: vscode.l10n.t('{0} rules change severity', changes.length),
+			picked: isCurrent,
+			buttons: !isCurrent && changes.length > 0 ? [DIFF_BUTTON] : undefined,
+			profile,
+		};
+	});
+	quickPick.activeItems = quickPick.items.filter(item => item.picked);
 
 	try {
-		const selection = await new Promise<vscode.QuickPickItem | undefined>(resolve => {
-			const acceptSubscription = quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
-			const hideSubscription = quickPick.onDidHide(() => resolve(undefined));
+		const selection = await new Promise<ProfileQuickPickItem | undefined>(resolve => {
+			const subscriptions = [
+				quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0])),
+				quickPick.onDidHide(() => resolve(undefined)),
+				quickPick.onDidTriggerItemButton(event => {
+					void showProfileDiff(currentProfile, event.item.profile);
+				}),
+			];
 			quickPick.onDidHide(() => {
-				acceptSubscription.dispose();
-				hideSubscription.dispose();
+				for (const subscription of subscriptions) {
+					subscription.dispose();
+				}
 			});
 			quickPick.show();
 		});
@@ -33,9 +80,119 @@ export async function showProfilePicker(settings: SettingsManager): Promise<void
 			return;
 		}
 
-		await vscode.workspace.getConfiguration('udonsharpLinter')
-			.update('profile', selection.label, vscode.ConfigurationTarget.Workspace);
+		const scope = await pickScope();
+		if (!scope) {
+			return;
+		}
+
+		await vscode.workspace.getConfiguration('udonsharpLinter', scope.folder?.uri)
+			.update('profile', selection.profile, scope.target);
 	} finally {
 		quickPick.dispose();
 	}
 }
+
+/**
+ * Serves both sides of the profile diff. `udonsharp-profile:/<profile>.txt?<other>` lists
+ * the rules whose severity differs between the two profiles, as seen from `<profile>`.
+ */
+export class ProfileDiffContentProvider implements vscode.TextDocumentContentProvider {
+	constructor(private readonly ruleRepository: RuleRepository) {}
+
+	public provideTextDocumentContent(uri: vscode.Uri): string {
+		const profile = decodeURIComponent(uri.path.replace(/^\//, '').replace(/\.txt$/, ''));
+		const other = decodeURIComponent(uri.query);
+		const lines = diffProfiles(this.ruleRepository.rules, profile, other)
+			.map(change => `${change.rule.id}  ${change.from.padEnd(5)}  ${change.rule.title}`);
+		return [`# ${profile}`, '', ...lines, ''].join('\n');
+	}
+}
+
+/** The shipped profiles, then ones only custom packs define, then the configured one if it is unknown. */
+export function listProfiles(rules: readonly RuleDescriptor[], currentProfile: string): string[] {
+	const profiles = [...SHIPPED_PROFILES];
+	for (const profile of [...collectProfiles(rules), currentProfile]) {
+		if (!profiles.some(existing => existing.toLowerCase() === profile.toLowerCase())) {
+			profiles.push(profile);
+		}
+	}
+	return profiles;
+}
+
+function describeProfile(profile: string): string {
+	return PROFILE_OPTIONS.find(option => option.label === profile)?.description
+		?? vscode.l10n.t('Defined by a custom policy pack.');
+}
+
+function diffProfiles(rules: readonly RuleDescriptor[], from: string, to: string): SeverityChange[] {
+	const changes: SeverityChange[] = [];
+	for (const rule of rules) {
+		const fromSeverity = resolveProfileSeverity(rule, from);
+		const toSeverity = resolveProfileSeverity(rule, to);
+		if (fromSeverity !== toSeverity) {
+			changes.push({ rule, from: fromSeverity, to: toSeverity });
+		}
+	}
+	return changes;
+}
+
+async function showProfileDiff(from: string, to: string): Promise<void> {
+	const toUri = (profile: string, other: string) => vscode.Uri.from({
+		scheme: PROFILE_DIFF_SCHEME,
+		path: `/${encodeURIComponent(profile)}.txt`,
+		query: encodeURIComponent(other),
+	});
+	await vscode.commands.executeCommand(
+		'vscode.diff',
+		toUri(from, to),
+		toUri(to, from),
+		vscode.l10n.t('UdonSharp profile {0} ↔ {1}', from, to),
+		{ preview: true }
+	);
+}
+
+// In a single-folder workspace the folder and workspace settings are the same file.
+async function pickScope(): Promise<Pick<ScopeQuickPickItem, 'target' | 'folder'> | undefined> {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	if (folders.length === 0) {
+		return { target: vscode.ConfigurationTarget.Global };
+	}
+	if (!vscode.workspace.workspaceFile) {
+		return { target: vscode.ConfigurationTarget.Workspace, folder: folders[0] };
+	}
+
+	const items: ScopeQuickPickItem[] = [
+		{
+			label: vscode.l10n.t('Workspace'),
+			description: vscode.workspace.asRelativePath(vscode.workspace.workspaceFile),
+			target: vscode.ConfigurationTarget.Workspace,
+		},
+		{
+			label: vscode.l10n.t('Workspace Folder'),
+			description: vscode.l10n.t('Choose a folder'),
+			target: vscode.ConfigurationTarget.WorkspaceFolder,
+		},
+	];
+	// Offer the folder being worked in; the settings folder is only the first one.
+	const activeFolder = getActiveFolder();
+	if (activeFolder) {
+		items[1] = { ...items[1], description: activeFolder.name, folder: activeFolder };
+	}
+	const picked = await vscode.window.showQuickPick(items, {
+		title: vscode.l10n.t('Select UdonSharp Linter Profile'),
+		placeHolder: vscode.l10n.t('Where should the profile be saved?'),
+	});
+	if (picked?.target !== vscode.ConfigurationTarget.WorkspaceFolder || picked.folder) {
+		return picked;
+	}
+
+	const folder = folders.length === 1
+		? folders[0]
+		: await vscode.window.showWorkspaceFolderPick({ placeHolder: vscode.l10n.t('Select the workspace folder to save the profile in.') });
+	return folder ? { target: picked.target, folder } : undefined;
+}
+
+function getActiveFolder(): vscode.WorkspaceFolder | undefined {
+	const uri = vscode.window.activeTextEditor?.document.uri;
+	return uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+}
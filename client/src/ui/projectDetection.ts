@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { SettingsManager } from '../config/settings';
+import {
+	DetectedConfiguration,
+	UnityProject,
+	UnityProjectDetector,
+	applyDetectedConfiguration,
+	findConfigurationChanges,
+	suggestConfiguration,
+} from '../config/unityProject';
+import { getLog } from '../lsp/log';
+
+const DISMISSED_SUGGESTION_KEY = 'udonsharpLinter.dismissedProjectSuggestion';
+
+/** Drives "Apply Detected Configuration": shows what would change and writes it after confirmation. */
+export async function applyDetectedProjectConfiguration(detector: UnityProjectDetector, settings: SettingsManager): Promise<void> {
+	const project = detector.project;
+	if (!project) {
+		await vscode.window.showInformationMessage(vscode.l10n.t('No Unity project was detected in this workspace.'));
+		return;
+	}
+	const suggestion = suggestConfiguration(project);
+	const changes = describeChanges(suggestion, settings);
+	if (changes.length === 0) {
+		await vscode.window.showInformationMessage(vscode.l10n.t('The UdonSharp Linter settings already match the detected project.'));
+		return;
+	}
+
+	const applyAction = vscode.l10n.t('Apply');
+	const choice = await vscode.window.showInformationMessage(
+		vscode.l10n.t('Apply the configuration detected for {0}?', describeProject(project)),
+		{ modal: true, detail: changes.join('\n') },
+		applyAction
+	);
+	if (choice === applyAction) {
+		await apply(suggestion, settings);
+	}
+}
+
+/**
+ * Offers the detected configuration once per suggestion. Declining with "Don't Ask Again"
+ * is remembered per workspace until the detected project changes.
+ */
+export function offerDetectedConfiguration(
+	context: vscode.ExtensionContext,
+	project: UnityProject | undefined,
+	settings: SettingsManager
+): void {
+	if (!project) {
+		return;
+	}
+	const suggestion = suggestConfiguration(project);
+	if (describeChanges(suggestion, settings).length === 0) {
+		return;
+	}
+	const signature = JSON.stringify(suggestion);
+	if (context.workspaceState.get<string>(DISMISSED_SUGGESTION_KEY) === signature) {
+		return;
+	}
+
+	const applyAction = vscode.l10n.t('Apply');
+	const dismissAction = vscode.l10n.t('Don\'t Ask Again');
+	void vscode.window.showInformationMessage(
+		vscode.l10n.t('Detected {0}. Apply the matching UdonSharp Linter settings?', describeProject(project)),
+		applyAction,
+		dismissAction
+	).then(async choice => {
+		if (choice === applyAction) {
+			await apply(suggestion, settings);
+		} else if (choice === dismissAction) {
+			await context.workspaceState.update(DISMISSED_SUGGESTION_KEY, signature);
+		}
+	});
+}
+
+async function apply(suggestion: DetectedConfiguration, settings: SettingsManager): Promise<void> {
+	const confirmed = await confirmStubChange(suggestion, settings);
+	if (!confirmed) {
+		return;
+	}
+	try {
+		await applyDetectedConfiguration(confirmed);
+	} catch (error) {
+		getLog().error('Applying the detected configuration failed:', error);
+		await vscode.window.showErrorMessage(
+			vscode.l10n.t('UdonSharp Linter could not apply the detected configuration. {0}', String(error))
+		);
+	}
+}
+
+/**
+ * `custom-stubs` replaces the bundled Unity and VRChat stubs with the assemblies in
+ * `Library/ScriptAssemblies`, so that part of the suggestion is confirmed on its own.
+ * Resolves to what should be written, or `undefined` when the user cancelled.
+ */
+async function confirmStubChange(suggestion: DetectedConfiguration, settings: SettingsManager): Promise<DetectedConfiguration | undefined> {
+	const changes = findConfigurationChanges(suggestion, settings.settings);
+	if (!changes.includes('unityApiSurface') && !changes.includes('customStubPath')) {
+		return suggestion;
+	}
+	const useAction = vscode.l10n.t('Use ScriptAssemblies');
+	const keepAction = vscode.l10n.t('Keep Current Stubs');
+	const choice = await vscode.window.showWarningMessage(
+		vscode.l10n.t('Point customStubPath at {0}?', suggestion.customStubPath ?? ''),
+		{
+			modal: true,
+			detail: vscode.l10n.t('With custom-stubs the server reads APIs from that folder instead of the bundled Unity and VRChat stubs. It holds the project\'s compiled scripts, so APIs missing from them may be reported as unknown.'),
+		},
+		useAction,
+		keepAction
+	);
+	if (choice === useAction) {
+		return suggestion;
+	}
+	return choice === keepAction ? { profile: suggestion.profile } : undefined;
+}
+
+function describeChanges(suggestion: DetectedConfiguration, settings: SettingsManager): string[] {
+	return findConfigurationChanges(suggestion, settings.settings)
+		.map(key => `${key}: ${settings.settings[key] ?? '—'} → ${suggestion[key]}`);
+}
+
+function describeProject(project: UnityProject): string {
+	const parts = [`Unity ${project.unityVersion ?? '?'}`];
+	if (project.worldsSdkVersion) {
+		parts.push(`VRChat Worlds SDK ${project.worldsSdkVersion}`);
+	}
+	if (project.udonSharp && project.udonSharp.source !== 'worldsSdk') {
+		parts.push(`UdonSharp ${project.udonSharp.version}`);
+	}
+	return parts.join(', ');
+}
@@ -1,63 +1,188 @@
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
 import { RuleRepository } from '../lsp/ruleRepository';
-import { RuleDocumentation } from '../lsp/messages';
+import { RuleDescriptor, RuleDocumentation } from '../lsp/messages';
+import { SettingsManager } from '../config/settings';
+import { RULE_SEVERITY_SETTINGS, resolveEffectiveSeverity, toSeveritySetting, updateRuleOverride } from '../config/ruleSeverity';
+import { escapeHtml } from './html';
+import { showRuleOccurrences } from './ruleOccurrences';
 
+type PanelMessage =
+	| { readonly type: 'back' }
+	| { readonly type: 'forward' }
+	| { readonly type: 'navigate'; readonly ruleId: string }
+	| { readonly type: 'setSeverity'; readonly severity?: string }
+	| { readonly type: 'findOccurrences' };
+
+/**
+ * Renders rule documentation beside the editor. The panel keeps its own back/forward
+ * history; the webview only posts messages and never touches settings itself.
+ */
 export class RuleDocumentationPanel implements vscode.Disposable {
 	private panel: vscode.WebviewPanel | undefined;
+	private readonly disposables: vscode.Disposable[] = [];
+	private history: RuleDocumentation[] = [];
+	private historyIndex = -1;
 
-	constructor(private readonly ruleRepository: RuleRepository) {}
+	constructor(
+		private readonly ruleRepository: RuleRepository,
+		private readonly settings: SettingsManager,
+	) {
+		this.disposables.push(
+			settings.onDidChange(() => void this.refresh()),
+			ruleRepository.onDidChangeRules(() => void this.refresh()),
+		);
+	}
 
 	public async show(ruleId: string): Promise<void> {
-		const locale = vscode.env.language ?? 'en-US';
-		const documentation = await this.ruleRepository.getDocumentation(ruleId, locale)
-			|| await this.ruleRepository.getDocumentation(ruleId, 'en-US');
-
+		const documentation = await this.loadDocumentation(ruleId);
 		if (!documentation) {
+			const helpLink = this.ruleRepository.rules.find(rule => rule.id === ruleId)?.helpLink;
+			if (helpLink) {
+				await vscode.env.openExternal(vscode.Uri.parse(helpLink));
+				return;
+			}
 			await vscode.window.showWarningMessage(vscode.l10n.t('Documentation for rule {0} is unavailable.', ruleId));
 			return;
 		}
 
-		if (!this.panel) {
-			this.panel = vscode.window.createWebviewPanel(
-				'udonsharpLinter.ruleDocumentation',
-				`UdonSharp Rule – ${documentation.id}`,
-				vscode.ViewColumn.Beside,
-				{
-					enableScripts: true,
-					localResourceRoots: [],
-					retainContextWhenHidden: true,
-				}
-			);
-			this.panel.onDidDispose(() => {
-				this.panel = undefined;
-			});
-		} else {
-			this.panel.title = `UdonSharp Rule – ${documentation.id}`;
-		}
+		await this.showDocumentation(documentation);
+	}
 
-		const html = await renderMarkdown(documentation);
-		this.panel.webview.html = html;
-		this.panel.reveal(undefined, true);
+	public async showDocumentation(documentation: RuleDocumentation): Promise<void> {
+		// Opening a new page drops the forward history, like a browser.
+		this.history = [...this.history.slice(0, this.historyIndex + 1), documentation];
+		this.historyIndex = this.history.length - 1;
+		await this.render();
 	}
 
 	public dispose(): void {
 		this.panel?.dispose();
 		this.panel = undefined;
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private async loadDocumentation(ruleId: string): Promise<RuleDocumentation | undefined> {
+		return await this.ruleRepository.getDocumentation(ruleId);
+	}
+
+	private ensurePanel(): vscode.WebviewPanel {
+		if (this.panel) {
+			return this.panel;
+		}
+		const panel = vscode.window.createWebviewPanel(
+			'udonsharpLinter.ruleDocumentation',
+			vscode.l10n.t('UdonSharp Rule'),
+			vscode.ViewColumn.Beside,
+			{
+				enableScripts: true,
+				localResourceRoots: [],
+				retainContextWhenHidden: true,
+			}
+		);
+		panel.webview.onDidReceiveMessage((message: PanelMessage) => void this.handleMessage(message));
+		panel.onDidDispose(() => {
+			this.panel = undefined;
+			this.history = [];
+			this.historyIndex = -1;
+		});
+		this.panel = panel;
+		return panel;
+	}
+
+	// Keeps an open panel's header in sync with settings and the catalogue without revealing it.
+	private async refresh(): Promise<void> {
+		if (this.panel) {
+			await this.render(false);
+		}
+	}
+
+	private async render(reveal = true): Promise<void> {
+		const documentation = this.history[this.historyIndex];
+		if (!documentation) {
+			return;
+		}
+		const panel = this.ensurePanel();
+		panel.title = `UdonSharp Rule – ${documentation.id}`;
+		panel.webview.html = await renderPage(documentation, {
+			rule: this.ruleRepository.rules.find(rule => rule.id === documentation.id),
+			knownRuleIds: new Set(this.ruleRepository.rules.map(rule => rule.id)),
+			settings: this.settings,
+			canGoBack: this.historyIndex > 0,
+			canGoForward: this.historyIndex < this.history.length - 1,
+		});
+		if (reveal) {
+			panel.reveal(undefined, true);
+		}
+	}
+
+	private async handleMessage(message: PanelMessage): Promise<void> {
+		const current = this.history[this.historyIndex];
+		switch (message.type) {
+		case 'back':
+		case 'forward': {
+			const next = this.historyIndex + (message.type === 'back' ? -1 : 1);
+			if (next >= 0 && next < this.history.length) {
+				this.historyIndex = next;
+				await this.render();
+			}
+			break;
+		}
+		case 'navigate':
+			if (typeof message.ruleId === 'string') {
+				await this.show(message.ruleId);
+			}
+			break;
+		case 'setSeverity': {
+			const severity = RULE_SEVERITY_SETTINGS.find(candidate => candidate === message.severity);
+			if (!current) {
+				break;
+			}
+			try {
+				// The settings change event re-renders the header.
+				await updateRuleOverride(current.id, severity);
+			} catch (error) {
+				await vscode.window.showErrorMessage(
+					vscode.l10n.t('UdonSharp Linter could not update the severity of {0}. {1}', current.id, String(error))
+				);
+			}
+			break;
+		}
+		case 'findOccurrences':
+			if (current) {
+				await showRuleOccurrences(current.id);
+			}
+			break;
+		default:
+			break;
+		}
 	}
 }
 
-async function renderMarkdown(documentation: RuleDocumentation): Promise<string> {
+interface PageContext {
+	readonly rule: RuleDescriptor | undefined;
+	readonly knownRuleIds: ReadonlySet<string>;
+	readonly settings: SettingsManager;
+	readonly canGoBack: boolean;
+	readonly canGoForward: boolean;
+}
+
+async function renderPage(documentation: RuleDocumentation, context: PageContext): Promise<string> {
 	const commandResult = await vscode.commands.executeCommand<string>('markdown.api.render', documentation.markdown);
 	const resolvedHtml = typeof commandResult === 'string' ? commandResult : `<pre>${escapeHtml(documentation.markdown)}</pre>`;
+	const nonce = crypto.randomBytes(16).toString('base64');
 
 	const csp = [
 		"default-src 'none'",
 		"img-src data:",
 		"style-src 'unsafe-inline'",
+		`script-src 'nonce-${nonce}'`,
 	].join('; ');
 
 	return `<!DOCTYPE html>
-<html lang="${documentation.locale}">
+<html lang="${escapeHtml(documentation.locale)}">
 <head>
 	<meta charset="UTF-8">
 	<meta http-equiv="Content-Security-Policy" content="${csp}">
@@ -85,19 +210,148 @@ async function renderMarkdown(documentation: RuleDocumentation): Promise<string>
 			border-radius: 6px;
 			overflow-x: auto;
 		}
+		nav, .actions {
+			display: flex;
+			flex-wrap: wrap;
+			gap: 6px;
+			align-items: center;
+		}
+		button {
+			font-family: inherit;
+			color: var(--vscode-button-secondaryForeground);
+			background-color: var(--vscode-button-secondaryBackground);
+			border: none;
+			border-radius: 2px;
+			padding: 4px 10px;
+			cursor: pointer;
+		}
+		button:hover:not(:disabled) {
+			background-color: var(--vscode-button-secondaryHoverBackground);
+		}
+		button.active {
+			color: var(--vscode-button-foreground);
+			background-color: var(--vscode-button-background);
+		}
+		button:disabled {
+			opacity: 0.5;
+			cursor: default;
+		}
+		header {
+			border-bottom: 1px solid var(--vscode-panel-border, rgba(125,125,125,0.3));
+			margin-bottom: 16px;
+			padding-bottom: 12px;
+		}
+		table {
+			border-collapse: collapse;
+			margin: 8px 0;
+		}
+		th, td {
+			text-align: left;
+			padding: 2px 12px 2px 0;
+		}
+		th {
+			color: var(--vscode-descriptionForeground);
+			font-weight: normal;
+		}
 	</style>
 </head>
 <body>
-${resolvedHtml}
+	<nav>
+		<button data-action="back" title="${escapeHtml(vscode.l10n.t('Back'))} (Alt+←)"${context.canGoBack ? '' : ' disabled'}>←</button>
+		<button data-action="forward" title="${escapeHtml(vscode.l10n.t('Forward'))} (Alt+→)"${context.canGoForward ? '' : ' disabled'}>→</button>
+	</nav>
+	${renderHeader(documentation, context)}
+	<main>
+${linkRuleIds(resolvedHtml, context.knownRuleIds, documentation.id)}
+	</main>
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		document.addEventListener('click', event => {
+			const target = event.target instanceof Element ? event.target.closest('[data-action]') : null;
+			if (!target || target.disabled) {
+				return;
+			}
+			event.preventDefault();
+			vscode.postMessage({
+				type: target.dataset.action,
+				ruleId: target.dataset.rule,
+				severity: target.dataset.severity,
+			});
+		});
+		document.addEventListener('keydown', event => {
+			if (event.altKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+				vscode.postMessage({ type: event.key === 'ArrowLeft' ? 'back' : 'forward' });
+			}
+		});
+	</script>
 </body>
 </html>`;
 }
 
-function escapeHtml(value: string): string {
-	return value
-		.replace(/&/g, '&amp;')
-		.replace(/</g, '&lt;')
-		.replace(/>/g, '&gt;')
-		.replace(/"/g, '&quot;')
-		.replace(/'/g, '&#39;');
+function renderHeader(documentation: RuleDocumentation, context: PageContext): string {
+	const rule = context.rule;
+	if (!rule) {
+		return `<header><h1>${escapeHtml(documentation.id)}</h1><p>${escapeHtml(vscode.l10n.t('This rule is not in the loaded catalogue.'))}</p></header>`;
+	}
+
+	const settings = context.settings.settings;
+	const override = settings.ruleOverrides[rule.id.toUpperCase()];
+	const effective = resolveEffectiveSeverity(rule, settings);
+	const profileRows = Object.entries(rule.profileSeverity ?? {})
+		.sort(([left], [right]) => left.localeCompare(right, 'en'))
+		.map(([profile, severity]) => {
+			const marker = profile.toLowerCase() === settings.profile.toLowerCase() ? ' ◀' : '';
+			return `<tr><th>${escapeHtml(profile)}</th><td>${toSeveritySetting(severity)}${marker}</td></tr>`;
+		})
+		.join('');
+	// `defaultSeverity` is the active profile's value, so only a server that sends `baseSeverity` can fill this row.
+	const defaultRow = rule.baseSeverity === undefined
+		? ''
+		: `<tr><th>${escapeHtml(vscode.l10n.t('Default severity'))}</th><td>${toSeveritySetting(rule.baseSeverity)}</td></tr>`;
+	const severityButtons = RULE_SEVERITY_SETTINGS.map(severity => {
+		const active = override === severity ? ' class="active"' : '';
+		return `<button data-action="setSeverity" data-severity="${severity}"${active}>${severity}</button>`;
+	}).join('');
+
+	return `<header>
+		<h1>${escapeHtml(rule.id)}: ${escapeHtml(rule.title)}</h1>
+		<table>
+			<tr><th>${escapeHtml(vscode.l10n.t('Category'))}</th><td>${escapeHtml(rule.category)}</td></tr>
+			${defaultRow}
+			<tr><th>${escapeHtml(vscode.l10n.t('Effective severity'))}</th><td>${effective}${override ? ` (${escapeHtml(vscode.l10n.t('overridden'))})` : ''}</td></tr>
+			<tr><th>${escapeHtml(vscode.l10n.t('Code fix'))}</th><td>${escapeHtml(rule.hasCodeFix ? vscode.l10n.t('Available') : vscode.l10n.t('Not available'))}</td></tr>
+			${profileRows}
+		</table>
+		<div class="actions">
+			${severityButtons}
+			<button data-action="setSeverity"${override ? '' : ' disabled'}>${escapeHtml(vscode.l10n.t('Reset override'))}</button>
+			<button data-action="findOccurrences">${escapeHtml(vscode.l10n.t('Find occurrences'))}</button>
+		</div>
+	</header>`;
+}
+
+/** Turns rule IDs mentioned in text (not inside links or code blocks) into in-panel links. */
+export function linkRuleIds(html: string, knownRuleIds: ReadonlySet<string>, currentRuleId: string): string {
+	let insideLink = 0;
+	let insidePre = 0;
+	return html.split(/(<[^>]+>)/).map(part => {
+		if (part.startsWith('<')) {
+			const tag = /^<(\/?)(a|pre)\b/i.exec(part);
+			if (tag) {
+				const delta = tag[1] ? -1 : 1;
+				if (tag[2].toLowerCase() === 'a') {
+					insideLink += delta;
+				} else {
+					insidePre += delta;
+				}
+			}
+			return part;
+		}
+		if (insideLink > 0 || insidePre > 0) {
+			return part;
+		}
+		return part.replace(/\b[A-Z]{2,}\d{3,}\b/g, candidate => knownRuleIds.has(candidate) && candidate !== currentRuleId
+			? `<a href="#" data-action="navigate" data-rule="${candidate}">${candidate}</a>`
+			: candidate);
+	}).join('');
 }
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { OPEN_RULE_DOCS_COMMAND, createRuleDocumentationUri, getRuleId } from '../lsp/diagnosticCodes';
+
+export class RuleHoverProvider implements vscode.HoverProvider {
+	constructor(private readonly ruleRepository: RuleRepository) {}
+
+	public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const ruleIds = new Set<string>();
+		let hoverRange: vscode.Range | undefined;
+		for (const diagnostic of vscode.languages.getDiagnostics(document.uri)) {
+			const ruleId = getRuleId(diagnostic);
+			if (!ruleId || !diagnostic.range.contains(position)) {
+				continue;
+			}
+			ruleIds.add(ruleId);
+			hoverRange = hoverRange ? hoverRange.union(diagnostic.range) : diagnostic.range;
+		}
+
+		if (ruleIds.size === 0) {
+			return undefined;
+		}
+
+		const markdown = new vscode.MarkdownString(undefined, true);
+		markdown.isTrusted = { enabledCommands: [OPEN_RULE_DOCS_COMMAND] };
+		for (const ruleId of ruleIds) {
+			const title = this.ruleRepository.rules.find(rule => rule.id === ruleId)?.title;
+			markdown.appendMarkdown(`$(book) [${vscode.l10n.t('Why is this a problem?')}](${createRuleDocumentationUri(ruleId).toString()}) `);
+			markdown.appendText(title ? `${ruleId} — ${title}` : ruleId);
+			markdown.appendMarkdown('  \n');
+		}
+		return new vscode.Hover(markdown, hoverRange);
+	}
+}
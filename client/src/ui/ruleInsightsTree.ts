@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { RuleDescriptor } from '../lsp/messages';
+import { RuleOccurrence, collectRuleOccurrences } from './ruleOccurrences';
+
+export const RULE_INSIGHTS_VIEW_ID = 'udonsharpLinter.ruleInsights';
+
+const GROUPING_CONTEXT_KEY = 'udonsharpLinter.ruleInsights.grouping';
+const REFRESH_DELAY = 250;
+
+export type RuleInsightsGrouping = 'rule' | 'category';
+
+export interface InsightCategoryNode {
+	readonly kind: 'category';
+	readonly category: string;
+	readonly rules: readonly InsightRuleNode[];
+	readonly count: number;
+}
+
+export interface InsightRuleNode {
+	readonly kind: 'rule';
+	readonly ruleId: string;
+	readonly rule: RuleDescriptor | undefined;
+	readonly files: readonly InsightFileNode[];
+	readonly count: number;
+}
+
+export interface InsightFileNode {
+	readonly kind: 'file';
+	readonly ruleId: string;
+	readonly uri: vscode.Uri;
+	readonly occurrences: readonly RuleOccurrence[];
+}
+
+export interface InsightOccurrenceNode {
+	readonly kind: 'occurrence';
+	readonly occurrence: RuleOccurrence;
+}
+
+export type RuleInsightsNode = InsightCategoryNode | InsightRuleNode | InsightFileNode | InsightOccurrenceNode;
+
+/**
+ * "Rule Insights": the UdonSharp diagnostics currently in the Problems panel, counted by
+ * rule (or by category, then rule) with the most frequent first, down to each file and
+ * occurrence. Rebuilt from `onDidChangeDiagnostics`, so files that are not open only appear
+ * after a workspace lint.
+ */
+export class RuleInsightsTreeProvider implements vscode.TreeDataProvider<RuleInsightsNode>, vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<RuleInsightsNode | undefined>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private grouping: RuleInsightsGrouping = 'rule';
+	private snapshot: InsightRuleNode[] | undefined;
+	private refreshTimer: NodeJS.Timeout | undefined;
+	private view: vscode.TreeView<RuleInsightsNode> | undefined;
+
+	public readonly onDidChangeTreeData = this.emitter.event;
+
+	constructor(private readonly ruleRepository: RuleRepository) {
+		this.disposables.push(
+			vscode.languages.onDidChangeDiagnostics(() => this.scheduleRefresh()),
+			ruleRepository.onDidChangeRules(() => this.refresh()),
+		);
+		void vscode.commands.executeCommand('setContext', GROUPING_CONTEXT_KEY, this.grouping);
+	}
+
+	/** Lets the provider keep the view's summary message and badge in step with the tree. */
+	public attach(view: vscode.TreeView<RuleInsightsNode>): void {
+		this.view = view;
+		this.updateView();
+	}
+
+	public setGrouping(grouping: RuleInsightsGrouping): void {
+		if (grouping === this.grouping) {
+			return;
+		}
+		this.grouping = grouping;
+		void vscode.commands.executeCommand('setContext', GROUPING_CONTEXT_KEY, grouping);
+		this.emitter.fire(undefined);
+	}
+
+	public refresh(): void {
+		this.snapshot = undefined;
+		this.updateView();
+		this.emitter.fire(undefined);
+	}
+
+	public getChildren(element?: RuleInsightsNode): RuleInsightsNode[] {
+		if (!element) {
+			const rules = this.getSnapshot();
+			return this.grouping === 'category' ? groupByCategory(rules) : rules;
+		}
+		switch (element.kind) {
+		case 'category':
+			return [...element.rules];
+		case 'rule':
+			return [...element.files];
+		case 'file':
+			return element.occurrences.map(occurrence => ({ kind: 'occurrence', occurrence }));
+		case 'occurrence':
+			return [];
+		}
+	}
+
+	public getTreeItem(element: RuleInsightsNode): vscode.TreeItem {
+		switch (element.kind) {
+		case 'category':
+			return createCategoryItem(element);
+		case 'rule':
+			return createRuleItem(element);
+		case 'file':
+			return createFileItem(element);
+		case 'occurrence':
+			return createOccurrenceItem(element);
+		}
+	}
+
+	public dispose(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+		}
+		this.emitter.dispose();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	// onDidChangeDiagnostics fires once per published document; batch the rebuild.
+	private scheduleRefresh(): void {
+		if (this.refreshTimer) {
+			return;
+		}
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = undefined;
+			this.refresh();
+		}, REFRESH_DELAY);
+	}
+
+	private getSnapshot(): InsightRuleNode[] {
+		this.snapshot ??= this.buildSnapshot();
+		return this.snapshot;
+	}
+
+	private buildSnapshot(): InsightRuleNode[] {
+		return summarizeRuleOccurrences(this.ruleRepository.rules, collectRuleOccurrences());
+	}
+
+	private updateView(): void {
+		if (!this.view) {
+			return;
+		}
+		const rules = this.getSnapshot();
+		const total = rules.reduce((sum, rule) => sum + rule.count, 0);
+		const files = new Set(rules.flatMap(rule => rule.files.map(file => file.uri.toString()))).size;
+		this.view.message = total === 0
+			? vscode.l10n.t('No UdonSharp diagnostics are published. Lint the entire workspace to include files that are not open.')
+			: vscode.l10n.t('{0} findings from {1} rules in {2} files', total, rules.length, files);
+		this.view.badge = total === 0
+			? undefined
+			: { value: total, tooltip: vscode.l10n.t('{0} UdonSharp findings', total) };
+	}
+}
+
+/** Rule nodes for `occurrences` by rule ID, most frequent first, each with its files most frequent first. */
+export function summarizeRuleOccurrences(
+	rules: readonly RuleDescriptor[],
+	occurrences: ReadonlyMap<string, readonly RuleOccurrence[]>
+): InsightRuleNode[] {
+	const descriptors = new Map(rules.map(rule => [rule.id, rule]));
+	return [...occurrences]
+		.map(([ruleId, ruleOccurrences]): InsightRuleNode => ({
+			kind: 'rule',
+			ruleId,
+			rule: descriptors.get(ruleId),
+			files: groupByFile(ruleId, ruleOccurrences),
+			count: ruleOccurrences.length,
+		}))
+		.sort(byCountThen((left, right) => left.ruleId.localeCompare(right.ruleId, 'en')));
+}
+
+function groupByFile(ruleId: string, occurrences: readonly RuleOccurrence[]): InsightFileNode[] {
+	const files = new Map<string, InsightFileNode & { occurrences: RuleOccurrence[] }>();
+	for (const occurrence of occurrences) {
+		const key = occurrence.uri.toString();
+		const file = files.get(key);
+		if (file) {
+			file.occurrences.push(occurrence);
+		} else {
+			files.set(key, { kind: 'file', ruleId, uri: occurrence.uri, occurrences: [occurrence] });
+		}
+	}
+	return [...files.values()].sort((left, right) =>
+		right.occurrences.length - left.occurrences.length
+		|| left.uri.toString().localeCompare(right.uri.toString(), 'en'));
+}
+
+/** Category nodes for the "by category" grouping; rules without one go under General. */
+export function groupByCategory(rules: readonly InsightRuleNode[]): InsightCategoryNode[] {
+	const groups = new Map<string, InsightRuleNode[]>();
+	for (const rule of rules) {
+		const category = rule.rule?.category || vscode.l10n.t('General');
+		const bucket = groups.get(category);
+		if (bucket) {
+			bucket.push(rule);
+		} else {
+			groups.set(category, [rule]);
+		}
+	}
+	return [...groups.entries()]
+		.map(([category, categoryRules]): InsightCategoryNode => ({
+			kind: 'category',
+			category,
+			rules: categoryRules,
+			count: categoryRules.reduce((sum, rule) => sum + rule.count, 0),
+		}))
+		.sort(byCountThen((left, right) => left.category.localeCompare(right.category, 'en')));
+}
+
+function byCountThen<T extends { readonly count: number }>(tieBreak: (left: T, right: T) => number): (left: T, right: T) => number {
+	return (left, right) => right.count - left.count || tieBreak(left, right);
+}
+
+function createCategoryItem(node: InsightCategoryNode): vscode.TreeItem {
+	const item = new vscode.TreeItem(node.category, vscode.TreeItemCollapsibleState.Expanded);
+	item.id = `insights:category:${node.category}`;
+	item.description = String(node.count);
+	item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+	item.contextValue = 'udonsharpInsightCategory';
+	return item;
+}
+
+function createRuleItem(node: InsightRuleNode): vscode.TreeItem {
+	const item = new vscode.TreeItem(node.ruleId, vscode.TreeItemCollapsibleState.Collapsed);
+	item.id = `insights:rule:${node.ruleId}`;
+	item.description = node.rule ? `${node.count} · ${node.rule.title}` : String(node.count);
+	item.iconPath = severityIcon(node.files.flatMap(file => file.occurrences));
+	item.contextValue = 'udonsharpInsightRule';
+
+	const tooltip = new vscode.MarkdownString();
+	tooltip.appendMarkdown(`**${node.ruleId}**`);
+	if (node.rule) {
+		tooltip.appendMarkdown(' — ');
+		tooltip.appendText(node.rule.title);
+		tooltip.appendMarkdown('\n\n');
+		tooltip.appendText(node.rule.category);
+	}
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendText(vscode.l10n.t('{0} occurrences in {1} files', node.count, node.files.length));
+	item.tooltip = tooltip;
+	return item;
+}
+
+function createFileItem(node: InsightFileNode): vscode.TreeItem {
+	const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Collapsed);
+	item.id = `insights:file:${node.ruleId}:${node.uri.toString()}`;
+	const relativePath = vscode.workspace.asRelativePath(node.uri, false).replace(/\\/g, '/');
+	const folder = relativePath.includes('/') ? relativePath.slice(0, relativePath.lastIndexOf('/')) : '';
+	item.description = folder ? `${node.occurrences.length} · ${folder}` : String(node.occurrences.length);
+	item.tooltip = relativePath;
+	item.contextValue = 'udonsharpInsightFile';
+	return item;
+}
+
+function createOccurrenceItem(node: InsightOccurrenceNode): vscode.TreeItem {
+	const { uri, diagnostic } = node.occurrence;
+	const start = diagnostic.range.start;
+	const item = new vscode.TreeItem(
+		vscode.l10n.t('Line {0}, column {1}', start.line + 1, start.character + 1),
+		vscode.TreeItemCollapsibleState.None
+	);
+	item.description = diagnostic.message;
+	item.tooltip = diagnostic.message;
+	item.iconPath = severityIcon([node.occurrence]);
+	item.contextValue = 'udonsharpInsightOccurrence';
+	item.command = {
+		command: 'vscode.open',
+		title: vscode.l10n.t('Go to Occurrence'),
+		arguments: [uri, { selection: diagnostic.range } satisfies vscode.TextDocumentShowOptions],
+	};
+	return item;
+}
+
+// The most severe published severity among the occurrences.
+function severityIcon(occurrences: readonly RuleOccurrence[]): vscode.ThemeIcon {
+	const severity = Math.min(...occurrences.map(occurrence => occurrence.diagnostic.severity));
+	switch (severity) {
+	case vscode.DiagnosticSeverity.Error:
+		return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+	case vscode.DiagnosticSeverity.Warning:
+		return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+	default:
+		return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+	}
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { getRuleId } from '../lsp/diagnosticCodes';
+
+export interface RuleOccurrence {
+	readonly uri: vscode.Uri;
+	readonly diagnostic: vscode.Diagnostic;
+}
+
+interface OccurrenceQuickPickItem extends vscode.QuickPickItem {
+	readonly occurrence: RuleOccurrence;
+}
+
+/** Occurrences currently published to the Problems panel; run workspace linting for the full picture. */
+export function findRuleOccurrences(ruleId: string): RuleOccurrence[] {
+	return collectRuleOccurrences().get(ruleId) ?? [];
+}
+
+/**
+ * Every published UdonSharp diagnostic, grouped by rule ID and sorted by file and position.
+ * Hints are skipped: they are what the server publishes for rules set to `off`.
+ */
+export function collectRuleOccurrences(): Map<string, RuleOccurrence[]> {
+	const byRule = new Map<string, RuleOccurrence[]>();
+	for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+		for (const diagnostic of diagnostics) {
+			const ruleId = getRuleId(diagnostic);
+			if (!ruleId || diagnostic.severity === vscode.DiagnosticSeverity.Hint) {
+				continue;
+			}
+			const bucket = byRule.get(ruleId);
+			if (bucket) {
+				bucket.push({ uri, diagnostic });
+			} else {
+				byRule.set(ruleId, [{ uri, diagnostic }]);
+			}
+		}
+	}
+	for (const occurrences of byRule.values()) {
+		occurrences.sort((left, right) =>
+			left.uri.toString().localeCompare(right.uri.toString(), 'en')
+			|| left.diagnostic.range.start.compareTo(right.diagnostic.range.start));
+	}
+	return byRule;
+}
+
+export async function openRuleOccurrence(occurrence: RuleOccurrence): Promise<void> {
+	await vscode.window.showTextDocument(occurrence.uri, { selection: occurrence.diagnostic.range });
+}
+
+export async function showRuleOccurrences(ruleId: string): Promise<void> {
+	const occurrences = findRuleOccurrences(ruleId);
+	if (occurrences.length === 0) {
+		const lintAction = vscode.l10n.t('Lint Entire Workspace');
+		const choice = await vscode.window.showInformationMessage(
+			vscode.l10n.t('No published diagnostics for {0}. Lint the whole workspace to include files that are not open?', ruleId),
+			lintAction
+		);
+		if (choice === lintAction) {
+			await vscode.commands.executeCommand('udonsharpLinter.lintWorkspace');
+		}
+		return;
+	}
+
+	const items: OccurrenceQuickPickItem[] = occurrences.map(occurrence => ({
+		label: `$(file-code) ${vscode.workspace.asRelativePath(occurrence.uri, false)}:${occurrence.diagnostic.range.start.line + 1}`,
+		detail: occurrence.diagnostic.message,
+		occurrence,
+	}));
+	const picked = await vscode.window.showQuickPick(items, {
+		title: vscode.l10n.t('Occurrences of {0}', ruleId),
+		placeHolder: vscode.l10n.t('{0} occurrences in {1} files', occurrences.length, new Set(occurrences.map(item => item.uri.toString())).size),
+		matchOnDetail: true,
+		onDidSelectItem: item => {
+			const occurrence = (item as OccurrenceQuickPickItem).occurrence;
+			void vscode.window.showTextDocument(occurrence.uri, { selection: occurrence.diagnostic.range, preview: true, preserveFocus: true });
+		},
+	});
+	if (picked) {
+		await openRuleOccurrence(picked.occurrence);
+	}
+}
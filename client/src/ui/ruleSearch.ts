@@ -1,11 +1,17 @@
 import * as vscode from 'vscode';
 import { RuleRepository } from '../lsp/ruleRepository';
 import { RuleDescriptor } from '../lsp/messages';
+import { CONFIGURE_RULE_SEVERITY_COMMAND } from './ruleSeverityPicker';
 
 interface RuleQuickPickItem extends vscode.QuickPickItem {
 	rule: RuleDescriptor;
 }
 
+const CONFIGURE_SEVERITY_BUTTON: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('settings-gear'),
+	tooltip: vscode.l10n.t('Configure severity of several rules'),
+};
+
 export async function pickRule(ruleRepository: RuleRepository): Promise<RuleDescriptor | undefined> {
 	const rules = ruleRepository.rules;
 	if (rules.length === 0) {
@@ -17,6 +23,7 @@ export async function pickRule(ruleRepository: RuleRepository): Promise<RuleDesc
 	quickPick.matchOnDescription = true;
 	quickPick.matchOnDetail = true;
 	quickPick.placeholder = vscode.l10n.t('Type a rule ID or title to filter.');
+	quickPick.buttons = [CONFIGURE_SEVERITY_BUTTON];
 	quickPick.items = rules.map(rule => ({
 		label: `${rule.id} — ${rule.title}`,
 		description: rule.category,
@@ -29,6 +36,11 @@ export async function pickRule(ruleRepository: RuleRepository): Promise<RuleDesc
 		const selection = await new Promise<RuleQuickPickItem | undefined>(resolve => {
 			disposables.push(
 				quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0])),
+				// Bulk editing continues in "Configure Rule Severity..." with the same search text.
+				quickPick.onDidTriggerButton(() => {
+					resolve(undefined);
+					void vscode.commands.executeCommand(CONFIGURE_RULE_SEVERITY_COMMAND, quickPick.value);
+				}),
 				quickPick.onDidHide(() => resolve(undefined))
 			);
 			quickPick.show();
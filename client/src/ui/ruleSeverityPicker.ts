@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import { RuleSeveritySetting, SettingsManager, getSettingsFolder } from '../config/settings';
+import { RULE_SEVERITY_SETTINGS, findShadowedRuleOverrides, readRuleOverrides, resolveEffectiveSeverity, updateRuleOverrides } from '../config/ruleSeverity';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { RuleDescriptor } from '../lsp/messages';
+
+export const CONFIGURE_RULE_SEVERITY_COMMAND = 'udonsharpLinter.configureRuleSeverity';
+
+interface RuleFilter {
+	readonly categories: ReadonlySet<string>;
+	readonly severities: ReadonlySet<RuleSeveritySetting>;
+	readonly codeFixOnly: boolean;
+}
+
+interface RuleQuickPickItem extends vscode.QuickPickItem {
+	readonly rule: RuleDescriptor;
+}
+
+interface ScopeQuickPickItem extends vscode.QuickPickItem {
+	readonly target: vscode.ConfigurationTarget;
+}
+
+type PickerAction = 'category' | 'severity' | 'codeFix' | 'reset';
+
+type PickerResult =
+	| { readonly kind: 'apply'; readonly rules: readonly RuleDescriptor[] }
+	| { readonly kind: PickerAction; readonly rules: readonly RuleDescriptor[]; readonly value: string };
+
+const ACTION_BUTTONS: ReadonlyArray<vscode.QuickInputButton & { readonly action: PickerAction }> = [
+	{ action: 'category', iconPath: new vscode.ThemeIcon('symbol-namespace'), tooltip: vscode.l10n.t('Filter by category') },
+	{ action: 'severity', iconPath: new vscode.ThemeIcon('filter'), tooltip: vscode.l10n.t('Filter by current severity') },
+	{ action: 'codeFix', iconPath: new vscode.ThemeIcon('lightbulb'), tooltip: vscode.l10n.t('Show only rules with code fixes') },
+	{ action: 'reset', iconPath: new vscode.ThemeIcon('discard'), tooltip: vscode.l10n.t('Reset overrides') },
+];
+
+/**
+ * "Configure Rule Severity...": a multi-select rule list showing each rule's effective
+ * severity. The title bar buttons filter the list or reset overrides; accepting asks for a
+ * severity and a settings scope and writes every selected rule at once.
+ */
+export async function configureRuleSeverity(
+	ruleRepository: RuleRepository,
+	settings: SettingsManager,
+	initialValue = ''
+): Promise<void> {
+	if (ruleRepository.rules.length === 0) {
+		await vscode.window.showWarningMessage(vscode.l10n.t('Rule data has not been loaded yet. Please try again in a moment.'));
+		return;
+	}
+
+	let filter: RuleFilter = { categories: new Set(), severities: new Set(), codeFixOnly: false };
+	let selected = new Set<string>();
+	let value = initialValue;
+	for (;;) {
+		const result = await pickRules(ruleRepository.rules, settings, filter, selected, value);
+		if (!result) {
+			return;
+		}
+		selected = new Set(result.rules.map(rule => rule.id));
+		switch (result.kind) {
+		case 'apply':
+			await applySeverity(result.rules, settings);
+			return;
+		case 'reset':
+			await resetOverrides(result.rules);
+			return;
+		case 'category':
+			value = result.value;
+			filter = { ...filter, categories: await pickFilterValues(vscode.l10n.t('Filter by category'), collectCategories(ruleRepository.rules), filter.categories) ?? filter.categories };
+			break;
+		case 'severity':
+			value = result.value;
+			filter = { ...filter, severities: await pickFilterValues(vscode.l10n.t('Filter by current severity'), RULE_SEVERITY_SETTINGS, filter.severities) ?? filter.severities };
+			break;
+		case 'codeFix':
+			value = result.value;
+			filter = { ...filter, codeFixOnly: !filter.codeFixOnly };
+			break;
+		}
+	}
+}
+
+async function pickRules(
+	rules: readonly RuleDescriptor[],
+	settings: SettingsManager,
+	filter: RuleFilter,
+	selected: ReadonlySet<string>,
+	value: string
+): Promise<PickerResult | undefined> {
+	const quickPick = vscode.window.createQuickPick<RuleQuickPickItem>();
+	quickPick.canSelectMany = true;
+	quickPick.matchOnDescription = true;
+	quickPick.matchOnDetail = true;
+	quickPick.title = describeTitle(filter);
+	quickPick.placeholder = vscode.l10n.t('Select the rules to change, then press Enter to choose a severity.');
+	quickPick.buttons = ACTION_BUTTONS;
+	quickPick.items = rules
+		.filter(rule => matchesFilter(rule, settings, filter))
+		.map(rule => toItem(rule, settings));
+	quickPick.selectedItems = quickPick.items.filter(item => selected.has(item.rule.id));
+	quickPick.value = value;
+
+	const disposables: vscode.Disposable[] = [];
+	try {
+		return await new Promise<PickerResult | undefined>(resolve => {
+			const selectedRules = () => quickPick.selectedItems.map(item => item.rule);
+			disposables.push(
+				quickPick.onDidAccept(() => resolve({ kind: 'apply', rules: selectedRules() })),
+				quickPick.onDidTriggerButton(button => {
+					const action = ACTION_BUTTONS.find(candidate => candidate === button)?.action;
+					if (action) {
+						resolve({ kind: action, rules: selectedRules(), value: quickPick.value });
+					}
+				}),
+				quickPick.onDidHide(() => resolve(undefined))
+			);
+			quickPick.show();
+		});
+	} finally {
+		disposables.forEach(disposable => disposable.dispose());
+		quickPick.dispose();
+	}
+}
+
+async function applySeverity(rules: readonly RuleDescriptor[], settings: SettingsManager): Promise<void> {
+	if (rules.length === 0) {
+		await vscode.window.showInformationMessage(vscode.l10n.t('No rules were selected.'));
+		return;
+	}
+	const severity = await vscode.window.showQuickPick(
+		RULE_SEVERITY_SETTINGS.map(setting => ({ label: setting })),
+		{ title: vscode.l10n.t('Configure Rule Severity'), placeHolder: vscode.l10n.t('Severity for {0} selected rules', rules.length) }
+	);
+	if (!severity) {
+		return;
+	}
+	const target = await pickScope(vscode.l10n.t('Where should the severity be saved?'));
+	if (target === undefined) {
+		return;
+	}
+	const shadowed = findShadowedRuleOverrides(rules.map(rule => rule.id), target, settings.sources);
+	if (shadowed.length > 0) {
+		const saveAction = vscode.l10n.t('Save Anyway');
+		const choice = await vscode.window.showWarningMessage(
+			vscode.l10n.t('{0} of the selected rules are set in a scope that takes precedence, so the new severity will not apply to them.', shadowed.length),
+			{ modal: true, detail: shadowed.map(entry => vscode.l10n.t('{0} (set in {1})', entry.ruleId, entry.source)).join('\n') },
+			saveAction
+		);
+		if (choice !== saveAction) {
+			return;
+		}
+	}
+
+	try {
+		const changed = await updateRuleOverrides(rules.map(rule => rule.id), severity.label as RuleSeveritySetting, target);
+		await vscode.window.showInformationMessage(vscode.l10n.t('Set {0} rules to {1}.', changed, severity.label));
+	} catch (error) {
+		await vscode.window.showErrorMessage(vscode.l10n.t('UdonSharp Linter could not update rule severities. {0}', String(error)));
+	}
+}
+
+// Without a selection, every override at the chosen scope is removed.
+async function resetOverrides(rules: readonly RuleDescriptor[]): Promise<void> {
+	const target = await pickScope(vscode.l10n.t('Which overrides should be reset?'));
+	if (target === undefined) {
+		return;
+	}
+	const configuration = vscode.workspace.getConfiguration('udonsharpLinter', getSettingsFolder()?.uri);
+	const ruleIds = rules.length > 0
+		? rules.map(rule => rule.id)
+		: Object.keys(readRuleOverrides(configuration, target) ?? {});
+	if (ruleIds.length === 0) {
+		await vscode.window.showInformationMessage(vscode.l10n.t('There are no rule overrides to reset in this scope.'));
+		return;
+	}
+	if (rules.length === 0) {
+		const resetAction = vscode.l10n.t('Reset');
+		const choice = await vscode.window.showWarningMessage(
+			vscode.l10n.t('Remove all {0} entries from udonsharpLinter.rules in this scope?', ruleIds.length),
+			{ modal: true },
+			resetAction
+		);
+		if (choice !== resetAction) {
+			return;
+		}
+	}
+
+	try {
+		const changed = await updateRuleOverrides(ruleIds, undefined, target);
+		await vscode.window.showInformationMessage(vscode.l10n.t('Reset {0} rule overrides.', changed));
+	} catch (error) {
+		await vscode.window.showErrorMessage(vscode.l10n.t('UdonSharp Linter could not update rule severities. {0}', String(error)));
+	}
+}
+
+async function pickFilterValues<T extends string>(
+	title: string,
+	values: readonly T[],
+	current: ReadonlySet<T>
+): Promise<Set<T> | undefined> {
+	const picked = await vscode.window.showQuickPick(
+		values.map(entry => ({ label: entry, picked: current.has(entry) })),
+		{ title, placeHolder: vscode.l10n.t('Select none to show every rule.'), canPickMany: true }
+	);
+	return picked ? new Set(picked.map(item => item.label as T)) : undefined;
+}
+
+// In a single-folder workspace the folder and workspace settings are the same file.
+async function pickScope(placeHolder: string): Promise<vscode.ConfigurationTarget | undefined> {
+	const folder = getSettingsFolder();
+	const items: ScopeQuickPickItem[] = [
+		{ label: vscode.l10n.t('User'), target: vscode.ConfigurationTarget.Global },
+	];
+	if (folder) {
+		items.push({
+			label: vscode.l10n.t('Workspace'),
+			description: vscode.workspace.workspaceFile ? vscode.workspace.asRelativePath(vscode.workspace.workspaceFile) : folder.name,
+			target: vscode.ConfigurationTarget.Workspace,
+		});
+	}
+	if (folder && vscode.workspace.workspaceFile) {
+		items.push({
+			label: vscode.l10n.t('Workspace Folder'),
+			description: folder.name,
+			target: vscode.ConfigurationTarget.WorkspaceFolder,
+		});
+	}
+	const picked = await vscode.window.showQuickPick(items, { title: vscode.l10n.t('Configure Rule Severity'), placeHolder });
+	return picked?.target;
+}
+
+function toItem(rule: RuleDescriptor, settings: SettingsManager): RuleQuickPickItem {
+	const severity = resolveEffectiveSeverity(rule, settings.settings);
+	const source = settings.sources.ruleOverrides[rule.id.toUpperCase()];
+	return {
+		label: `${rule.id} — ${rule.title}`,
+		description: [
+			source ? vscode.l10n.t('{0} (set in {1})', severity, source) : severity,
+			rule.category,
+			rule.hasCodeFix ? '$(lightbulb)' : undefined,
+		].filter(Boolean).join(' · '),
+		detail: rule.description,
+		rule,
+	};
+}
+
+function matchesFilter(rule: RuleDescriptor, settings: SettingsManager, filter: RuleFilter): boolean {
+	return (filter.categories.size === 0 || filter.categories.has(rule.category))
+		&& (filter.severities.size === 0 || filter.severities.has(resolveEffectiveSeverity(rule, settings.settings)))
+		&& (!filter.codeFixOnly || rule.hasCodeFix);
+}
+
+function describeTitle(filter: RuleFilter): string {
+	const parts = [
+		...filter.categories,
+		...filter.severities,
+		...(filter.codeFixOnly ? [vscode.l10n.t('code fixes only')] : []),
+	];
+	return parts.length > 0
+		? vscode.l10n.t('Configure Rule Severity ({0})', parts.join(', '))
+		: vscode.l10n.t('Configure Rule Severity');
+}
+
+function collectCategories(rules: readonly RuleDescriptor[]): string[] {
+	return [...new Set(rules.map(rule => rule.category))].sort((left, right) => left.localeCompare(right, 'en'));
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { SettingsManager, RuleSeveritySetting } from '../config/settings';
+import { resolveEffectiveSeverity, resolveProfileSeverity } from '../config/ruleSeverity';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { RuleDescriptor } from '../lsp/messages';
+
+export const RULES_VIEW_ID = 'udonsharpLinter.rules';
+
+export interface RuleCategoryNode {
+	readonly kind: 'category';
+	readonly category: string;
+	readonly rules: readonly RuleDescriptor[];
+}
+
+export interface RuleNode {
+	readonly kind: 'rule';
+	readonly rule: RuleDescriptor;
+}
+
+export type RulesTreeNode = RuleCategoryNode | RuleNode;
+
+export class RulesTreeProvider implements vscode.TreeDataProvider<RulesTreeNode>, vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<RulesTreeNode | undefined>();
+	private readonly disposables: vscode.Disposable[] = [];
+
+	public readonly onDidChangeTreeData = this.emitter.event;
+
+	constructor(
+		private readonly ruleRepository: RuleRepository,
+		private readonly settings: SettingsManager,
+	) {
+		this.disposables.push(
+			ruleRepository.onDidChangeRules(() => this.refresh()),
+			settings.onDidChange(() => this.refresh()),
+		);
+	}
+
+	public refresh(): void {
+		this.emitter.fire(undefined);
+	}
+
+	public getChildren(element?: RulesTreeNode): RulesTreeNode[] {
+		if (!element) {
+			return groupByCategory(this.ruleRepository.rules);
+		}
+		if (element.kind === 'category') {
+			return element.rules.map(rule => ({ kind: 'rule', rule }));
+		}
+		return [];
+	}
+
+	public getTreeItem(element: RulesTreeNode): vscode.TreeItem {
+		if (element.kind === 'category') {
+			const item = new vscode.TreeItem(element.category, vscode.TreeItemCollapsibleState.Expanded);
+			item.id = `category:${element.category}`;
+			item.description = String(element.rules.length);
+			item.contextValue = 'udonsharpCategory';
+			return item;
+		}
+
+		const { rule } = element;
+		const currentSettings = this.settings.settings;
+		const severity = resolveEffectiveSeverity(rule, currentSettings);
+		const overridden = Boolean(currentSettings.ruleOverrides[rule.id.toUpperCase()]);
+
+		const item = new vscode.TreeItem(rule.id, vscode.TreeItemCollapsibleState.None);
+		item.id = `rule:${rule.id}`;
+		item.description = overridden
+			? `${severity} (${vscode.l10n.t('override')}) · ${rule.title}`
+			: `${severity} · ${rule.title}`;
+		item.iconPath = severityIcon(severity);
+		item.tooltip = createTooltip(rule, severity, currentSettings.profile, overridden);
+		item.contextValue = overridden ? 'udonsharpRule.overridden' : 'udonsharpRule';
+		item.command = {
+			command: 'udonsharpLinter.openRuleDocs',
+			title: vscode.l10n.t('Open Rule Documentation'),
+			arguments: [rule.id],
+		};
+		return item;
+	}
+
+	public dispose(): void {
+		this.emitter.dispose();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+}
+
+function groupByCategory(rules: readonly RuleDescriptor[]): RuleCategoryNode[] {
+	const groups = new Map<string, RuleDescriptor[]>();
+	for (const rule of rules) {
+		const category = rule.category || vscode.l10n.t('General');
+		const bucket = groups.get(category);
+		if (bucket) {
+			bucket.push(rule);
+		} else {
+			groups.set(category, [rule]);
+		}
+	}
+
+	return [...groups.entries()]
+		.sort(([left], [right]) => left.localeCompare(right, 'en'))
+		.map(([category, categoryRules]) => ({ kind: 'category', category, rules: categoryRules }));
+}
+
+function severityIcon(severity: RuleSeveritySetting): vscode.ThemeIcon {
+	switch (severity) {
+	case 'error':
+		return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+	case 'warn':
+		return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+	case 'info':
+		return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+	case 'off':
+	default:
+		return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+	}
+}
+
+function createTooltip(rule: RuleDescriptor, severity: RuleSeveritySetting, profile: string, overridden: boolean): vscode.MarkdownString {
+	const tooltip = new vscode.MarkdownString();
+	tooltip.appendMarkdown(`**${rule.id}** — `);
+	tooltip.appendText(rule.title);
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendText(rule.description);
+	tooltip.appendMarkdown('\n\n');
+	tooltip.appendMarkdown(vscode.l10n.t('Effective severity: `{0}`', severity));
+	tooltip.appendMarkdown('  \n');
+	tooltip.appendMarkdown(vscode.l10n.t('Profile `{0}` severity: `{1}`', profile, resolveProfileSeverity(rule, profile)));
+	if (overridden) {
+		tooltip.appendMarkdown('  \n');
+		tooltip.appendMarkdown(vscode.l10n.t('Overridden by `udonsharpLinter.rules`.'));
+	}
+	return tooltip;
+}
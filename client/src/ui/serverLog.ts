@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { readServerLaunchOptions } from '../config/settings';
+import { resolveServerLogDirectory } from '../lsp/serverProcess';
+
+const SERVER_LOG_SCHEME = 'udonsharp-log';
+const SERVER_LOG_URI = vscode.Uri.from({ scheme: SERVER_LOG_SCHEME, path: '/server.log' });
+const TAIL_BYTES = 256 * 1024;
+
+/**
+ * Shows the tail of the server's `logs/server.log` as a read-only document that
+ * follows the file while it is open.
+ */
+export class ServerLogViewer implements vscode.TextDocumentContentProvider, vscode.Disposable {
+	private readonly emitter = new vscode.EventEmitter<vscode.Uri>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private logPath = '';
+	private watcher: vscode.Disposable | undefined;
+
+	public readonly onDidChange = this.emitter.event;
+
+	constructor(private readonly extensionPath: string) {
+		this.watchLogFile();
+		this.disposables.push(
+			this.emitter,
+			vscode.workspace.registerTextDocumentContentProvider(SERVER_LOG_SCHEME, this),
+			vscode.workspace.onDidChangeTextDocument(event => {
+				if (event.document.uri.toString() === SERVER_LOG_URI.toString()) {
+					revealEnd(event.document);
+				}
+			}),
+			// A different server path or development mode writes its logs elsewhere.
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('udonsharpLinter.server')) {
+					this.watchLogFile();
+					this.emitter.fire(SERVER_LOG_URI);
+				}
+			}),
+		);
+	}
+
+	public async show(): Promise<void> {
+		const document = await vscode.languages.setTextDocumentLanguage(
+			await vscode.workspace.openTextDocument(SERVER_LOG_URI),
+			'log'
+		);
+		await vscode.window.showTextDocument(document, { preview: false });
+		revealEnd(document);
+	}
+
+	public async provideTextDocumentContent(): Promise<string> {
+		try {
+			return await readTail(this.logPath, TAIL_BYTES);
+		} catch {
+			return vscode.l10n.t('The server has not written {0} yet.', this.logPath);
+		}
+	}
+
+	public dispose(): void {
+		this.watcher?.dispose();
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private watchLogFile(): void {
+		const logDirectory = resolveServerLogDirectory(this.extensionPath, readServerLaunchOptions());
+		this.logPath = path.join(logDirectory, 'server.log');
+		this.watcher?.dispose();
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.file(logDirectory), 'server.log')
+		);
+		this.watcher = vscode.Disposable.from(
+			watcher,
+			watcher.onDidCreate(() => this.emitter.fire(SERVER_LOG_URI)),
+			watcher.onDidChange(() => this.emitter.fire(SERVER_LOG_URI)),
+		);
+	}
+}
+
+export async function readTail(filePath: string, maxBytes: number): Promise<string> {
+	const handle = await fs.promises.open(filePath, 'r');
+	try {
+		const { size } = await handle.stat();
+		const length = Math.min(size, maxBytes);
+		const buffer = Buffer.alloc(length);
+		await handle.read(buffer, 0, length, size - length);
+		const text = buffer.toString('utf8');
+		// Drop the partial first line when the file was truncated.
+		return length < size ? text.substring(text.indexOf('\n') + 1) : text;
+	} finally {
+		await handle.close();
+	}
+}
+
+function revealEnd(document: vscode.TextDocument): void {
+	for (const editor of vscode.window.visibleTextEditors) {
+		if (editor.document === document) {
+			const end = new vscode.Position(document.lineCount - 1, 0);
+			editor.revealRange(new vscode.Range(end, end), vscode.TextEditorRevealType.Default);
+		}
+	}
+}
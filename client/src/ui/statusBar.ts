@@ -1,25 +1,55 @@
 import * as vscode from 'vscode';
 import { LinterSettings, SettingsManager } from '../config/settings';
 import { ServerStatusPayload } from '../lsp/messages';
+import { BaselineManager } from '../lsp/baseline';
+import type { ServerState } from '../lsp/clientController';
+import { DIAGNOSTIC_SOURCE } from '../lsp/diagnosticCodes';
+import { UnityProject, findConfigurationChanges, suggestConfiguration } from '../config/unityProject';
 
-const STATUS_COMMAND = 'udonsharpLinter.switchProfile';
+export const STATUS_MENU_COMMAND = 'udonsharpLinter.showStatusMenu';
+const BASELINE_COMMAND = 'udonsharpLinter.baseline.toggle';
+const APPLY_DETECTED_COMMAND = 'udonsharpLinter.applyDetectedConfiguration';
+const DIAGNOSTIC_COUNT_DELAY = 250;
+
+interface StatusMenuItem extends vscode.QuickPickItem {
+	readonly command: string;
+}
 
 export class StatusBarController implements vscode.Disposable {
 	private readonly statusItem: vscode.StatusBarItem;
+	private readonly baselineItem: vscode.StatusBarItem;
 	private readonly disposables: vscode.Disposable[] = [];
 	private lastStatus: ServerStatusPayload | undefined;
+	private serverState: ServerState = { kind: 'starting' };
+	private profile: string;
+	private disabledCount = 0;
+	private totalCount: number | undefined;
+	private errorCount = 0;
+	private warningCount = 0;
+	private countTimer: NodeJS.Timeout | undefined;
+	private unityProject: UnityProject | undefined;
 
-	constructor(private readonly settings: SettingsManager) {
+	constructor(
+		private readonly settings: SettingsManager,
+		private readonly baseline: BaselineManager,
+	) {
+		this.profile = settings.settings.profile;
 		this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
-		this.statusItem.command = STATUS_COMMAND;
-		this.statusItem.tooltip = vscode.l10n.t('Switch the active UdonSharp Linter profile or review rule status.');
+		this.statusItem.command = STATUS_MENU_COMMAND;
+
+		this.baselineItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 9);
+		this.baselineItem.command = BASELINE_COMMAND;
 
 		this.disposables.push(
-			settings.onDidChange(updated => this.updateFromSettings(updated))
+			settings.onDidChange(updated => this.updateFromSettings(updated)),
+			baseline.onDidChange(() => this.updateBaseline()),
+			vscode.languages.onDidChangeDiagnostics(() => this.scheduleDiagnosticCount())
 		);
 
 		this.statusItem.show();
+		this.countDiagnostics();
 		this.updateFromSettings(settings.settings);
+		this.updateBaseline();
 	}
 
 	public updateServerStatus(status: ServerStatusPayload): void {
@@ -27,8 +57,60 @@ export class StatusBarController implements vscode.Disposable {
 		this.updateStatusBar(status.profile, status.disabledRuleCount, status.totalRuleCount);
 	}
 
+	public updateUnityProject(project: UnityProject | undefined): void {
+		this.unityProject = project;
+		this.render();
+	}
+
+	public updateServerState(state: ServerState): void {
+		this.serverState = state;
+		this.render();
+	}
+
+	public async showMenu(): Promise<void> {
+		const items: StatusMenuItem[] = [
+			{
+				label: `$(symbol-enum) ${vscode.l10n.t('Switch Profile')}`,
+				description: this.profile,
+				command: 'udonsharpLinter.switchProfile',
+			},
+			{
+				label: `$(search) ${vscode.l10n.t('Search Rules')}`,
+				command: 'udonsharpLinter.searchRules',
+			},
+			{
+				label: `$(settings-gear) ${vscode.l10n.t('Configure Rule Severity')}`,
+				command: 'udonsharpLinter.configureRuleSeverity',
+			},
+			{
+				label: `$(checklist) ${vscode.l10n.t('Lint Entire Workspace')}`,
+				command: 'udonsharpLinter.lintWorkspace',
+			},
+			{
+				label: `$(debug-restart) ${vscode.l10n.t('Restart Server')}`,
+				description: describeState(this.serverState),
+				command: 'udonsharpLinter.restartServer',
+			},
+			{
+				label: `$(output) ${vscode.l10n.t('Show Log')}`,
+				command: 'udonsharpLinter.showOutput',
+			},
+		];
+		const picked = await vscode.window.showQuickPick(items, {
+			title: vscode.l10n.t('UdonSharp Linter'),
+			placeHolder: vscode.l10n.t('Choose an action.'),
+		});
+		if (picked) {
+			await vscode.commands.executeCommand(picked.command);
+		}
+	}
+
 	public dispose(): void {
+		if (this.countTimer) {
+			clearTimeout(this.countTimer);
+		}
 		this.statusItem.dispose();
+		this.baselineItem.dispose();
 		for (const disposable of this.disposables) {
 			disposable.dispose();
 		}
@@ -41,15 +123,154 @@ export class StatusBarController implements vscode.Disposable {
 		this.updateStatusBar(currentSettings.profile, disabledCount, totalCount);
 	}
 
+	private updateBaseline(): void {
+		if (!this.baseline.hasBaseline) {
+			this.baselineItem.hide();
+			return;
+		}
+
+		if (this.baseline.isEnabled) {
+			this.baselineItem.text = `$(archive) ${vscode.l10n.t('{0} baselined', this.baseline.hiddenCount)}`;
+			this.baselineItem.tooltip = vscode.l10n.t(
+				'{0} findings are hidden by {1} baseline entries. Click to show them.',
+				this.baseline.hiddenCount,
+				this.baseline.entryCount
+			);
+		} else {
+			this.baselineItem.text = `$(eye) ${vscode.l10n.t('{0} baselined', this.baseline.entryCount)}`;
+			this.baselineItem.tooltip = vscode.l10n.t('Baselined findings are visible. Click to hide them again.');
+		}
+		this.baselineItem.show();
+	}
+
+	// onDidChangeDiagnostics fires once per published document; batch the recount.
+	private scheduleDiagnosticCount(): void {
+		if (this.countTimer) {
+			return;
+		}
+		this.countTimer = setTimeout(() => {
+			this.countTimer = undefined;
+			this.countDiagnostics();
+			this.render();
+		}, DIAGNOSTIC_COUNT_DELAY);
+	}
+
+	private countDiagnostics(): void {
+		const { errors, warnings } = countProblems(vscode.languages.getDiagnostics());
+		this.errorCount = errors;
+		this.warningCount = warnings;
+	}
+
 	private updateStatusBar(profile: string, disabledCount: number, totalCount?: number): void {
-		const totalSuffix = typeof totalCount === 'number' ? `/${totalCount}` : '';
-		const text = totalSuffix
-			? `$(shield) UdonSharp ${profile} · ${disabledCount}${totalSuffix} off`
-			: `$(shield) UdonSharp ${profile} · ${disabledCount} off`;
-		this.statusItem.text = text;
+		this.profile = profile;
+		this.disabledCount = disabledCount;
+		this.totalCount = totalCount;
+		this.render();
 	}
-	
+
+	private render(): void {
+		const counts = `$(error) ${this.errorCount} $(warning) ${this.warningCount}`;
+		this.statusItem.text = `${stateIcon(this.serverState)} UdonSharp ${this.profile} · ${counts}`;
+		this.statusItem.backgroundColor = this.serverState.kind === 'crashed'
+			? new vscode.ThemeColor('statusBarItem.errorBackground')
+			: this.serverState.kind === 'stopped'
+				? new vscode.ThemeColor('statusBarItem.warningBackground')
+				: undefined;
+		this.statusItem.tooltip = this.createTooltip();
+	}
+
+	private createTooltip(): vscode.MarkdownString {
+		const disabled = typeof this.totalCount === 'number'
+			? `${this.disabledCount}/${this.totalCount}`
+			: String(this.disabledCount);
+		const tooltip = new vscode.MarkdownString(undefined, true);
+		tooltip.isTrusted = { enabledCommands: [STATUS_MENU_COMMAND, 'udonsharpLinter.restartServer', 'udonsharpLinter.showOutput', APPLY_DETECTED_COMMAND] };
+		tooltip.appendMarkdown(`**${vscode.l10n.t('UdonSharp Linter')}**\n\n`);
+		tooltip.appendMarkdown(`| | |\n|---|---|\n`);
+		tooltip.appendMarkdown(`| ${vscode.l10n.t('Server')} | ${describeState(this.serverState)} |\n`);
+		tooltip.appendMarkdown(`| ${vscode.l10n.t('Server version')} | ${this.lastStatus?.serverVersion ?? vscode.l10n.t('unknown')} |\n`);
+		tooltip.appendMarkdown(`| ${vscode.l10n.t('Profile')} | \`${this.profile}\` |\n`);
+		tooltip.appendMarkdown(`| ${vscode.l10n.t('Rules off')} | ${disabled} |\n`);
+		tooltip.appendMarkdown(`| ${vscode.l10n.t('Problems')} | ${vscode.l10n.t('{0} errors, {1} warnings', this.errorCount, this.warningCount)} |\n`);
+		const project = this.unityProject;
+		if (project) {
+			tooltip.appendMarkdown(`| ${vscode.l10n.t('Unity')} | ${project.unityVersion ?? vscode.l10n.t('unknown')} |\n`);
+			tooltip.appendMarkdown(`| ${vscode.l10n.t('VRChat Worlds SDK')} | ${project.worldsSdkVersion ?? vscode.l10n.t('not installed')} |\n`);
+			tooltip.appendMarkdown(`| ${vscode.l10n.t('UdonSharp')} | ${project.udonSharp ? describeUdonSharp(project) : vscode.l10n.t('not installed')} |\n`);
+		}
+		tooltip.appendMarkdown('\n');
+		if (project && findConfigurationChanges(suggestConfiguration(project), this.settings.settings).length > 0) {
+			tooltip.appendMarkdown(`$(lightbulb) [${vscode.l10n.t('Apply detected configuration')}](command:${APPLY_DETECTED_COMMAND})\n\n`);
+		}
+		tooltip.appendMarkdown(`[$(list-flat) ${vscode.l10n.t('Actions')}](command:${STATUS_MENU_COMMAND})`);
+		tooltip.appendMarkdown(` · [$(debug-restart) ${vscode.l10n.t('Restart Server')}](command:udonsharpLinter.restartServer)`);
+		tooltip.appendMarkdown(` · [$(output) ${vscode.l10n.t('Show Log')}](command:udonsharpLinter.showOutput)`);
+		return tooltip;
+	}
+
 	public refreshFromSettings(): void {
 		this.updateFromSettings(this.settings.settings);
 	}
 }
+
+/** Errors and warnings the linter published; other sources and lower severities are left out. */
+export function countProblems(entries: readonly [vscode.Uri, readonly vscode.Diagnostic[]][]): { errors: number; warnings: number } {
+	let errors = 0;
+	let warnings = 0;
+	for (const [, diagnostics] of entries) {
+		for (const diagnostic of diagnostics) {
+			if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+				continue;
+			}
+			if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+				errors += 1;
+			} else if (diagnostic.severity === vscode.DiagnosticSeverity.Warning) {
+				warnings += 1;
+			}
+		}
+	}
+	return { errors, warnings };
+}
+
+function describeUdonSharp(project: UnityProject): string {
+	const udonSharp = project.udonSharp;
+	if (!udonSharp) {
+		return '';
+	}
+	return udonSharp.source === 'worldsSdk'
+		? vscode.l10n.t('bundled with Worlds SDK {0}', udonSharp.version)
+		: udonSharp.version;
+}
+
+function stateIcon(state: ServerState): string {
+	switch (state.kind) {
+	case 'running':
+		return '$(shield)';
+	case 'starting':
+	case 'restarting':
+		return '$(loading~spin)';
+	case 'crashed':
+		return '$(debug-disconnect)';
+	case 'stopped':
+	default:
+		return '$(circle-slash)';
+	}
+}
+
+export function describeState(state: ServerState): string {
+	switch (state.kind) {
+	case 'running':
+		return vscode.l10n.t('Running');
+	case 'starting':
+		return vscode.l10n.t('Starting');
+	case 'restarting':
+		return state.attempt
+			? vscode.l10n.t('Restarting (attempt {0} of {1})', state.attempt, state.maxAttempts ?? state.attempt)
+			: vscode.l10n.t('Restarting');
+	case 'crashed':
+		return vscode.l10n.t('Crashed');
+	case 'stopped':
+	default:
+		return vscode.l10n.t('Stopped');
+	}
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { findShadowedRuleOverrides, getRuleOverrideTarget, updateRuleOverride } from '../config/ruleSeverity';
+import { SettingsManager } from '../config/settings';
+import { getRuleId } from '../lsp/diagnosticCodes';
+
+export const DISABLE_RULE_COMMAND = 'udonsharpLinter.disableRuleInWorkspace';
+
+export class SuppressionCodeActionProvider implements vscode.CodeActionProvider {
+	public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	constructor(private readonly settings: SettingsManager) {}
+
+	public provideCodeActions(
+		document: vscode.TextDocument,
+		_range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext
+	): vscode.CodeAction[] {
+		if (!this.settings.settings.codeActionsEnabled) {
+			return [];
+		}
+
+		const actions: vscode.CodeAction[] = [];
+		const seenRules = new Set<string>();
+		for (const diagnostic of context.diagnostics) {
+			const ruleId = getRuleId(diagnostic);
+			if (!ruleId) {
+				continue;
+			}
+
+			actions.push(createLineSuppression(document, diagnostic, ruleId));
+			if (seenRules.has(ruleId)) {
+				continue;
+			}
+			seenRules.add(ruleId);
+			actions.push(
+				createFileSuppression(document, diagnostic, ruleId),
+				createWorkspaceSuppression(diagnostic, ruleId),
+			);
+		}
+		return actions;
+	}
+}
+
+function createLineSuppression(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, ruleId: string): vscode.CodeAction {
+	const action = new vscode.CodeAction(
+		vscode.l10n.t('Suppress {0} on this line', ruleId),
+		vscode.CodeActionKind.QuickFix
+	);
+	action.diagnostics = [diagnostic];
+
+	const startLine = document.lineAt(diagnostic.range.start.line);
+	const endLine = document.lineAt(diagnostic.range.end.line);
+	const indentation = startLine.text.substring(0, startLine.firstNonWhitespaceCharacterIndex);
+	const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+	const edit = new vscode.WorkspaceEdit();
+	edit.insert(document.uri, startLine.range.start, `${indentation}#pragma warning disable ${ruleId}${eol}`);
+	edit.insert(document.uri, endLine.range.end, `${eol}${indentation}#pragma warning restore ${ruleId}`);
+	action.edit = edit;
+	return action;
+}
+
+function createFileSuppression(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, ruleId: string): vscode.CodeAction {
+	const action = new vscode.CodeAction(
+		vscode.l10n.t('Suppress {0} in this file', ruleId),
+		vscode.CodeActionKind.QuickFix
+	);
+	action.diagnostics = [diagnostic];
+
+	const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+	const edit = new vscode.WorkspaceEdit();
+	edit.insert(document.uri, new vscode.Position(0, 0), `#pragma warning disable ${ruleId}${eol}`);
+	action.edit = edit;
+	return action;
+}
+
+function createWorkspaceSuppression(diagnostic: vscode.Diagnostic, ruleId: string): vscode.CodeAction {
+	const action = new vscode.CodeAction(
+		vscode.l10n.t('Disable {0} in workspace settings', ruleId),
+		vscode.CodeActionKind.QuickFix
+	);
+	action.diagnostics = [diagnostic];
+	action.command = {
+		command: DISABLE_RULE_COMMAND,
+		title: action.title,
+		arguments: [ruleId],
+	};
+	return action;
+}
+
+/**
+ * Runs the "Disable in workspace settings" quick fix. Warns when a higher-precedence scope,
+ * such as workspace folder settings, sets the rule, since the write then changes nothing.
+ */
+export async function disableRuleInWorkspace(ruleId: string, settings: SettingsManager): Promise<void> {
+	const [shadowed] = findShadowedRuleOverrides([ruleId], getRuleOverrideTarget(), settings.sources);
+	try {
+		await updateRuleOverride(ruleId, 'off');
+	} catch (error) {
+		await vscode.window.showErrorMessage(
+			vscode.l10n.t('UdonSharp Linter could not update the severity of {0}. {1}', ruleId, String(error))
+		);
+		return;
+	}
+	if (shadowed) {
+		await vscode.window.showWarningMessage(
+			vscode.l10n.t('{0} was turned off, but its entry in {1} settings takes precedence, so it is still reported.', ruleId, shadowed.source)
+		);
+	}
+}
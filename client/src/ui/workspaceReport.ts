@@ -0,0 +1,160 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { RuleRepository } from '../lsp/ruleRepository';
+import { WorkspaceAnalysisResult } from '../lsp/workspaceAnalysis';
+import { escapeHtml } from './html';
+
+interface SummaryRow {
+	readonly label: string;
+	readonly detail?: string;
+	count: number;
+}
+
+export class WorkspaceReportPanel implements vscode.Disposable {
+	private panel: vscode.WebviewPanel | undefined;
+
+	constructor(private readonly ruleRepository: RuleRepository) {}
+
+	public show(result: WorkspaceAnalysisResult): void {
+		if (!this.panel) {
+			this.panel = vscode.window.createWebviewPanel(
+				'udonsharpLinter.workspaceReport',
+				vscode.l10n.t('UdonSharp Workspace Report'),
+				vscode.ViewColumn.Active,
+				{
+					enableScripts: false,
+					localResourceRoots: [],
+				}
+			);
+			this.panel.onDidDispose(() => {
+				this.panel = undefined;
+			});
+		}
+
+		this.panel.webview.html = this.render(result);
+		this.panel.reveal();
+	}
+
+	public dispose(): void {
+		this.panel?.dispose();
+		this.panel = undefined;
+	}
+
+	private render(result: WorkspaceAnalysisResult): string {
+		const byRule = new Map<string, SummaryRow>();
+		const byCategory = new Map<string, SummaryRow>();
+		const byFolder = new Map<string, SummaryRow>();
+		const severityCounts = { error: 0, warning: 0, information: 0 };
+		let total = 0;
+
+		for (const file of result.files) {
+			const folder = toWorkspaceFolderLabel(file.uri);
+			for (const diagnostic of file.diagnostics) {
+				// Rules set to `off` are still published, as hints.
+				if (diagnostic.severity === DiagnosticSeverity.Hint) {
+					continue;
+				}
+				const ruleId = String(diagnostic.code ?? '');
+				const rule = this.ruleRepository.rules.find(candidate => candidate.id === ruleId);
+				total += 1;
+				switch (diagnostic.severity) {
+				case DiagnosticSeverity.Error:
+					severityCounts.error += 1;
+					break;
+				case DiagnosticSeverity.Warning:
+					severityCounts.warning += 1;
+					break;
+				default:
+					severityCounts.information += 1;
+					break;
+				}
+				increment(byRule, ruleId, rule?.title);
+				increment(byCategory, rule?.category ?? vscode.l10n.t('Uncategorised'));
+				increment(byFolder, folder);
+			}
+		}
+
+		const summary = result.cancelled
+			? vscode.l10n.t('Analysis cancelled after {0} of {1} files.', result.analyzedFileCount, result.totalFileCount)
+			: vscode.l10n.t('Analyzed {0} files.', result.analyzedFileCount);
+
+		return `<!DOCTYPE html>
+<html lang="${escapeHtml(vscode.env.language)}">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>${escapeHtml(vscode.l10n.t('UdonSharp Workspace Report'))}</title>
+	<style>
+		body {
+			font-family: var(--vscode-font-family);
+			color: var(--vscode-editor-foreground);
+			background-color: var(--vscode-editor-background);
+			padding: 16px;
+			line-height: 1.5;
+		}
+		table {
+			border-collapse: collapse;
+			margin-bottom: 1.5rem;
+			min-width: 50%;
+		}
+		th, td {
+			text-align: left;
+			padding: 0.25rem 0.75rem;
+			border-bottom: 1px solid var(--vscode-panel-border, rgba(125,125,125,0.3));
+		}
+		td.count {
+			text-align: right;
+			font-variant-numeric: tabular-nums;
+		}
+	</style>
+</head>
+<body>
+	<h1>${escapeHtml(vscode.l10n.t('UdonSharp Workspace Report'))}</h1>
+	<p>${escapeHtml(summary)}</p>
+	<p>${escapeHtml(vscode.l10n.t('{0} findings: {1} errors, {2} warnings, {3} information.', total, severityCounts.error, severityCounts.warning, severityCounts.information))}</p>
+	${renderTable(vscode.l10n.t('By rule'), vscode.l10n.t('Rule'), byRule)}
+	${renderTable(vscode.l10n.t('By category'), vscode.l10n.t('Category'), byCategory)}
+	${renderTable(vscode.l10n.t('By folder'), vscode.l10n.t('Folder'), byFolder)}
+</body>
+</html>`;
+	}
+}
+
+function increment(rows: Map<string, SummaryRow>, label: string, detail?: string): void {
+	const existing = rows.get(label);
+	if (existing) {
+		existing.count += 1;
+	} else {
+		rows.set(label, { label, detail, count: 1 });
+	}
+}
+
+function renderTable(heading: string, column: string, rows: Map<string, SummaryRow>): string {
+	if (rows.size === 0) {
+		return '';
+	}
+
+	const body = [...rows.values()]
+		.sort((left, right) => right.count - left.count || left.label.localeCompare(right.label, 'en'))
+		.map(row => {
+			const label = row.detail ? `${row.label} — ${row.detail}` : row.label;
+			return `<tr><td>${escapeHtml(label)}</td><td class="count">${row.count}</td></tr>`;
+		})
+		.join('\n');
+
+	return `<h2>${escapeHtml(heading)}</h2>
+	<table>
+		<thead><tr><th>${escapeHtml(column)}</th><th>${escapeHtml(vscode.l10n.t('Count'))}</th></tr></thead>
+		<tbody>
+${body}
+		</tbody>
+	</table>`;
+}
+
+function toWorkspaceFolderLabel(uri: string): string {
+	const relative = vscode.workspace.asRelativePath(vscode.Uri.parse(uri), true);
+	const folder = path.posix.dirname(relative.replace(/\\/g, '/'));
+	return folder === '.' ? '/' : folder;
+}
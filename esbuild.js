@@ -24,29 +24,44 @@ const esbuildProblemMatcherPlugin = {
 };
 
 async function main() {
-	const ctx = await esbuild.context({
-		entryPoints: [
-			'client/src/extension.ts'
-		],
+	const sharedOptions = {
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
-	});
+	};
+	const contexts = await Promise.all([
+		esbuild.context({
+			...sharedOptions,
+			entryPoints: [
+				'client/src/extension.ts'
+			],
+			outfile: 'dist/extension.js',
+			external: ['vscode'],
+		}),
+		esbuild.context({
+			...sharedOptions,
+			entryPoints: [
+				'client/src/cli/udonsharpLint.ts'
+			],
+			outfile: 'dist/cli.js',
+			banner: { js: '#!/usr/bin/env node' },
+		}),
+	]);
 	if (watch) {
-		await ctx.watch();
+		await Promise.all(contexts.map(ctx => ctx.watch()));
 	} else {
-		await ctx.rebuild();
-		await ctx.dispose();
+		for (const ctx of contexts) {
+			await ctx.rebuild();
+			await ctx.dispose();
+		}
 	}
 }
 
@@ -1,4 +1,5 @@
 using System.Collections.Generic;
+using System.Linq;
 
 namespace UdonSharpLsp.Server.Configuration;
 
@@ -10,7 +11,8 @@ public sealed record LinterSettings(
     bool AllowRefOut,
     bool CodeActionsEnabled,
     string Telemetry,
-    IReadOnlyList<string> PolicyPackPaths
+    IReadOnlyList<string> PolicyPackPaths,
+    IReadOnlyList<RuleOverrideBlock> Overrides
 )
 {
     public static LinterSettings Default { get; } = new(
@@ -21,6 +23,39 @@ public sealed record LinterSettings(
         AllowRefOut: false,
         CodeActionsEnabled: true,
         Telemetry: "minimal",
-        PolicyPackPaths: Array.Empty<string>()
+        PolicyPackPaths: Array.Empty<string>(),
+        Overrides: Array.Empty<RuleOverrideBlock>()
     );
+
+    /// <summary>
+    /// Settings for the document at <paramref name="documentPath"/>, relative to the workspace root
+    /// when it lies inside it. Matching override blocks apply in order, so a later block wins over
+    /// an earlier one; a block's <c>rules</c> win over the global ones, and its <c>profile</c>
+    /// replaces the global profile.
+    /// </summary>
+    public LinterSettings ForDocument(string documentPath)
+    {
+        var matching = Overrides.Where(block => block.Matches(documentPath)).ToList();
+        if (matching.Count == 0)
+        {
+            return this;
+        }
+
+        var profile = Profile;
+        var ruleOverrides = new Dictionary<string, string>(RuleOverrides);
+        foreach (var block in matching)
+        {
+            if (!string.IsNullOrEmpty(block.Profile))
+            {
+                profile = block.Profile;
+            }
+
+            foreach (var (ruleId, severity) in block.Rules)
+            {
+                ruleOverrides[ruleId] = severity;
+            }
+        }
+
+        return this with { Profile = profile, RuleOverrides = ruleOverrides };
+    }
 }
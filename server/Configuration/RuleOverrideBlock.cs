@@ -0,0 +1,123 @@
+using System.Collections.Generic;
+using System.Linq;
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace UdonSharpLsp.Server.Configuration;
+
+/// <summary>
+/// One entry of <c>udonsharpLinter.overrides</c>: a profile and rule severities that apply to
+/// documents whose workspace-relative path matches any of <see cref="Files"/>. Globs outside
+/// the supported dialect (see <see cref="IsSupportedGlob"/>) never match.
+/// </summary>
+public sealed record RuleOverrideBlock(
+    IReadOnlyList<string> Files,
+    string? Profile,
+    IReadOnlyDictionary<string, string> Rules
+)
+{
+    private readonly Regex[] _patterns = Files.Where(IsSupportedGlob).Select(ToRegex).ToArray();
+
+    public bool Matches(string documentPath)
+    {
+        return _patterns.Any(pattern => pattern.IsMatch(documentPath));
+    }
+
+    /// <summary>
+    /// Whether <paramref name="glob"/> stays within the dialect both the client and the server
+    /// match the same way: <c>**</c> as a whole path segment, <c>*</c>, <c>?</c>, and
+    /// <c>{a,b}</c> alternatives that are not nested. Character classes, extended globs,
+    /// negation and comments are rejected, as the client's validation does.
+    /// </summary>
+    public static bool IsSupportedGlob(string glob)
+    {
+        var pattern = glob.Trim().Replace('\\', '/');
+        if (pattern.Length == 0 || pattern[0] is '!' or '#')
+        {
+            return false;
+        }
+
+        var inBraces = false;
+        var hasAlternative = false;
+        for (var index = 0; index < pattern.Length; index++)
+        {
+            var current = pattern[index];
+            switch (current)
+            {
+                case '[' or ']':
+                    return false;
+                case '(' when index > 0 && pattern[index - 1] is '?' or '*' or '+' or '@' or '!':
+                    return false;
+                case '*' when index + 1 < pattern.Length && pattern[index + 1] == '*':
+                    var startsSegment = index == 0 || pattern[index - 1] == '/';
+                    var endsSegment = index + 2 == pattern.Length || pattern[index + 2] == '/';
+                    if (!startsSegment || !endsSegment)
+                    {
+                        return false;
+                    }
+
+                    index++;
+                    break;
+                case '{' when inBraces:
+                    return false;
+                case '{':
+                    inBraces = true;
+                    hasAlternative = false;
+                    break;
+                case '}' when !inBraces || !hasAlternative:
+                    return false;
+                case '}':
+                    inBraces = false;
+                    break;
+                case ',' when inBraces:
+                    hasAlternative = true;
+                    break;
+            }
+        }
+
+        return !inBraces;
+    }
+
+    // Paths use forward slashes, and `\` in a glob is a separator rather than an escape.
+    private static Regex ToRegex(string glob)
+    {
+        var pattern = glob.Trim().Replace('\\', '/');
+        var builder = new StringBuilder("^");
+        var inBraces = false;
+        for (var index = 0; index < pattern.Length; index++)
+        {
+            var current = pattern[index];
+            switch (current)
+            {
+                case '*' when index + 1 < pattern.Length && pattern[index + 1] == '*':
+                    var followedBySlash = index + 2 < pattern.Length && pattern[index + 2] == '/';
+                    builder.Append(followedBySlash ? "(?:.*/)?" : ".*");
+                    index += followedBySlash ? 2 : 1;
+                    break;
+                case '*':
+                    builder.Append("[^/]*");
+                    break;
+                case '?':
+                    builder.Append("[^/]");
+                    break;
+                case '{':
+                    inBraces = true;
+                    builder.Append("(?:");
+                    break;
+                case '}':
+                    inBraces = false;
+                    builder.Append(')');
+                    break;
+                case ',' when inBraces:
+                    builder.Append('|');
+                    break;
+                default:
+                    builder.Append(Regex.Escape(current.ToString()));
+                    break;
+            }
+        }
+
+        builder.Append('$');
+        return new Regex(builder.ToString(), RegexOptions.CultureInvariant);
+    }
+}
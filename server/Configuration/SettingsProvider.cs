@@ -1,4 +1,7 @@
+using System;
 using System.Collections.Generic;
+using System.IO;
+using System.Linq;
 using System.Text.Json;
 
 namespace UdonSharpLsp.Server.Configuration;
@@ -9,6 +12,35 @@ public sealed class SettingsProvider
 
     public LinterSettings Current => _settings;
 
+    /// <summary>
+    /// First workspace folder from <c>initialize</c>; override globs are relative to it,
+    /// the same folder the client reads its settings from. The client rebases globs from a
+    /// project config file in a sub-folder onto it before sending them.
+    /// </summary>
+    public string? WorkspaceRoot { get; set; }
+
+    /// <summary>Current settings with the override blocks that match <paramref name="documentUri"/> applied.</summary>
+    public LinterSettings ForDocument(Uri documentUri)
+    {
+        var settings = _settings;
+        if (settings.Overrides.Count == 0 || !documentUri.IsFile)
+        {
+            return settings;
+        }
+
+        var path = documentUri.LocalPath;
+        if (!string.IsNullOrEmpty(WorkspaceRoot))
+        {
+            var relative = Path.GetRelativePath(WorkspaceRoot, path);
+            if (!relative.StartsWith("..", StringComparison.Ordinal) && !Path.IsPathRooted(relative))
+            {
+                path = relative;
+            }
+        }
+
+        return settings.ForDocument(path.Replace('\\', '/'));
+    }
+
     public void Update(JsonElement element)
     {
         if (element.ValueKind == JsonValueKind.Object)
@@ -43,6 +75,10 @@ public sealed class SettingsProvider
                 ? policyPackElement.Deserialize<List<string>>() ?? new List<string>()
                 : new List<string>();
 
+            var overrides = element.TryGetProperty("overrides", out var overridesElement) && overridesElement.ValueKind == JsonValueKind.Array
+                ? overridesElement.EnumerateArray().Select(DeserializeOverride).OfType<RuleOverrideBlock>().ToList()
+                : new List<RuleOverrideBlock>();
+
             return new LinterSettings(
                 profile,
                 ruleOverrides,
@@ -51,7 +87,8 @@ public sealed class SettingsProvider
                 allowRefOut,
                 codeActionsEnabled,
                 telemetry,
-                policyPackPaths
+                policyPackPaths,
+                overrides
             );
         }
         catch
@@ -59,6 +96,36 @@ public sealed class SettingsProvider
             return null;
         }
     }
+
+    // The client already sanitizes blocks; anything without file globs is skipped here as well.
+    private static RuleOverrideBlock? DeserializeOverride(JsonElement element)
+    {
+        if (element.ValueKind != JsonValueKind.Object
+            || !element.TryGetProperty("files", out var filesElement)
+            || filesElement.ValueKind != JsonValueKind.Array)
+        {
+            return null;
+        }
+
+        var files = filesElement.EnumerateArray()
+            .Where(entry => entry.ValueKind == JsonValueKind.String)
+            .Select(entry => entry.GetString() ?? string.Empty)
+            .Where(entry => entry.Length > 0)
+            .ToList();
+        if (files.Count == 0)
+        {
+            return null;
+        }
+
+        var profile = element.TryGetProperty("profile", out var profileElement) && profileElement.ValueKind == JsonValueKind.String
+            ? profileElement.GetString()
+            : null;
+        var rules = element.TryGetProperty("rules", out var rulesElement) && rulesElement.ValueKind == JsonValueKind.Object
+            ? rulesElement.Deserialize<Dictionary<string, string>>() ?? new Dictionary<string, string>()
+            : new Dictionary<string, string>();
+
+        return new RuleOverrideBlock(files, profile, rules);
+    }
 }
 
 internal static class JsonElementExtensions
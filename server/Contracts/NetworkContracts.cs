@@ -0,0 +1,69 @@
+using MediatR;
+using OmniSharp.Extensions.JsonRpc;
+using OmniSharp.Extensions.LanguageServer.Protocol.Models;
+
+namespace UdonSharpLsp.Server.Contracts;
+
+public sealed record NetworkBehavioursRequest : IRequest<NetworkBehavioursResponse>, IJsonRpcRequest
+{
+    public string Method => "udonsharp/network/behaviours";
+    public required string[] Uris { get; init; }
+}
+
+public sealed record NetworkBehavioursResponse(
+    NetworkBehaviourModel[] Behaviours
+);
+
+/// <summary>
+/// The networking surface of one UdonSharpBehaviour. <see cref="SyncMode"/> is the
+/// <c>BehaviourSyncMode</c> member name, or null when the class has no attribute.
+/// </summary>
+public sealed record NetworkBehaviourModel(
+    string Name,
+    string FullName,
+    SymbolLocation Location,
+    string? SyncMode,
+    SyncedFieldModel[] SyncedFields,
+    NetworkMethodModel[] NetworkMethods,
+    EventCallModel[] EventCalls
+);
+
+/// <summary>A <c>[UdonSynced]</c> field; <see cref="SyncMode"/> is null when the attribute names no <c>UdonSyncMode</c>.</summary>
+public sealed record SyncedFieldModel(
+    string Name,
+    string Type,
+    string? SyncMode,
+    SymbolLocation Location
+);
+
+/// <summary>A method marked <c>[NetworkCallable]</c> or targeted by a network event somewhere in the batch.</summary>
+public sealed record NetworkMethodModel(
+    string Name,
+    string[] ParameterTypes,
+    bool HasNetworkCallableAttribute,
+    SymbolLocation Location
+);
+
+/// <summary>
+/// A <c>SendCustomEvent</c> or <c>SendCustomNetworkEvent</c> call site. <see cref="Target"/>
+/// is null when the event name or the receiving behaviour could not be resolved.
+/// </summary>
+public sealed record EventCallModel(
+    string Method,
+    bool IsNetworkEvent,
+    string EventName,
+    string? NetworkTarget,
+    SymbolLocation Location,
+    EventTargetModel? Target
+);
+
+public sealed record EventTargetModel(
+    string Behaviour,
+    string Method,
+    SymbolLocation Location
+);
+
+public sealed record SymbolLocation(
+    string Uri,
+    Range Range
+);
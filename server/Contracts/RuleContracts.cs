@@ -13,7 +13,8 @@ public sealed record RuleDescriptorDto(
     string Description,
     string? HelpLink,
     bool HasCodeFix,
-    Dictionary<string, DiagnosticSeverity>? ProfileSeverity
+    Dictionary<string, DiagnosticSeverity>? ProfileSeverity,
+    DiagnosticSeverity BaseSeverity
 );
 
 public sealed record ListRulesRequest : IRequest<RuleDescriptorDto[]>, IJsonRpcRequest
@@ -28,11 +29,30 @@ public sealed record RuleDocumentationRequest : IRequest<RuleDocumentationRespon
     public required string Locale { get; init; }
 }
 
+/// <summary>
+/// <see cref="Found"/> is false when the rule is unknown or has no documentation in any
+/// locale of the fallback chain, so the client can fall back to the rule's help link.
+/// </summary>
 public sealed record RuleDocumentationResponse(
     string Id,
     string Locale,
     string Title,
-    string Markdown
+    string Markdown,
+    bool Found
+);
+
+public sealed record ReloadRulesRequest : IRequest<ReloadRulesResponse>, IJsonRpcRequest
+{
+    public string Method => "udonsharp/rules/reload";
+}
+
+public sealed record ReloadRulesResponse(
+    int RuleCount
+);
+
+public sealed record RulesDidChangeNotification(
+    string Reason,
+    int RuleCount
 );
 
 public sealed record ServerStatusRequest : IRequest<ServerStatusResponse>, IJsonRpcRequest
@@ -46,3 +66,18 @@ public sealed record ServerStatusResponse(
     int TotalRuleCount,
     string ServerVersion
 );
+
+public sealed record AnalyzeWorkspaceFilesRequest : IRequest<AnalyzeWorkspaceFilesResponse>, IJsonRpcRequest
+{
+    public string Method => "udonsharp/workspace/analyzeFiles";
+    public required string[] Uris { get; init; }
+}
+
+public sealed record AnalyzeWorkspaceFilesResponse(
+    WorkspaceFileDiagnostics[] Files
+);
+
+public sealed record WorkspaceFileDiagnostics(
+    string Uri,
+    Diagnostic[] Diagnostics
+);
@@ -618,7 +618,8 @@ public sealed class UshNetworkEventAnalyzer : DiagnosticAnalyzer
         }
     }
 
-    private static bool TryIdentifyEventInvocation(
+    // Also used by NetworkModelService, so the network explorer resolves targets the same way.
+    internal static bool TryIdentifyEventInvocation(
         InvocationExpressionSyntax invocation,
         SemanticModel semanticModel,
         CancellationToken cancellationToken,
@@ -689,7 +690,7 @@ public sealed class UshNetworkEventAnalyzer : DiagnosticAnalyzer
         return expressionType as INamedTypeSymbol;
     }
 
-    private static INamedTypeSymbol? DetermineTargetBehaviour(
+    internal static INamedTypeSymbol? DetermineTargetBehaviour(
         InvocationExpressionSyntax invocation,
         IMethodSymbol? methodSymbol,
         IMethodSymbol? resolvedMethodSymbol,
@@ -14,10 +14,12 @@ namespace UdonSharpLsp.Server.Handlers;
 public sealed class ConfigurationChangeHandler : DidChangeConfigurationHandlerBase
 {
     private readonly LinterConfigurationService _configurationService;
+    private readonly RuleCatalogNotifier _notifier;
 
-    public ConfigurationChangeHandler(LinterConfigurationService configurationService)
+    public ConfigurationChangeHandler(LinterConfigurationService configurationService, RuleCatalogNotifier notifier)
     {
         _configurationService = configurationService;
+        _notifier = notifier;
     }
 
     public override async Task<Unit> Handle(DidChangeConfigurationParams request, CancellationToken cancellationToken)
@@ -27,7 +29,8 @@ public sealed class ConfigurationChangeHandler : DidChangeConfigurationHandlerBa
             try
             {
                 var settings = Deserialize(linterSettingsElement);
-                await _configurationService.ApplyAsync(settings, cancellationToken).ConfigureAwait(false);
+                var ruleCount = await _configurationService.ApplyAsync(settings, cancellationToken).ConfigureAwait(false);
+                _notifier.NotifyChanged("configuration", ruleCount);
             }
             finally
             {
@@ -0,0 +1,54 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using MediatR;
+using Microsoft.Extensions.Logging;
+using OmniSharp.Extensions.JsonRpc;
+using UdonSharpLsp.Server.Contracts;
+using UdonSharpLsp.Server.Services;
+using UdonSharpLsp.Server.Workspace;
+
+namespace UdonSharpLsp.Server.Handlers;
+
+/// <summary>
+/// Returns the networking model of every UdonSharpBehaviour in the given files. Like
+/// <see cref="WorkspaceAnalysisHandler"/>, files the client has not opened are added to
+/// the workspace for the duration of the request through <see cref="TransientDocumentScope"/>
+/// so cross-behaviour targets resolve.
+/// </summary>
+[Method("udonsharp/network/behaviours")]
+public sealed class NetworkBehavioursHandler :
+    IJsonRpcRequestHandler<NetworkBehavioursRequest, NetworkBehavioursResponse>,
+    IRequestHandler<NetworkBehavioursRequest, NetworkBehavioursResponse>
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly NetworkModelService _networkModelService;
+    private readonly ILogger<NetworkBehavioursHandler> _logger;
+
+    public NetworkBehavioursHandler(
+        WorkspaceManager workspaceManager,
+        NetworkModelService networkModelService,
+        ILogger<NetworkBehavioursHandler> logger)
+    {
+        _workspaceManager = workspaceManager;
+        _networkModelService = networkModelService;
+        _logger = logger;
+    }
+
+    public async Task<NetworkBehavioursResponse> Handle(NetworkBehavioursRequest request, CancellationToken cancellationToken)
+    {
+        using var documents = await TransientDocumentScope.OpenAsync(_workspaceManager, request.Uris, _logger, cancellationToken).ConfigureAwait(false);
+
+        var project = _workspaceManager.CurrentProject;
+        if (project is null)
+        {
+            return new NetworkBehavioursResponse(Array.Empty<NetworkBehaviourModel>());
+        }
+
+        var filePaths = new HashSet<string>(documents.Documents.Select(uri => uri.LocalPath), StringComparer.Ordinal);
+        var behaviours = await _networkModelService.BuildAsync(project, filePaths, cancellationToken).ConfigureAwait(false);
+        return new NetworkBehavioursResponse(behaviours);
+    }
+}
@@ -25,10 +25,12 @@ public sealed class RuleDocumentationHandler :
         var rule = _policyRepository.GetRule(request.RuleId);
         if (rule is null)
         {
-            return Task.FromResult(new RuleDocumentationResponse(request.RuleId, locale, request.RuleId, "Documentation not available."));
+            return Task.FromResult(new RuleDocumentationResponse(request.RuleId, locale, request.RuleId, string.Empty, Found: false));
         }
 
-        var markdown = rule.GetDocumentation(locale) ?? rule.GetDocumentation("en-US") ?? "Documentation not available.";
-        return Task.FromResult(new RuleDocumentationResponse(rule.Id, locale, rule.Title, markdown));
+        // The response carries the locale that was found so the client can cache it under the right key.
+        return rule.TryGetDocumentation(locale, out var resolvedLocale, out var markdown)
+            ? Task.FromResult(new RuleDocumentationResponse(rule.Id, resolvedLocale, rule.Title, markdown, Found: true))
+            : Task.FromResult(new RuleDocumentationResponse(rule.Id, locale, rule.Title, string.Empty, Found: false));
     }
 }
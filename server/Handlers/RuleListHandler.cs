@@ -17,6 +17,9 @@ public sealed class RuleListHandler :
     IJsonRpcRequestHandler<ListRulesRequest, RuleDescriptorDto[]>,
     IRequestHandler<ListRulesRequest, RuleDescriptorDto[]>
 {
+    // Severities are reported as the packs define them; the client layers `rules` on top.
+    private static readonly IReadOnlyDictionary<string, string> NoOverrides = new Dictionary<string, string>();
+
     private readonly PolicyRepository _policyRepository;
     private readonly SettingsProvider _settingsProvider;
 
@@ -34,14 +37,15 @@ public sealed class RuleListHandler :
                 rule.Id,
                 rule.Title,
                 rule.Category,
-                ToLspSeverity(rule.GetSeverity(settings.Profile, settings.RuleOverrides)),
+                ToLspSeverity(rule.GetSeverity(settings.Profile, NoOverrides)),
                 rule.Message,
                 rule.HelpUri,
                 rule.HasCodeFix,
                 rule.ProfileSeverities?.ToDictionary(
                     entry => entry.Key,
-                    entry => ToLspSeverity(rule.GetSeverity(entry.Key, settings.RuleOverrides)),
-                    StringComparer.OrdinalIgnoreCase)
+                    entry => ToLspSeverity(rule.GetSeverity(entry.Key, NoOverrides)),
+                    StringComparer.OrdinalIgnoreCase),
+                ToLspSeverity(GetBaseSeverity(rule))
             ))
             .OrderBy(rule => rule.Id)
             .ToArray();
@@ -49,6 +53,12 @@ public sealed class RuleListHandler :
         return Task.FromResult(result);
     }
 
+    // Severity for profiles the rule has no entry for: the pack default.
+    private static Microsoft.CodeAnalysis.DiagnosticSeverity GetBaseSeverity(PolicyRuleDefinition rule)
+    {
+        return rule.GetSeverity(string.Empty, NoOverrides);
+    }
+
     private static DiagnosticSeverity ToLspSeverity(Microsoft.CodeAnalysis.DiagnosticSeverity severity)
     {
         return severity switch
@@ -0,0 +1,45 @@
+using System.Threading;
+using System.Threading.Tasks;
+using MediatR;
+using Microsoft.Extensions.Logging;
+using OmniSharp.Extensions.JsonRpc;
+using UdonSharpLsp.Server.Configuration;
+using UdonSharpLsp.Server.Contracts;
+using UdonSharpLsp.Server.Services;
+
+namespace UdonSharpLsp.Server.Handlers;
+
+/// <summary>
+/// Re-reads the bundled and custom policy packs with the current settings. The client
+/// sends this when it sees a file from <c>policyPackPaths</c> change on disk.
+/// </summary>
+[Method("udonsharp/rules/reload")]
+public sealed class RuleReloadHandler :
+    IJsonRpcRequestHandler<ReloadRulesRequest, ReloadRulesResponse>,
+    IRequestHandler<ReloadRulesRequest, ReloadRulesResponse>
+{
+    private readonly LinterConfigurationService _configurationService;
+    private readonly SettingsProvider _settingsProvider;
+    private readonly RuleCatalogNotifier _notifier;
+    private readonly ILogger<RuleReloadHandler> _logger;
+
+    public RuleReloadHandler(
+        LinterConfigurationService configurationService,
+        SettingsProvider settingsProvider,
+        RuleCatalogNotifier notifier,
+        ILogger<RuleReloadHandler> logger)
+    {
+        _configurationService = configurationService;
+        _settingsProvider = settingsProvider;
+        _notifier = notifier;
+        _logger = logger;
+    }
+
+    public async Task<ReloadRulesResponse> Handle(ReloadRulesRequest request, CancellationToken cancellationToken)
+    {
+        var ruleCount = await _configurationService.ApplyAsync(_settingsProvider.Current, cancellationToken).ConfigureAwait(false);
+        _logger.LogInformation("Reloaded policy packs on client request ({RuleCount} rules)", ruleCount);
+        _notifier.NotifyChanged("policyPacks", ruleCount);
+        return new ReloadRulesResponse(ruleCount);
+    }
+}
@@ -100,11 +100,11 @@ public sealed class UdonSharpTextDocumentSyncHandler : TextDocumentSyncHandlerBa
             return;
         }
 
-        var diagnostics = await _analysisService.AnalyzeDocumentAsync(document, _settingsProvider.Current, cancellationToken).ConfigureAwait(false);
+        var diagnostics = await _analysisService.AnalyzeDocumentAsync(document, _settingsProvider.ForDocument(documentUri), cancellationToken).ConfigureAwait(false);
         await _diagnosticsPublisher.PublishAsync(documentUri, diagnostics, cancellationToken).ConfigureAwait(false);
     }
 
-    private static bool IsUdonSharpBehaviourDocument(string content)
+    internal static bool IsUdonSharpBehaviourDocument(string content)
     {
         if (string.IsNullOrWhiteSpace(content))
         {
@@ -0,0 +1,77 @@
+using System;
+using System.Collections.Generic;
+using System.Collections.Immutable;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using MediatR;
+using Microsoft.Extensions.Logging;
+using OmniSharp.Extensions.JsonRpc;
+using OmniSharp.Extensions.LanguageServer.Protocol;
+using UdonSharpLsp.Server.Configuration;
+using UdonSharpLsp.Server.Contracts;
+using UdonSharpLsp.Server.Diagnostics;
+using UdonSharpLsp.Server.Services;
+using UdonSharpLsp.Server.Workspace;
+
+namespace UdonSharpLsp.Server.Handlers;
+
+/// <summary>
+/// Analyzes a batch of files on disk, publishing their diagnostics even when the
+/// client has not opened them. Files that were not already open are added to the
+/// workspace for the duration of the batch through <see cref="TransientDocumentScope"/>
+/// so cross-behaviour lookups still resolve.
+/// </summary>
+[Method("udonsharp/workspace/analyzeFiles")]
+public sealed class WorkspaceAnalysisHandler :
+    IJsonRpcRequestHandler<AnalyzeWorkspaceFilesRequest, AnalyzeWorkspaceFilesResponse>,
+    IRequestHandler<AnalyzeWorkspaceFilesRequest, AnalyzeWorkspaceFilesResponse>
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly AnalysisService _analysisService;
+    private readonly DiagnosticsPublisher _diagnosticsPublisher;
+    private readonly SettingsProvider _settingsProvider;
+    private readonly ILogger<WorkspaceAnalysisHandler> _logger;
+
+    public WorkspaceAnalysisHandler(
+        WorkspaceManager workspaceManager,
+        AnalysisService analysisService,
+        DiagnosticsPublisher diagnosticsPublisher,
+        SettingsProvider settingsProvider,
+        ILogger<WorkspaceAnalysisHandler> logger)
+    {
+        _workspaceManager = workspaceManager;
+        _analysisService = analysisService;
+        _diagnosticsPublisher = diagnosticsPublisher;
+        _settingsProvider = settingsProvider;
+        _logger = logger;
+    }
+
+    public async Task<AnalyzeWorkspaceFilesResponse> Handle(AnalyzeWorkspaceFilesRequest request, CancellationToken cancellationToken)
+    {
+        using var documents = await TransientDocumentScope.OpenAsync(_workspaceManager, request.Uris, _logger, cancellationToken).ConfigureAwait(false);
+
+        var results = new List<WorkspaceFileDiagnostics>(documents.Documents.Count);
+        foreach (var uri in documents.Documents)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            var document = await _workspaceManager.GetDocumentAsync(uri, cancellationToken).ConfigureAwait(false);
+            if (document is null)
+            {
+                continue;
+            }
+
+            var sourceText = await document.GetTextAsync(cancellationToken).ConfigureAwait(false);
+            var diagnostics = UdonSharpTextDocumentSyncHandler.IsUdonSharpBehaviourDocument(sourceText.ToString())
+                ? await _analysisService.AnalyzeDocumentAsync(document, _settingsProvider.ForDocument(uri), cancellationToken).ConfigureAwait(false)
+                : ImmutableArray<Microsoft.CodeAnalysis.Diagnostic>.Empty;
+
+            await _diagnosticsPublisher.PublishAsync(uri, diagnostics, cancellationToken).ConfigureAwait(false);
+            results.Add(new WorkspaceFileDiagnostics(
+                DocumentUri.From(uri).ToString(),
+                diagnostics.Select(DiagnosticsPublisher.ToLspDiagnostic).ToArray()));
+        }
+
+        return new AnalyzeWorkspaceFilesResponse(results.ToArray());
+    }
+}
@@ -1,28 +1,65 @@
+using System;
 using System.Collections.Generic;
+using System.Linq;
 using Microsoft.CodeAnalysis;
 
 namespace UdonSharpLsp.Server.PolicyPacks;
 
 public sealed class PolicyRuleDefinition
 {
-    public string? GetDocumentation(string locale, string fallbackLocale = "en-US")
+    /// <summary>
+    /// Resolves documentation along the fallback chain <c>ja-JP</c> → <c>ja</c> → other <c>ja-*</c>
+    /// pages → <c>en-US</c> and reports the locale that was actually found.
+    /// </summary>
+    public bool TryGetDocumentation(string locale, out string resolvedLocale, out string markdown)
     {
+        resolvedLocale = locale;
+        markdown = string.Empty;
         if (Documentation is null)
         {
-            return null;
+            return false;
         }
 
-        if (Documentation.TryGetValue(locale, out var localized) && localized.TryGetValue("markdown", out var markdown))
+        foreach (var candidate in GetLocaleFallbackChain(locale, Documentation.Keys))
         {
-            return markdown;
+            if (Documentation.TryGetValue(candidate, out var localized) && localized.TryGetValue("markdown", out var localizedMarkdown))
+            {
+                resolvedLocale = candidate;
+                markdown = localizedMarkdown;
+                return true;
+            }
         }
 
-        if (Documentation.TryGetValue(fallbackLocale, out var fallback) && fallback.TryGetValue("markdown", out var fallbackMarkdown))
+        return false;
+    }
+
+    /// <summary>
+    /// The exact locale, its bare language, every available locale with the same language
+    /// (so <c>ja</c> still reaches <c>ja-JP</c>), then <c>en-US</c>.
+    /// </summary>
+    public static IEnumerable<string> GetLocaleFallbackChain(string locale, IEnumerable<string>? availableLocales = null)
+    {
+        var chain = new List<string>();
+        void Add(string candidate)
+        {
+            if (!string.IsNullOrEmpty(candidate) && !chain.Contains(candidate, StringComparer.OrdinalIgnoreCase))
+            {
+                chain.Add(candidate);
+            }
+        }
+
+        var language = locale.Split('-')[0];
+        Add(locale);
+        Add(language);
+        foreach (var candidate in (availableLocales ?? Enumerable.Empty<string>())
+                     .Where(candidate => string.Equals(candidate.Split('-')[0], language, StringComparison.OrdinalIgnoreCase))
+                     .OrderBy(candidate => candidate, StringComparer.Ordinal))
         {
-            return fallbackMarkdown;
+            Add(candidate);
         }
 
-        return null;
+        Add("en-US");
+        return chain;
     }
 
     public required string Id { get; init; }
@@ -1,5 +1,6 @@
 using System;
 using System.IO;
+using System.Linq;
 using System.Threading.Tasks;
 using System.Text.Json;
 using MediatR;
@@ -63,6 +64,8 @@ try
                 services.AddSingleton<AnalyzerRegistry>();
                 services.AddSingleton<AnalysisService>();
                 services.AddSingleton<DiagnosticsPublisher>();
+                services.AddSingleton<RuleCatalogNotifier>();
+                services.AddSingleton<NetworkModelService>();
                 services.AddSingleton(provider => new LinterConfigurationService(
                     provider.GetRequiredService<SettingsProvider>(),
                     provider.GetRequiredService<PolicyPackLoader>(),
@@ -76,18 +79,25 @@ try
             .WithHandler<RuleListHandler>()
             .WithHandler<RuleDocumentationHandler>()
             .WithHandler<ServerStatusHandler>()
+            .WithHandler<WorkspaceAnalysisHandler>()
+            .WithHandler<RuleReloadHandler>()
+            .WithHandler<NetworkBehavioursHandler>()
             .OnInitialize(async (languageServer, request, cancellationToken) =>
             {
                 var logger = languageServer.Services.GetRequiredService<ILogger<Program>>();
 
                 try
                 {
+                    var settingsProvider = languageServer.Services.GetRequiredService<SettingsProvider>();
                     if (request.InitializationOptions is JsonElement element && element.ValueKind == JsonValueKind.Object)
                     {
-                        languageServer.Services.GetRequiredService<SettingsProvider>().Update(element);
+                        settingsProvider.Update(element);
                     }
 
-                    var settings = languageServer.Services.GetRequiredService<SettingsProvider>().Current;
+                    var workspaceRoot = request.WorkspaceFolders?.FirstOrDefault()?.Uri ?? request.RootUri;
+                    settingsProvider.WorkspaceRoot = workspaceRoot?.GetFileSystemPath();
+
+                    var settings = settingsProvider.Current;
                     var configurator = languageServer.Services.GetRequiredService<LinterConfigurationService>();
                     await configurator.ApplyAsync(settings, cancellationToken).ConfigureAwait(false);
                 }
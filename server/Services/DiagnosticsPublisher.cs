@@ -32,7 +32,7 @@ public sealed class DiagnosticsPublisher
         return Task.CompletedTask;
     }
 
-    private static OmniSharp.Extensions.LanguageServer.Protocol.Models.Diagnostic ToLspDiagnostic(Microsoft.CodeAnalysis.Diagnostic diagnostic)
+    public static OmniSharp.Extensions.LanguageServer.Protocol.Models.Diagnostic ToLspDiagnostic(Microsoft.CodeAnalysis.Diagnostic diagnostic)
     {
         Position start;
         Position end;
@@ -33,7 +33,11 @@ public sealed class LinterConfigurationService
         _baseDirectory = baseDirectory;
     }
 
-    public async Task ApplyAsync(LinterSettings settings, CancellationToken cancellationToken)
+    /// <summary>
+    /// Reloads the policy packs and rebuilds the workspace for <paramref name="settings"/>.
+    /// Returns the number of rules in the resulting catalogue.
+    /// </summary>
+    public async Task<int> ApplyAsync(LinterSettings settings, CancellationToken cancellationToken)
     {
         _settingsProvider.Update(settings);
         var policyDirectory = Path.Combine(_baseDirectory, "PolicyPacks");
@@ -41,5 +45,6 @@ public sealed class LinterConfigurationService
         _policyRepository.Replace(rules);
         await _workspaceManager.InitializeAsync(settings, _baseDirectory, cancellationToken).ConfigureAwait(false);
         _logger.LogInformation("Applied configuration profile {Profile} with {RuleCount} rules", settings.Profile, rules.Count);
+        return rules.Count;
     }
 }
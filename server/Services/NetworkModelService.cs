@@ -0,0 +1,256 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.CSharp.Syntax;
+using OmniSharp.Extensions.LanguageServer.Protocol;
+using OmniSharp.Extensions.LanguageServer.Protocol.Models;
+using UdonSharpLsp.Server.Contracts;
+using UdonSharpLsp.Server.Diagnostics;
+using UdonSharpLsp.Server.Diagnostics.Analyzers;
+using Location = Microsoft.CodeAnalysis.Location;
+using Range = OmniSharp.Extensions.LanguageServer.Protocol.Models.Range;
+
+namespace UdonSharpLsp.Server.Services;
+
+/// <summary>
+/// Builds the per-behaviour networking model behind the client's network explorer: sync
+/// modes, synced fields, network-callable methods and custom event call sites. Event
+/// targets are resolved with the same helpers as <see cref="UshNetworkEventAnalyzer"/>,
+/// falling back to the receiver's declared type when the VRChat stubs are not loaded.
+/// </summary>
+public sealed class NetworkModelService
+{
+    public async Task<NetworkBehaviourModel[]> BuildAsync(Project project, IReadOnlySet<string> filePaths, CancellationToken cancellationToken)
+    {
+        var compilation = await project.GetCompilationAsync(cancellationToken).ConfigureAwait(false);
+        if (compilation is null)
+        {
+            return Array.Empty<NetworkBehaviourModel>();
+        }
+
+        var drafts = new Dictionary<INamedTypeSymbol, BehaviourDraft>(SymbolEqualityComparer.Default);
+        foreach (var document in project.Documents.Where(document => document.FilePath is not null && filePaths.Contains(document.FilePath)))
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            var root = await document.GetSyntaxRootAsync(cancellationToken).ConfigureAwait(false);
+            if (root is null)
+            {
+                continue;
+            }
+
+            var semanticModel = compilation.GetSemanticModel(root.SyntaxTree);
+            foreach (var declaration in root.DescendantNodes().OfType<ClassDeclarationSyntax>())
+            {
+                if (semanticModel.GetDeclaredSymbol(declaration, cancellationToken) is not INamedTypeSymbol behaviour ||
+                    string.Equals(behaviour.Name, "UdonSharpBehaviour", StringComparison.Ordinal) ||
+                    !UshAnalyzerUtilities.IsUdonSharpBehaviour(behaviour))
+                {
+                    continue;
+                }
+
+                if (!drafts.TryGetValue(behaviour, out var draft))
+                {
+                    draft = new BehaviourDraft(behaviour, declaration, semanticModel);
+                    drafts.Add(behaviour, draft);
+                }
+
+                draft.Calls.AddRange(CollectEventCalls(declaration, semanticModel, cancellationToken));
+            }
+        }
+
+        var networkTargets = new HashSet<IMethodSymbol>(
+            drafts.Values.SelectMany(draft => draft.Calls).Where(call => call.IsNetworkEvent && call.Target is not null).Select(call => call.Target!),
+            SymbolEqualityComparer.Default);
+
+        return drafts.Values
+            .Select(draft => ToModel(draft, compilation, networkTargets, cancellationToken))
+            .OrderBy(model => model.Name, StringComparer.Ordinal)
+            .ThenBy(model => model.FullName, StringComparer.Ordinal)
+            .ToArray();
+    }
+
+    private static IEnumerable<EventCallDraft> CollectEventCalls(
+        ClassDeclarationSyntax declaration,
+        SemanticModel semanticModel,
+        CancellationToken cancellationToken)
+    {
+        foreach (var invocation in declaration.DescendantNodes().OfType<InvocationExpressionSyntax>())
+        {
+            // Nested behaviours report their own calls.
+            if (invocation.FirstAncestorOrSelf<ClassDeclarationSyntax>() != declaration ||
+                !UshNetworkEventAnalyzer.TryIdentifyEventInvocation(invocation, semanticModel, cancellationToken, out var methodSymbol, out var methodName, out _, out var isNetworkEvent))
+            {
+                continue;
+            }
+
+            var arguments = invocation.ArgumentList.Arguments;
+            var eventArgumentIndex = isNetworkEvent ? 1 : 0;
+            if (arguments.Count <= eventArgumentIndex)
+            {
+                continue;
+            }
+
+            var eventExpression = arguments[eventArgumentIndex].Expression;
+            var networkTarget = isNetworkEvent ? DescribeNetworkTarget(arguments[0].Expression) : null;
+            if (!UshAnalyzerUtilities.TryResolveEventTarget(semanticModel, eventExpression, cancellationToken, out var eventName, out var resolvedMethod))
+            {
+                yield return new EventCallDraft(methodName, isNetworkEvent, eventExpression.ToString(), networkTarget, invocation.GetLocation(), null);
+                continue;
+            }
+
+            var target = ResolveTarget(invocation, methodSymbol, resolvedMethod, eventName, semanticModel, cancellationToken);
+            yield return new EventCallDraft(methodName, isNetworkEvent, eventName, networkTarget, invocation.GetLocation(), target);
+        }
+    }
+
+    private static IMethodSymbol? ResolveTarget(
+        InvocationExpressionSyntax invocation,
+        IMethodSymbol? methodSymbol,
+        IMethodSymbol? resolvedMethod,
+        string eventName,
+        SemanticModel semanticModel,
+        CancellationToken cancellationToken)
+    {
+        if (resolvedMethod is not null && IsInSource(resolvedMethod) &&
+            UshAnalyzerUtilities.IsUdonSharpBehaviour(resolvedMethod.ContainingType))
+        {
+            return resolvedMethod;
+        }
+
+        var behaviour = UshNetworkEventAnalyzer.DetermineTargetBehaviour(invocation, methodSymbol, resolvedMethod, semanticModel, cancellationToken)
+            ?? ResolveReceiverType(invocation, semanticModel, cancellationToken);
+        if (behaviour is null || !UshAnalyzerUtilities.IsUdonSharpBehaviour(behaviour))
+        {
+            return null;
+        }
+
+        return UshAnalyzerUtilities.GetBehaviourMethods(behaviour, eventName).FirstOrDefault(IsInSource);
+    }
+
+    // Without stubs SendCustomEvent itself does not bind, so DetermineTargetBehaviour gives up.
+    private static INamedTypeSymbol? ResolveReceiverType(
+        InvocationExpressionSyntax invocation,
+        SemanticModel semanticModel,
+        CancellationToken cancellationToken)
+    {
+        return invocation.Expression is MemberAccessExpressionSyntax { Expression: not ThisExpressionSyntax and not BaseExpressionSyntax } memberAccess
+            ? UshAnalyzerUtilities.GetExpressionType(semanticModel, memberAccess.Expression, cancellationToken) as INamedTypeSymbol
+            : UshAnalyzerUtilities.GetContainingType(invocation, semanticModel, cancellationToken);
+    }
+
+    private static NetworkBehaviourModel ToModel(
+        BehaviourDraft draft,
+        Compilation compilation,
+        IReadOnlySet<IMethodSymbol> networkTargets,
+        CancellationToken cancellationToken)
+    {
+        var behaviour = draft.Behaviour;
+        var syncMode = UshAnalyzerUtilities.GetBehaviourSyncModeName(behaviour, draft.SemanticModel, cancellationToken)
+            ?? UshAnalyzerUtilities.GetBehaviourSyncModeNameFromSyntax(draft.Declaration);
+
+        var syncedFields = new List<SyncedFieldModel>();
+        foreach (var field in behaviour.GetMembers().OfType<IFieldSymbol>().Where(IsInSource))
+        {
+            var attribute = UshAnalyzerUtilities.GetUdonSyncedAttribute(field, cancellationToken);
+            if (attribute is null)
+            {
+                continue;
+            }
+
+            var fieldModel = compilation.GetSemanticModel(field.Locations.First(location => location.IsInSource).SourceTree!);
+            syncedFields.Add(new SyncedFieldModel(
+                field.Name,
+                field.Type.ToDisplayString(SymbolDisplayFormat.MinimallyQualifiedFormat),
+                UshAnalyzerUtilities.GetUdonSyncModeName(attribute, fieldModel, cancellationToken),
+                ToSymbolLocation(field)));
+        }
+
+        var networkMethods = behaviour.GetMembers().OfType<IMethodSymbol>()
+            .Where(method => method.MethodKind == MethodKind.Ordinary && IsInSource(method))
+            .Select(method => (Method: method, HasAttribute: UshAnalyzerUtilities.HasNetworkCallableAttribute(method, cancellationToken)))
+            .Where(entry => entry.HasAttribute || networkTargets.Contains(entry.Method))
+            .Select(entry => new NetworkMethodModel(
+                entry.Method.Name,
+                entry.Method.Parameters.Select(parameter => parameter.Type.ToDisplayString(SymbolDisplayFormat.MinimallyQualifiedFormat)).ToArray(),
+                entry.HasAttribute,
+                ToSymbolLocation(entry.Method)))
+            .ToArray();
+
+        var eventCalls = draft.Calls
+            .Select(call => new EventCallModel(
+                call.Method,
+                call.IsNetworkEvent,
+                call.EventName,
+                call.NetworkTarget,
+                ToSymbolLocation(call.Location),
+                call.Target is { } target
+                    ? new EventTargetModel(target.ContainingType.Name, target.Name, ToSymbolLocation(target))
+                    : null))
+            .ToArray();
+
+        return new NetworkBehaviourModel(
+            behaviour.Name,
+            UshAnalyzerUtilities.GetFullyQualifiedName(behaviour).Replace("global::", string.Empty, StringComparison.Ordinal),
+            ToSymbolLocation(behaviour),
+            syncMode,
+            syncedFields.ToArray(),
+            networkMethods,
+            eventCalls);
+    }
+
+    private static string? DescribeNetworkTarget(ExpressionSyntax expression)
+    {
+        return expression switch
+        {
+            MemberAccessExpressionSyntax memberAccess => memberAccess.Name.Identifier.Text,
+            IdentifierNameSyntax identifier => identifier.Identifier.Text,
+            _ => expression.ToString(),
+        };
+    }
+
+    private static bool IsInSource(ISymbol symbol) => symbol.Locations.Any(location => location.IsInSource);
+
+    private static SymbolLocation ToSymbolLocation(ISymbol symbol)
+        => ToSymbolLocation(symbol.Locations.First(location => location.IsInSource));
+
+    private static SymbolLocation ToSymbolLocation(Location location)
+    {
+        var span = location.GetLineSpan();
+        // WorkspaceManager stores file paths for file URIs and the URI itself for anything else.
+        var uri = Uri.TryCreate(span.Path, UriKind.Absolute, out var parsed) && !parsed.IsFile
+            ? span.Path
+            : DocumentUri.FromFileSystemPath(span.Path).ToString();
+        return new SymbolLocation(
+            uri,
+            new Range(
+                new Position(span.StartLinePosition.Line, span.StartLinePosition.Character),
+                new Position(span.EndLinePosition.Line, span.EndLinePosition.Character)));
+    }
+
+    private sealed class BehaviourDraft
+    {
+        public BehaviourDraft(INamedTypeSymbol behaviour, ClassDeclarationSyntax declaration, SemanticModel semanticModel)
+        {
+            Behaviour = behaviour;
+            Declaration = declaration;
+            SemanticModel = semanticModel;
+        }
+
+        public INamedTypeSymbol Behaviour { get; }
+        public ClassDeclarationSyntax Declaration { get; }
+        public SemanticModel SemanticModel { get; }
+        public List<EventCallDraft> Calls { get; } = new();
+    }
+
+    private sealed record EventCallDraft(
+        string Method,
+        bool IsNetworkEvent,
+        string EventName,
+        string? NetworkTarget,
+        Location Location,
+        IMethodSymbol? Target
+    );
+}
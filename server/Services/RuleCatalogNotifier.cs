@@ -0,0 +1,25 @@
+using OmniSharp.Extensions.LanguageServer.Protocol.Server;
+using UdonSharpLsp.Server.Contracts;
+
+namespace UdonSharpLsp.Server.Services;
+
+/// <summary>
+/// Tells the client the rule catalogue was rebuilt so it can drop cached rule
+/// metadata and documentation instead of polling for changes.
+/// </summary>
+public sealed class RuleCatalogNotifier
+{
+    public const string RulesDidChangeMethod = "udonsharp/rules/didChange";
+
+    private readonly ILanguageServerFacade _server;
+
+    public RuleCatalogNotifier(ILanguageServerFacade server)
+    {
+        _server = server;
+    }
+
+    public void NotifyChanged(string reason, int ruleCount)
+    {
+        _server.Client.SendNotification(RulesDidChangeMethod, new RulesDidChangeNotification(reason, ruleCount));
+    }
+}
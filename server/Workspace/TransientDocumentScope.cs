@@ -0,0 +1,90 @@
+using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Text;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging;
+
+namespace UdonSharpLsp.Server.Workspace;
+
+/// <summary>
+/// The files of one request, with those the client has not opened read from disk and added
+/// to the workspace until the scope is disposed. Only documents this scope added are removed,
+/// so a file the client opens meanwhile keeps its editor contents.
+/// </summary>
+public sealed class TransientDocumentScope : IDisposable
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly List<Uri> _documents = new();
+    private readonly List<Uri> _added = new();
+
+    private TransientDocumentScope(WorkspaceManager workspaceManager)
+    {
+        _workspaceManager = workspaceManager;
+    }
+
+    /// <summary>The requested file URIs that are in the workspace, in request order.</summary>
+    public IReadOnlyList<Uri> Documents => _documents;
+
+    public static async Task<TransientDocumentScope> OpenAsync(
+        WorkspaceManager workspaceManager,
+        IEnumerable<string>? rawUris,
+        ILogger logger,
+        CancellationToken cancellationToken)
+    {
+        var scope = new TransientDocumentScope(workspaceManager);
+        try
+        {
+            foreach (var rawUri in rawUris ?? Array.Empty<string>())
+            {
+                if (!Uri.TryCreate(rawUri, UriKind.Absolute, out var uri) || !uri.IsFile)
+                {
+                    continue;
+                }
+
+                if (!workspaceManager.ContainsDocument(uri))
+                {
+                    string text;
+                    try
+                    {
+                        text = await File.ReadAllTextAsync(uri.LocalPath, cancellationToken).ConfigureAwait(false);
+                    }
+                    catch (Exception ex) when (ex is IOException or UnauthorizedAccessException or DecoderFallbackException)
+                    {
+                        logger.LogWarning(ex, "Skipping unreadable file {File}", uri.LocalPath);
+                        continue;
+                    }
+
+                    // The client may have opened the file while it was being read; its copy wins.
+                    if (workspaceManager.TryAddTransientDocument(uri, text))
+                    {
+                        scope._added.Add(uri);
+                    }
+                }
+
+                if (workspaceManager.ContainsDocument(uri))
+                {
+                    scope._documents.Add(uri);
+                }
+            }
+        }
+        catch
+        {
+            scope.Dispose();
+            throw;
+        }
+
+        return scope;
+    }
+
+    public void Dispose()
+    {
+        foreach (var uri in _added)
+        {
+            _workspaceManager.ReleaseTransientDocument(uri);
+        }
+
+        _added.Clear();
+    }
+}
@@ -19,6 +19,9 @@ public sealed class WorkspaceManager
     private readonly ILogger<WorkspaceManager> _logger;
     private ProjectId? _projectId;
     private readonly ConcurrentDictionary<Uri, DocumentId> _documents = new();
+    // Documents added on behalf of requests rather than the client, with how many requests hold each.
+    private readonly Dictionary<Uri, int> _transientDocuments = new();
+    private readonly object _transientLock = new();
 
     public WorkspaceManager(MetadataReferenceService metadataReferenceService, ILogger<WorkspaceManager> logger)
     {
@@ -66,9 +69,10 @@ public sealed class WorkspaceManager
         _workspace.AddProject(projectInfo);
         _projectId = projectInfo.Id;
 
+        // Re-adding directly keeps transient documents owned by the requests that added them.
         foreach (var (uri, text) in existingDocuments)
         {
-            await OpenOrUpdateDocumentAsync(uri, text, cancellationToken).ConfigureAwait(false);
+            AddDocument(uri, text);
         }
 
         await Task.CompletedTask;
@@ -90,6 +94,12 @@ public sealed class WorkspaceManager
             throw new InvalidOperationException("Workspace not initialized.");
         }
 
+        // Once the client opens a document, requests that added it must not remove it.
+        lock (_transientLock)
+        {
+            _transientDocuments.Remove(documentUri);
+        }
+
         if (_documents.TryGetValue(documentUri, out var documentId))
         {
             var sourceText = SourceText.From(text);
@@ -103,23 +113,60 @@ public sealed class WorkspaceManager
         }
         else
         {
-            var projectId = _projectId ?? throw new InvalidOperationException("Workspace not initialized.");
-            var loader = TextLoader.From(TextAndVersion.Create(SourceText.From(text), VersionStamp.Create()));
-            var documentInfo = DocumentInfo.Create(
-                DocumentId.CreateNewId(projectId, debugName: documentUri.ToString()),
-                name: Path.GetFileName(documentUri.LocalPath),
-                loader: loader,
-                filePath: documentUri.IsFile ? documentUri.LocalPath : documentUri.ToString());
-
-            var newSolution = _workspace.CurrentSolution.AddDocument(documentInfo);
-            if (_workspace.TryApplyChanges(newSolution))
+            return AddDocument(documentUri, text);
+        }
+    }
+
+    public bool ContainsDocument(Uri documentUri) => _documents.ContainsKey(documentUri);
+
+    /// <summary>
+    /// Adds a file the client has not opened for the duration of a request. Returns false when
+    /// the client already owns the document; otherwise the caller must call
+    /// <see cref="ReleaseTransientDocument"/>. Requests sharing a transient document each hold it.
+    /// </summary>
+    public bool TryAddTransientDocument(Uri documentUri, string text)
+    {
+        lock (_transientLock)
+        {
+            if (_transientDocuments.TryGetValue(documentUri, out var holders))
+            {
+                _transientDocuments[documentUri] = holders + 1;
+                return true;
+            }
+
+            if (_documents.ContainsKey(documentUri))
+            {
+                return false;
+            }
+
+            if (AddDocument(documentUri, text) is null)
+            {
+                return false;
+            }
+
+            _transientDocuments[documentUri] = 1;
+            return true;
+        }
+    }
+
+    /// <summary>Removes a transient document once its last holder releases it, unless the client opened it meanwhile.</summary>
+    public void ReleaseTransientDocument(Uri documentUri)
+    {
+        lock (_transientLock)
+        {
+            if (!_transientDocuments.TryGetValue(documentUri, out var holders))
             {
-                var addedDocument = newSolution.GetDocument(documentInfo.Id);
-                _documents[documentUri] = documentInfo.Id;
-                return addedDocument;
+                return;
             }
 
-            return null;
+            if (holders > 1)
+            {
+                _transientDocuments[documentUri] = holders - 1;
+                return;
+            }
+
+            _transientDocuments.Remove(documentUri);
+            RemoveDocument(documentUri);
         }
     }
 
@@ -131,5 +178,25 @@ public sealed class WorkspaceManager
             _workspace.TryApplyChanges(newSolution);
         }
     }
-}
 
+    private Document? AddDocument(Uri documentUri, string text)
+    {
+        var projectId = _projectId ?? throw new InvalidOperationException("Workspace not initialized.");
+        var loader = TextLoader.From(TextAndVersion.Create(SourceText.From(text), VersionStamp.Create()));
+        var documentInfo = DocumentInfo.Create(
+            DocumentId.CreateNewId(projectId, debugName: documentUri.ToString()),
+            name: Path.GetFileName(documentUri.LocalPath),
+            loader: loader,
+            filePath: documentUri.IsFile ? documentUri.LocalPath : documentUri.ToString());
+
+        var newSolution = _workspace.CurrentSolution.AddDocument(documentInfo);
+        if (_workspace.TryApplyChanges(newSolution))
+        {
+            var addedDocument = newSolution.GetDocument(documentInfo.Id);
+            _documents[documentUri] = documentInfo.Id;
+            return addedDocument;
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageclient/node';
+import { BaselineEntry, fingerprint, removeBaselined, toBaselineEntries } from '../../../client/src/lsp/baseline';
+
+interface Finding {
+	readonly ruleId?: string;
+	readonly line: string;
+}
+
+function filter(entries: readonly BaselineEntry[], findings: Finding[]): Finding[] {
+	return removeBaselined(entries, findings, findings.map(finding => fingerprint(finding.line)), finding => finding.ruleId);
+}
+
+function entry(ruleId: string, line: string): BaselineEntry {
+	return { ruleId, file: 'Assets/Door.cs', fingerprint: fingerprint(line) };
+}
+
+suite('Baseline', () => {
+	test('fingerprints ignore indentation but not content', () => {
+		assert.strictEqual(fingerprint('\t\tSendCustomEvent("Open");'), fingerprint('SendCustomEvent("Open");  '));
+		assert.notStrictEqual(fingerprint('SendCustomEvent("Open");'), fingerprint('SendCustomEvent("Close");'));
+		assert.match(fingerprint('x'), /^[0-9a-f]{16}$/);
+	});
+
+	test('hides findings recorded for the same rule and line text', () => {
+		const findings = [{ ruleId: 'USH0004', line: 'int x;' }, { ruleId: 'USH0010', line: 'int x;' }];
+		assert.deepStrictEqual(filter([entry('USH0004', 'int x;')], findings), [findings[1]]);
+	});
+
+	test('each entry hides a single finding', () => {
+		const findings = [{ ruleId: 'USH0004', line: 'int x;' }, { ruleId: 'USH0004', line: '  int x;' }];
+		assert.deepStrictEqual(filter([entry('USH0004', 'int x;')], findings), [findings[1]]);
+	});
+
+	test('findings without a rule ID are never hidden', () => {
+		const findings = [{ line: 'int x;' }];
+		assert.deepStrictEqual(filter([entry('USH0004', 'int x;')], findings), findings);
+	});
+
+	test('findings whose line could not be read are never hidden', () => {
+		const findings = [{ ruleId: 'USH0004', line: 'int x;' }];
+		assert.deepStrictEqual(removeBaselined([entry('USH0004', 'int x;')], findings, [undefined], finding => finding.ruleId), findings);
+	});
+
+	test('records findings by rule and line, skipping ones it could never hide', () => {
+		const diagnostic = (line: number, code: string | undefined, severity: DiagnosticSeverity = DiagnosticSeverity.Warning): Diagnostic => ({
+			code,
+			severity,
+			message: 'finding',
+			range: { start: { line, character: 0 }, end: { line, character: 1 } },
+		});
+		const lines = ['int x;', 'int y;'];
+		const entries = toBaselineEntries('Assets/Door.cs', [
+			diagnostic(0, 'USH0004'),
+			diagnostic(1, 'USH0010', DiagnosticSeverity.Hint),
+			diagnostic(1, undefined),
+			diagnostic(5, 'USH0004'),
+		], lines);
+
+		assert.deepStrictEqual(entries, [entry('USH0004', 'int x;')]);
+		assert.deepStrictEqual(toBaselineEntries('Assets/Door.cs', [diagnostic(0, 'USH0004')], undefined), []);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-protocol/node';
+import { FileResult, getExitCode, parseArguments } from '../../../client/src/cli/udonsharpLint';
+
+function result(...severities: (DiagnosticSeverity | undefined)[]): FileResult {
+	return {
+		file: 'Assets/Door.cs',
+		diagnostics: severities.map(severity => ({
+			message: 'finding',
+			severity,
+			range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+		} satisfies Diagnostic)),
+		timedOut: false,
+	};
+}
+
+suite('udonsharp-lint CLI', () => {
+	test('defaults lint the working directory as text and fail on errors', () => {
+		const options = parseArguments([]);
+		assert.ok(options);
+		assert.strictEqual(options.root, process.cwd());
+		assert.strictEqual(options.profile, 'latest');
+		assert.strictEqual(options.format, 'text');
+		assert.strictEqual(options.failOn, 'error');
+		assert.strictEqual(options.timeoutMs, 60_000);
+	});
+
+	test('parses every option', () => {
+		const root = os.tmpdir();
+		const options = parseArguments([
+			'--profile', 'legacy_0.x',
+			'--rule', 'ush0004=off',
+			'--rule', 'USH0010=info',
+			'--policy-pack', 'team.json',
+			'--format', 'json',
+			'--fail-on', 'warn',
+			'--timeout', '1.5',
+			root,
+		]);
+		assert.ok(options);
+		assert.strictEqual(options.root, path.resolve(root));
+		assert.strictEqual(options.profile, 'legacy_0.x');
+		assert.deepStrictEqual(options.ruleOverrides, { USH0004: 'off', USH0010: 'info' });
+		assert.deepStrictEqual(options.policyPackPaths, [path.resolve('team.json')]);
+		assert.strictEqual(options.format, 'json');
+		assert.strictEqual(options.failOn, 'warn');
+		assert.strictEqual(options.timeoutMs, 1_500);
+	});
+
+	test('help returns no options', () => {
+		assert.strictEqual(parseArguments(['--profile', 'latest', '-h']), undefined);
+	});
+
+	test('invalid arguments throw', () => {
+		for (const argv of [
+			['--profile'],
+			['--profile', '--format'],
+			['--rule', 'USH0004'],
+			['--rule', 'USH0004=loud'],
+			['--format', 'xml'],
+			['--fail-on', 'never'],
+			['--timeout', '0'],
+			['--timeout', 'soon'],
+			['--unknown'],
+			[path.join(os.tmpdir(), 'udonsharp-lint-missing-directory')],
+		]) {
+			assert.throws(() => parseArguments(argv), Error, argv.join(' '));
+		}
+	});
+
+	test('exits with 1 only for findings at or above --fail-on', () => {
+		const results = [result(DiagnosticSeverity.Warning), result(DiagnosticSeverity.Information)];
+		assert.strictEqual(getExitCode(results, 'error'), 0);
+		assert.strictEqual(getExitCode(results, 'warn'), 1);
+		assert.strictEqual(getExitCode(results, 'info'), 1);
+		assert.strictEqual(getExitCode([result(DiagnosticSeverity.Error)], 'off'), 0);
+		assert.strictEqual(getExitCode([], 'info'), 0);
+	});
+
+	test('a finding without a severity counts as a warning', () => {
+		assert.strictEqual(getExitCode([result(undefined)], 'warn'), 1);
+		assert.strictEqual(getExitCode([result(undefined)], 'error'), 0);
+	});
+
+	test('a file that timed out exits with 2 whatever the findings', () => {
+		const timedOut: FileResult = { ...result(), timedOut: true };
+		assert.strictEqual(getExitCode([result(DiagnosticSeverity.Error), timedOut], 'error'), 2);
+		assert.strictEqual(getExitCode([timedOut], 'off'), 2);
+	});
+});
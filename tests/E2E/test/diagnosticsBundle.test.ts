@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import { BundleEntry, createZip } from '../../../client/src/ui/diagnosticsBundle';
+
+interface ReadEntry {
+	readonly name: string;
+	readonly data: Buffer;
+	readonly crc: number;
+}
+
+// Reads the archive the way unzip tools do: from the end record through the central directory.
+function readZip(zip: Buffer): ReadEntry[] {
+	const end = zip.length - 22;
+	assert.strictEqual(zip.readUInt32LE(end), 0x06054b50, 'end of central directory');
+	const count = zip.readUInt16LE(end + 10);
+	const centralSize = zip.readUInt32LE(end + 12);
+	let central = zip.readUInt32LE(end + 16);
+	assert.strictEqual(central + centralSize, end, 'central directory ends where the end record starts');
+
+	const entries: ReadEntry[] = [];
+	for (let index = 0; index < count; index++) {
+		assert.strictEqual(zip.readUInt32LE(central), 0x02014b50, `central header ${index}`);
+		assert.strictEqual(zip.readUInt16LE(central + 10), 8, 'deflate');
+		const crc = zip.readUInt32LE(central + 16);
+		const compressedSize = zip.readUInt32LE(central + 20);
+		const size = zip.readUInt32LE(central + 24);
+		const nameLength = zip.readUInt16LE(central + 28);
+		const extraLength = zip.readUInt16LE(central + 30);
+		const commentLength = zip.readUInt16LE(central + 32);
+		const localOffset = zip.readUInt32LE(central + 42);
+		const name = zip.toString('utf8', central + 46, central + 46 + nameLength);
+
+		assert.strictEqual(zip.readUInt32LE(localOffset), 0x04034b50, `local header of ${name}`);
+		assert.strictEqual(zip.readUInt32LE(localOffset + 14), crc, `local CRC of ${name}`);
+		const localNameLength = zip.readUInt16LE(localOffset + 26);
+		const localExtraLength = zip.readUInt16LE(localOffset + 28);
+		assert.strictEqual(zip.toString('utf8', localOffset + 30, localOffset + 30 + localNameLength), name);
+		const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+		const data = zlib.inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+		assert.strictEqual(data.length, size, `size of ${name}`);
+
+		entries.push({ name, data, crc });
+		central += 46 + nameLength + extraLength + commentLength;
+	}
+	return entries;
+}
+
+suite('Diagnostics bundle', () => {
+	test('the zip reads back with every name, content and CRC intact', () => {
+		const entries: BundleEntry[] = [
+			{ name: 'settings.json', data: Buffer.from('{\n  "udonsharpLinter.trace.server": "verbose"\n}\n', 'utf8') },
+			{ name: 'logs/server/server.log', data: Buffer.from('line\n'.repeat(1000), 'utf8') },
+			{ name: 'logs/client/ログ.log', data: Buffer.from('日本語のログ\n', 'utf8') },
+			{ name: 'empty.txt', data: Buffer.alloc(0) },
+		];
+
+		const read = readZip(createZip(entries));
+
+		assert.deepStrictEqual(read.map(entry => entry.name), entries.map(entry => entry.name));
+		for (const [index, entry] of read.entries()) {
+			assert.ok(entry.data.equals(entries[index].data), `content of ${entry.name}`);
+			assert.strictEqual(entry.crc, zlib.crc32(entries[index].data), `CRC of ${entry.name}`);
+		}
+	});
+
+	test('an empty bundle is a valid empty archive', () => {
+		assert.deepStrictEqual(readZip(createZip([])), []);
+	});
+});
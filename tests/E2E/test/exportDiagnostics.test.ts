@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { SettingsManager } from '../../../client/src/config/settings';
+import { RuleDescriptor } from '../../../client/src/lsp/messages';
+import { ExportContext, fromWorkspaceAnalysis, toJUnit, toSarif } from '../../../client/src/ui/exportDiagnostics';
+
+const RULE: RuleDescriptor = {
+	id: 'USH0004',
+	title: 'Unsupported API',
+	category: 'API',
+	defaultSeverity: DiagnosticSeverity.Error,
+	description: 'The API is not exposed to Udon.',
+	helpLink: 'https://example.com/USH0004',
+	hasCodeFix: false,
+	profileSeverity: { latest: DiagnosticSeverity.Error },
+};
+
+function createContext(): ExportContext {
+	const findings = fromWorkspaceAnalysis({
+		files: [{
+			uri: 'file:///project/Assets/Door.cs',
+			diagnostics: [
+				{ code: 'USH0004', message: 'Use of <Type> is "unsupported"', severity: DiagnosticSeverity.Error, range: { start: { line: 4, character: 2 }, end: { line: 4, character: 9 } } },
+				{ code: 'USH0010', message: 'Info finding', severity: DiagnosticSeverity.Information, range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } } },
+				{ code: 'USH0011', message: 'Disabled rule', severity: DiagnosticSeverity.Hint, range: { start: { line: 1, character: 0 }, end: { line: 1, character: 1 } } },
+			],
+		}],
+		analyzedFileCount: 1,
+		totalFileCount: 1,
+		cancelled: false,
+	});
+	return {
+		findings,
+		rules: new Map([[RULE.id, RULE]]),
+		settings: { settings: { profile: 'latest', ruleOverrides: {} } } as unknown as SettingsManager,
+		toolVersion: '1.2.3',
+	};
+}
+
+suite('Diagnostics export', () => {
+	test('hints from rules set to off are not exported', () => {
+		assert.deepStrictEqual(createContext().findings.map(finding => finding.ruleId), ['USH0004', 'USH0010']);
+	});
+
+	test('SARIF lists each rule once and uses one-based regions', () => {
+		const sarif = JSON.parse(toSarif(createContext()));
+		assert.strictEqual(sarif.version, '2.1.0');
+
+		const [run] = sarif.runs;
+		assert.strictEqual(run.tool.driver.version, '1.2.3');
+		assert.deepStrictEqual(run.tool.driver.rules.map((rule: { id: string }) => rule.id), ['USH0004', 'USH0010']);
+		assert.deepStrictEqual(run.tool.driver.rules[0].defaultConfiguration, { level: 'error' });
+		assert.strictEqual(run.tool.driver.rules[0].helpUri, RULE.helpLink);
+
+		const [error, info] = run.results;
+		assert.strictEqual(error.ruleIndex, 0);
+		assert.strictEqual(error.level, 'error');
+		assert.strictEqual(info.level, 'note');
+		assert.deepStrictEqual(error.locations[0].physicalLocation.region, { startLine: 5, startColumn: 3, endLine: 5, endColumn: 10 });
+		assert.match(error.locations[0].physicalLocation.artifactLocation.uri, /Assets\/Door\.cs$/);
+	});
+
+	test('JUnit has a failing test case per finding with escaped text', () => {
+		const junit = toJUnit(createContext());
+		assert.match(junit, /^<\?xml version="1\.0" encoding="UTF-8"\?>/);
+		assert.match(junit, /<testsuites name="UdonSharp Linter" tests="2" failures="2">/);
+		assert.strictEqual(junit.match(/<testsuite /g)?.length, 1);
+		assert.strictEqual(junit.match(/<testcase /g)?.length, 2);
+		assert.match(junit, /name="USH0004 \(5:3\)"/);
+		assert.match(junit, /message="Use of &lt;Type&gt; is &quot;unsupported&quot;"/);
+		assert.ok(!junit.includes('<Type>'));
+	});
+});
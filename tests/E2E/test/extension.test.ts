@@ -13,3 +13,18 @@ suite('Extension Test Suite', () => {
 		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
 	});
 });
+
+suite('Activation', () => {
+	// The test host has no published server, so this also covers activation after a failed start.
+	test('server commands are registered even when the server cannot start', async function () {
+		this.timeout(60000);
+		const extension = vscode.extensions.getExtension('refiaa.vscode-udonsharp-linter');
+		assert.ok(extension);
+		await extension.activate();
+
+		const commands = await vscode.commands.getCommands(true);
+		for (const command of ['udonsharpLinter.restartServer', 'udonsharpLinter.startServer', 'udonsharpLinter.stopServer', 'udonsharpLinter.showOutput', 'udonsharpLinter.showServerLog']) {
+			assert.ok(commands.includes(command), `${command} is registered`);
+		}
+	});
+});
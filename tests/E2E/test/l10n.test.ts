@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Compiled to out/tests/E2E/test, so the repository root is four levels up.
+const repositoryRoot = path.resolve(__dirname, '../../../..');
+const sourceRoot = path.join(repositoryRoot, 'client', 'src');
+const bundleRoot = path.join(repositoryRoot, 'client', 'i18n');
+
+const L10N_CALL = /l10n\.t\(\s*'((?:[^'\\]|\\.)*)'/g;
+const MANIFEST_KEY = /^%(.+)%$/;
+const PLACEHOLDER = /\{\d+\}/g;
+
+function listSourceFiles(directory: string): string[] {
+	return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+		const fullPath = path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			return listSourceFiles(fullPath);
+		}
+		return entry.name.endsWith('.ts') ? [fullPath] : [];
+	});
+}
+
+function collectLocalizedStrings(): Map<string, string> {
+	const messages = new Map<string, string>();
+	for (const file of listSourceFiles(sourceRoot)) {
+		const content = fs.readFileSync(file, 'utf8');
+		for (const match of content.matchAll(L10N_CALL)) {
+			const message = match[1].replace(/\\(.)/g, '$1');
+			messages.set(message, path.relative(repositoryRoot, file));
+		}
+	}
+	return messages;
+}
+
+function collectManifestKeys(value: unknown, keys: Set<string>): Set<string> {
+	if (typeof value === 'string') {
+		const match = MANIFEST_KEY.exec(value);
+		if (match) {
+			keys.add(match[1]);
+		}
+	} else if (Array.isArray(value)) {
+		value.forEach(item => collectManifestKeys(item, keys));
+	} else if (value && typeof value === 'object') {
+		Object.values(value).forEach(item => collectManifestKeys(item, keys));
+	}
+	return keys;
+}
+
+function readJson(filePath: string): Record<string, string> {
+	return JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, string>;
+}
+
+function placeholders(message: string): string[] {
+	return (message.match(PLACEHOLDER) ?? []).sort();
+}
+
+suite('Localization Test Suite', () => {
+	const bundles = fs.readdirSync(bundleRoot).filter(name => /^bundle\.l10n(\.[\w-]+)?\.json$/.test(name));
+	const manifestBundles = fs.readdirSync(repositoryRoot).filter(name => /^package\.nls(\.[\w-]+)?\.json$/.test(name));
+
+	test('ships a default and a Japanese bundle', () => {
+		assert.ok(bundles.includes('bundle.l10n.json'));
+		assert.ok(bundles.includes('bundle.l10n.ja.json'));
+		assert.ok(manifestBundles.includes('package.nls.json'));
+		assert.ok(manifestBundles.includes('package.nls.ja.json'));
+	});
+
+	test('every l10n.t string has an entry in every bundle', () => {
+		const messages = collectLocalizedStrings();
+		assert.ok(messages.size > 0, 'No l10n.t calls were found; is the source root correct?');
+		for (const bundle of bundles) {
+			const entries = readJson(path.join(bundleRoot, bundle));
+			const missing = [...messages].filter(([message]) => !(message in entries))
+				.map(([message, file]) => `${file}: ${message}`);
+			assert.deepStrictEqual(missing, [], `${bundle} is missing translations`);
+		}
+	});
+
+	test('translations keep the placeholders of the source string', () => {
+		for (const bundle of bundles) {
+			const entries = readJson(path.join(bundleRoot, bundle));
+			for (const [message, translation] of Object.entries(entries)) {
+				assert.deepStrictEqual(placeholders(translation), placeholders(message), `${bundle}: ${message}`);
+			}
+		}
+	});
+
+	test('every package.json placeholder has an entry in every package.nls file', () => {
+		const keys = collectManifestKeys(readJson(path.join(repositoryRoot, 'package.json')), new Set());
+		for (const bundle of manifestBundles) {
+			const entries = readJson(path.join(repositoryRoot, bundle));
+			const missing = [...keys].filter(key => !(key in entries));
+			assert.deepStrictEqual(missing, [], `${bundle} is missing manifest strings`);
+		}
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LinterSettings, SettingsManager } from '../../../client/src/config/settings';
+import { declaresUdonSharpBehaviour, LintScope } from '../../../client/src/lsp/lintScope';
+
+const DEFAULT_SCOPE = {
+	include: ['**/*.cs'],
+	exclude: ['**/Library/**', '**/Packages/**', '**/Editor/**'],
+	udonSharpBehavioursOnly: false,
+};
+
+// Outside any workspace folder, so the globs see the absolute path; `**/` patterns match either way.
+const PROJECT = path.join(os.tmpdir(), 'UdonSharpLinterWorld');
+
+class StubSettings {
+	private readonly emitter = new vscode.EventEmitter<LinterSettings>();
+	public readonly onDidChange = this.emitter.event;
+
+	constructor(public settings: LinterSettings) { }
+
+	public change(scope: Partial<typeof DEFAULT_SCOPE>): void {
+		this.settings = { ...this.settings, ...scope };
+		this.emitter.fire(this.settings);
+	}
+}
+
+function createScope(scope: Partial<typeof DEFAULT_SCOPE> = {}): { scope: LintScope; settings: StubSettings } {
+	const settings = new StubSettings({ ...DEFAULT_SCOPE, ...scope } as LinterSettings);
+	return { scope: new LintScope(settings as unknown as SettingsManager), settings };
+}
+
+function file(relativePath: string): vscode.Uri {
+	return vscode.Uri.file(path.join(PROJECT, ...relativePath.split('/')));
+}
+
+function document(uri: vscode.Uri, text: string): vscode.TextDocument {
+	return { uri, getText: () => text } as unknown as vscode.TextDocument;
+}
+
+suite('Lint scope', () => {
+	test('the default globs lint scripts and skip Library, Packages and Editor', () => {
+		const { scope } = createScope();
+		assert.ok(scope.includesUri(file('Assets/Scripts/Door.cs')));
+		assert.ok(!scope.includesUri(file('Library/PackageCache/com.vrchat.worlds/Runtime/Udon.cs')));
+		assert.ok(!scope.includesUri(file('Packages/com.vrchat.worlds/Runtime/Udon.cs')));
+		assert.ok(!scope.includesUri(file('Assets/Scripts/Editor/DoorInspector.cs')));
+		assert.ok(!scope.includesUri(file('Assets/Scripts/Door.shader')));
+	});
+
+	test('untitled files are in scope until they are saved', () => {
+		const { scope } = createScope({ include: ['**/Assets/**/*.cs'] });
+		assert.ok(scope.includesUri(vscode.Uri.parse('untitled:Untitled-1')));
+	});
+
+	test('globs match dot folders and tolerate surrounding spaces', () => {
+		const { scope } = createScope({ exclude: [' **/Assets/ThirdParty/** '] });
+		assert.ok(scope.includesUri(file('Assets/.hidden/Door.cs')));
+		assert.ok(!scope.includesUri(file('Assets/ThirdParty/Lib.cs')));
+	});
+
+	test('backslashes in globs are path separators', () => {
+		const { scope } = createScope({ exclude: ['**\\Assets\\ThirdParty\\**'] });
+		assert.ok(scope.includesUri(file('Assets/Scripts/Door.cs')));
+		assert.ok(!scope.includesUri(file('Assets/ThirdParty/Lib.cs')));
+	});
+
+	test('udonSharpBehavioursOnly keeps documents that declare a behaviour', () => {
+		const { scope } = createScope({ udonSharpBehavioursOnly: true });
+		const uri = file('Assets/Scripts/Door.cs');
+		assert.ok(scope.includesDocument(document(uri, 'public class Door : UdonSharpBehaviour { }')));
+		assert.ok(!scope.includesDocument(document(uri, 'public static class DoorMath { }')));
+		assert.ok(!scope.includesDocument(document(file('Assets/Editor/Door.cs'), 'public class Door : UdonSharpBehaviour { }')));
+	});
+
+	test('settings changes apply and fire onDidChange only when the scope changes', () => {
+		const { scope, settings } = createScope();
+		let changes = 0;
+		scope.onDidChange(() => changes++);
+		const uri = file('Assets/ThirdParty/Lib.cs');
+
+		settings.change({ exclude: [...DEFAULT_SCOPE.exclude, '**/ThirdParty/**'] });
+		assert.strictEqual(changes, 1);
+		assert.ok(!scope.includesUri(uri));
+
+		settings.change({});
+		assert.strictEqual(changes, 1);
+		scope.dispose();
+	});
+
+	test('only direct UdonSharpBehaviour subclasses count as behaviours', () => {
+		assert.ok(declaresUdonSharpBehaviour('public class Door : UdonSharpBehaviour { }'));
+		assert.ok(declaresUdonSharpBehaviour('public class Door\n\t: UdonSharpBehaviour, IDisposable { }'));
+		assert.ok(!declaresUdonSharpBehaviour('public class Door : DoorBase { }'));
+		assert.ok(!declaresUdonSharpBehaviour('public class Door : UdonSharpBehaviourExtensions { }'));
+		assert.ok(!declaresUdonSharpBehaviour('// UdonSharpBehaviour'));
+	});
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { getLocaleFallbackChain } from '../../../client/src/lsp/documentationStore';
+
+suite('Locale fallback chain', () => {
+	test('a bare language reaches its regional documentation before English', () => {
+		assert.deepStrictEqual(getLocaleFallbackChain('ja', ['en-us', 'ja-jp']), ['ja', 'ja-jp', 'en-US']);
+	});
+
+	test('a regional locale tries its language and sibling regions', () => {
+		assert.deepStrictEqual(getLocaleFallbackChain('pt-BR', ['pt-pt', 'pt-br', 'es-es']), ['pt-BR', 'pt', 'pt-pt', 'en-US']);
+	});
+
+	test('without stored variants the chain is locale, language, English', () => {
+		assert.deepStrictEqual(getLocaleFallbackChain('ja-JP'), ['ja-JP', 'ja', 'en-US']);
+	});
+
+	test('English is not repeated', () => {
+		assert.deepStrictEqual(getLocaleFallbackChain('en-US', ['en-us', 'en-gb']), ['en-US', 'en', 'en-gb']);
+	});
+});
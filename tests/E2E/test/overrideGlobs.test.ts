@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { findUnsupportedGlobSyntax } from '../../../client/src/config/globSyntax';
+import { createGlob } from '../../../client/src/lsp/lintScope';
+
+suite('Override glob dialect', () => {
+	test('accepts the syntax the server matches the same way', () => {
+		for (const glob of ['Assets/**', '**/Tests/**', 'Assets/*.cs', 'Assets/Foo?.cs', 'Assets/{A,B}/**', 'Assets\\ThirdParty\\**']) {
+			assert.strictEqual(findUnsupportedGlobSyntax(glob), undefined, glob);
+		}
+	});
+
+	test('rejects syntax only minimatch understands', () => {
+		for (const glob of ['Assets/[ab].cs', 'Assets/{a,{b,c}}/**', 'Assets/{a,b', 'Assets/{a}.cs', 'Assets/{1..3}.cs', 'Assets/@(a|b).cs', '!Assets/**', '#Assets', 'Assets/a**/b.cs']) {
+			assert.notStrictEqual(findUnsupportedGlobSyntax(glob), undefined, glob);
+		}
+	});
+
+	test('supported globs match as the server documents', () => {
+		assert.ok(createGlob('**/Tests/**').match('Tests/Foo.cs'));
+		assert.ok(createGlob('Assets/**/*.cs').match('Assets/Foo.cs'));
+		assert.ok(createGlob('Assets/{A,B}/*.cs').match('Assets/B/Foo.cs'));
+		assert.ok(createGlob('Assets\\ThirdParty\\**').match('Assets/ThirdParty/Lib/Foo.cs'));
+		assert.ok(!createGlob('Assets/*.cs').match('Assets/Sub/Foo.cs'));
+		assert.ok(!createGlob('Assets/Foo?.cs').match('Assets/Foo/.cs'));
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { validatePolicyPack } from '../../../client/src/ui/policyPackValidator';
+
+function createDocument(pack: unknown): vscode.TextDocument {
+	const text = JSON.stringify(pack, undefined, 2);
+	return {
+		getText: () => text,
+		positionAt: (offset: number) => {
+			const before = text.slice(0, offset).split('\n');
+			return new vscode.Position(before.length - 1, before[before.length - 1].length);
+		},
+	} as unknown as vscode.TextDocument;
+}
+
+function rule(fields: Record<string, unknown> = {}): Record<string, unknown> {
+	return {
+		id: 'TEAM0001',
+		title: 'Title',
+		message: 'Message',
+		category: 'Team',
+		defaultSeverity: 'warn',
+		documentation: { 'en-US': { markdown: '# Title' } },
+		...fields,
+	};
+}
+
+function messages(pack: unknown): string[] {
+	return validatePolicyPack(createDocument(pack)).map(diagnostic => diagnostic.message);
+}
+
+suite('Policy pack validation', () => {
+	test('a complete rule has no problems', () => {
+		assert.deepStrictEqual(messages({ rules: [rule()] }), []);
+	});
+
+	test('a pack without a rules array is an error', () => {
+		assert.deepStrictEqual(messages({}), ['A policy pack must contain a "rules" array.']);
+		assert.deepStrictEqual(messages([]), ['A policy pack must be a JSON object with a "rules" array.']);
+	});
+
+	test('a missing or empty ID only skips that rule', () => {
+		const { id: _id, ...withoutId } = rule();
+		assert.deepStrictEqual(messages({ rules: [withoutId] }), ['Rule has no "id"; the server skips this rule.']);
+		assert.deepStrictEqual(messages({ rules: [rule({ id: '' })] }), ['Rule has no "id"; the server skips this rule.']);
+	});
+
+	test('other missing fields skip the whole pack', () => {
+		const { title: _title, ...withoutTitle } = rule();
+		assert.deepStrictEqual(messages({ rules: [withoutTitle] }), ['Rule is missing required field "title"; the server would skip the whole pack.']);
+		assert.deepStrictEqual(messages({ rules: [rule({ id: 1 })] }), ['"id" must be a string; the server would skip the whole pack.']);
+	});
+
+	test('duplicate IDs are reported on both definitions', () => {
+		const diagnostics = validatePolicyPack(createDocument({ rules: [rule(), rule({ id: 'team0001' })] }));
+		assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.message, diagnostic.severity]), [
+			['Duplicate rule ID team0001; only the last definition is used.', vscode.DiagnosticSeverity.Error],
+			['Rule team0001 is redefined later in this pack.', vscode.DiagnosticSeverity.Warning],
+		]);
+	});
+
+	test('unknown severities are reported', () => {
+		assert.strictEqual(messages({ rules: [rule({ defaultSeverity: 'loud' })] }).length, 1);
+	});
+});
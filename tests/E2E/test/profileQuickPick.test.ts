@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { RuleDescriptor } from '../../../client/src/lsp/messages';
+import { RuleRepository } from '../../../client/src/lsp/ruleRepository';
+import { PROFILE_DIFF_SCHEME, ProfileDiffContentProvider, listProfiles } from '../../../client/src/ui/profileQuickPick';
+
+function rule(id: string, profileSeverity: Record<string, DiagnosticSeverity>, baseSeverity: DiagnosticSeverity = DiagnosticSeverity.Warning): RuleDescriptor {
+	return {
+		id,
+		title: `${id} title`,
+		category: 'Networking',
+		defaultSeverity: baseSeverity,
+		description: '',
+		helpLink: null,
+		hasCodeFix: false,
+		profileSeverity,
+		baseSeverity,
+	};
+}
+
+const RULES = [
+	rule('USH0001', { latest: DiagnosticSeverity.Error, 'legacy_0.x': DiagnosticSeverity.Warning }),
+	rule('USH0002', { latest: DiagnosticSeverity.Warning, 'legacy_0.x': DiagnosticSeverity.Warning }),
+	// Not in legacy_0.x, so it falls back to its base severity there.
+	rule('USH0003', { latest: DiagnosticSeverity.Error }, DiagnosticSeverity.Information),
+	rule('TEAM0001', { Team_Strict: DiagnosticSeverity.Error, LATEST: DiagnosticSeverity.Hint }),
+];
+
+function diff(profile: string, other: string): string {
+	const provider = new ProfileDiffContentProvider({ rules: RULES } as unknown as RuleRepository);
+	return provider.provideTextDocumentContent(vscode.Uri.from({ scheme: PROFILE_DIFF_SCHEME, path: `/${profile}.txt`, query: other }));
+}
+
+suite('Profile picker', () => {
+	test('custom pack profiles follow the shipped ones, without case-insensitive duplicates', () => {
+		assert.deepStrictEqual(listProfiles(RULES, 'latest'), ['latest', 'legacy_0.x', 'strict_experimental', 'Team_Strict']);
+	});
+
+	test('a configured profile no rule defines is still listed', () => {
+		assert.deepStrictEqual(listProfiles(RULES, 'mine').slice(-2), ['Team_Strict', 'mine']);
+	});
+
+	test('the diff lists only rules whose severity changes, as seen from each side', () => {
+		assert.strictEqual(diff('latest', 'legacy_0.x'), [
+			'# latest',
+			'',
+			'USH0001  error  USH0001 title',
+			'USH0003  error  USH0003 title',
+			'TEAM0001  off    TEAM0001 title',
+			'',
+		].join('\n'));
+		assert.strictEqual(diff('legacy_0.x', 'latest'), [
+			'# legacy_0.x',
+			'',
+			'USH0001  warn   USH0001 title',
+			'USH0003  info   USH0003 title',
+			'TEAM0001  warn   TEAM0001 title',
+			'',
+		].join('\n'));
+	});
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { rebaseGlob, validateProjectConfig } from '../../../client/src/config/projectConfig';
+import { resolveRuleOverrides, resolveValue } from '../../../client/src/config/settings';
+
+function configuration(values: Record<string, Partial<Record<'defaultValue' | 'globalValue' | 'workspaceValue' | 'workspaceFolderValue', unknown>>>): vscode.WorkspaceConfiguration {
+	return { inspect: (key: string) => values[key] && { key, ...values[key] } } as unknown as vscode.WorkspaceConfiguration;
+}
+
+suite('Project config', () => {
+	const baseDirectory = path.resolve('project');
+
+	test('keeps valid values and resolves paths against the config file', () => {
+		const problems: string[] = [];
+		const values = validateProjectConfig({
+			profile: 'legacy_0.x',
+			rules: { USH0004: 'off' },
+			customStubPath: 'Stubs',
+			policyPackPaths: ['packs/team.json'],
+			exclude: ['Assets/ThirdParty/**'],
+		}, baseDirectory, problems);
+
+		assert.deepStrictEqual(problems, []);
+		assert.strictEqual(values.profile, 'legacy_0.x');
+		assert.deepStrictEqual(values.rules, { USH0004: 'off' });
+		assert.strictEqual(values.customStubPath, path.join(baseDirectory, 'Stubs'));
+		assert.deepStrictEqual(values.policyPackPaths, [path.join(baseDirectory, 'packs', 'team.json')]);
+		assert.deepStrictEqual(values.exclude, ['Assets/ThirdParty/**']);
+	});
+
+	test('drops invalid values and reports each one', () => {
+		const problems: string[] = [];
+		const values = validateProjectConfig({
+			profile: '',
+			rules: { USH0004: 'loud', USH0010: 'warn' },
+			unityApiSurface: 'everything',
+			unknown: true,
+		}, baseDirectory, problems);
+
+		assert.strictEqual(values.profile, undefined);
+		assert.deepStrictEqual(values.rules, { USH0010: 'warn' });
+		assert.strictEqual(values.unityApiSurface, undefined);
+		assert.strictEqual(problems.length, 4);
+	});
+
+	test('rejects a config that is not an object', () => {
+		const problems: string[] = [];
+		assert.deepStrictEqual(validateProjectConfig([], baseDirectory, problems), {});
+		assert.strictEqual(problems.length, 1);
+	});
+
+	test('drops override globs outside the supported dialect', () => {
+		const problems: string[] = [];
+		const values = validateProjectConfig({
+			overrides: [
+				{ files: ['Assets/[ab]/**', 'Assets/Tests/**'], rules: { USH0010: 'info' } },
+				{ files: ['!Assets/**'], rules: { USH0004: 'off' } },
+			],
+		}, baseDirectory, problems);
+
+		assert.deepStrictEqual(values.overrides, [{ files: ['Assets/Tests/**'], rules: { USH0010: 'info' } }]);
+		assert.strictEqual(problems.length, 2);
+	});
+
+	test('globs in a config file below the workspace folder are rebased onto its folder', () => {
+		const problems: string[] = [];
+		const values = validateProjectConfig({
+			include: ['Assets/**/*.cs'],
+			exclude: ['**/Editor/**'],
+			overrides: [{ files: ['Assets/ThirdParty/**'], rules: { USH0004: 'off' } }],
+		}, baseDirectory, problems, 'MyWorld');
+
+		assert.deepStrictEqual(problems, []);
+		assert.deepStrictEqual(values.include, ['MyWorld/Assets/**/*.cs']);
+		assert.deepStrictEqual(values.exclude, ['MyWorld/**/Editor/**']);
+		assert.deepStrictEqual(values.overrides, [{ files: ['MyWorld/Assets/ThirdParty/**'], rules: { USH0004: 'off' } }]);
+	});
+
+	test('rebasing keeps negation in front and normalizes separators', () => {
+		assert.strictEqual(rebaseGlob('Assets/**', ''), 'Assets/**');
+		assert.strictEqual(rebaseGlob('./Assets/**', 'Worlds\\Main'), 'Worlds/Main/Assets/**');
+		assert.strictEqual(rebaseGlob('!Assets\\Tests/**', 'MyWorld'), '!MyWorld/Assets/Tests/**');
+	});
+});
+
+suite('Settings precedence', () => {
+	test('the project file wins over user settings', () => {
+		const resolved = resolveValue(configuration({ profile: { defaultValue: 'latest', globalValue: 'strict_experimental' } }), 'profile', 'legacy_0.x', 'latest');
+		assert.deepStrictEqual(resolved, { value: 'legacy_0.x', source: 'projectFile' });
+	});
+
+	test('workspace and folder settings win over the project file', () => {
+		const workspace = resolveValue(configuration({ profile: { workspaceValue: 'latest' } }), 'profile', 'legacy_0.x', 'latest');
+		assert.deepStrictEqual(workspace, { value: 'latest', source: 'workspace' });
+
+		const folder = resolveValue(configuration({ profile: { workspaceValue: 'latest', workspaceFolderValue: 'strict_experimental' } }), 'profile', 'legacy_0.x', 'latest');
+		assert.deepStrictEqual(folder, { value: 'strict_experimental', source: 'workspaceFolder' });
+	});
+
+	test('unset values fall back to the default', () => {
+		assert.deepStrictEqual(resolveValue(configuration({}), 'profile', undefined, 'latest'), { value: 'latest', source: 'default' });
+	});
+
+	test('rule overrides merge per rule across layers', () => {
+		const rules = resolveRuleOverrides(configuration({
+			rules: {
+				globalValue: { USH0001: 'error', USH0004: 'warn' },
+				workspaceValue: { USH0004: 'info' },
+			},
+		}), { USH0004: 'off', USH0010: 'off' });
+
+		assert.deepStrictEqual(rules.value, { USH0001: 'error', USH0004: 'info', USH0010: 'off' });
+		assert.deepStrictEqual(rules.sources, { USH0001: 'user', USH0004: 'workspace', USH0010: 'projectFile' });
+	});
+});
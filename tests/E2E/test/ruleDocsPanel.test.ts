@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { linkRuleIds } from '../../../client/src/ui/ruleDocsPanel';
+
+const KNOWN = new Set(['USH0001', 'USH0004', 'TEAM0001']);
+
+function link(ruleId: string): string {
+	return `<a href="#" data-action="navigate" data-rule="${ruleId}">${ruleId}</a>`;
+}
+
+suite('Rule documentation panel', () => {
+	test('known rule IDs in text become in-panel links', () => {
+		assert.strictEqual(
+			linkRuleIds('<p>See USH0001 and TEAM0001.</p>', KNOWN, 'USH0004'),
+			`<p>See ${link('USH0001')} and ${link('TEAM0001')}.</p>`,
+		);
+	});
+
+	test('the current rule, unknown IDs and partial words stay plain', () => {
+		assert.strictEqual(
+			linkRuleIds('<p>USH0004 replaces USH9999 and XUSH0001.</p>', KNOWN, 'USH0004'),
+			'<p>USH0004 replaces USH9999 and XUSH0001.</p>',
+		);
+	});
+
+	test('IDs inside links, code blocks and tags are left alone', () => {
+		const html = '<p><a href="https://example.com/USH0001">about USH0001</a></p><pre><code>// USH0001\n</code></pre><p title="USH0001">USH0001</p>';
+		assert.strictEqual(
+			linkRuleIds(html, KNOWN, 'USH0004'),
+			`<p><a href="https://example.com/USH0001">about USH0001</a></p><pre><code>// USH0001\n</code></pre><p title="USH0001">${link('USH0001')}</p>`,
+		);
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { RuleDescriptor } from '../../../client/src/lsp/messages';
+import { groupByCategory, summarizeRuleOccurrences } from '../../../client/src/ui/ruleInsightsTree';
+import { RuleOccurrence } from '../../../client/src/ui/ruleOccurrences';
+
+function rule(id: string, category: string): RuleDescriptor {
+	return {
+		id,
+		title: id,
+		category,
+		defaultSeverity: DiagnosticSeverity.Warning,
+		description: '',
+		helpLink: null,
+		hasCodeFix: false,
+		baseSeverity: DiagnosticSeverity.Warning,
+	};
+}
+
+function occurrences(...files: string[]): RuleOccurrence[] {
+	return files.map((file, line) => ({
+		uri: vscode.Uri.file(`/project/Assets/${file}`),
+		diagnostic: new vscode.Diagnostic(new vscode.Range(line, 0, line, 1), 'message', vscode.DiagnosticSeverity.Warning),
+	}));
+}
+
+const RULES = [rule('USH0001', 'Api'), rule('USH0002', 'Networking'), rule('USH0004', 'Networking')];
+
+const OCCURRENCES = new Map([
+	['USH0004', occurrences('Door.cs')],
+	['USH0001', occurrences('Lamp.cs', 'Door.cs', 'Lamp.cs')],
+	['USH0002', occurrences('Door.cs')],
+	// Published by a server whose catalogue the client has not loaded yet.
+	['TEAM0001', occurrences('Door.cs', 'Door.cs')],
+]);
+
+suite('Rule insights', () => {
+	test('rules are ordered by count, then by ID', () => {
+		const rules = summarizeRuleOccurrences(RULES, OCCURRENCES);
+		assert.deepStrictEqual(rules.map(node => [node.ruleId, node.count]), [['USH0001', 3], ['TEAM0001', 2], ['USH0002', 1], ['USH0004', 1]]);
+		assert.strictEqual(rules[0].rule?.category, 'Api');
+		assert.strictEqual(rules[1].rule, undefined);
+	});
+
+	test('files under a rule are ordered by count, then by path', () => {
+		const [ush0001] = summarizeRuleOccurrences(RULES, OCCURRENCES);
+		assert.deepStrictEqual(
+			ush0001.files.map(file => [file.uri.path, file.occurrences.length]),
+			[['/project/Assets/Lamp.cs', 2], ['/project/Assets/Door.cs', 1]],
+		);
+	});
+
+	test('categories sum their rules and put unknown rules under General', () => {
+		const categories = groupByCategory(summarizeRuleOccurrences(RULES, OCCURRENCES));
+		assert.deepStrictEqual(
+			categories.map(node => [node.category, node.count, node.rules.map(ruleNode => ruleNode.ruleId)]),
+			[['Api', 3, ['USH0001']], ['General', 2, ['TEAM0001']], ['Networking', 2, ['USH0002', 'USH0004']]],
+		);
+	});
+});
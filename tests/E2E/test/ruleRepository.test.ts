@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { RuleDocumentation } from '../../../client/src/lsp/messages';
+import { isDocumentationFound } from '../../../client/src/lsp/ruleRepository';
+
+const documentation: RuleDocumentation = { id: 'USH0004', locale: 'en-US', title: 'Title', markdown: '# Title' };
+
+suite('Rule documentation lookups', () => {
+	test('an answer with found: true is documentation', () => {
+		assert.strictEqual(isDocumentationFound({ ...documentation, found: true }), true);
+	});
+
+	test('an answer from a server that does not send found is documentation', () => {
+		assert.strictEqual(isDocumentationFound(documentation), true);
+	});
+
+	test('only found: false or no answer is a miss', () => {
+		assert.strictEqual(isDocumentationFound({ ...documentation, found: false }), false);
+		assert.strictEqual(isDocumentationFound(null), false);
+		assert.strictEqual(isDocumentationFound(undefined), false);
+	});
+});
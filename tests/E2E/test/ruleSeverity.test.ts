@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { explainRuleSeverities, findShadowedRuleOverrides, mergeRuleOverrides } from '../../../client/src/config/ruleSeverity';
+import { LinterSettings, SettingSources } from '../../../client/src/config/settings';
+import { RuleDescriptor } from '../../../client/src/lsp/messages';
+
+function rule(id: string, latest: DiagnosticSeverity, legacy: DiagnosticSeverity): RuleDescriptor {
+	return {
+		id,
+		title: id,
+		category: 'Networking',
+		defaultSeverity: latest,
+		description: '',
+		helpLink: null,
+		hasCodeFix: false,
+		profileSeverity: { latest, 'legacy_0.x': legacy },
+		baseSeverity: latest,
+	};
+}
+
+// The same scenario as LinterSettingsTests on the server, so both sides are held to one precedence.
+const RULES = [
+	rule('USH0001', DiagnosticSeverity.Error, DiagnosticSeverity.Warning),
+	rule('USH0002', DiagnosticSeverity.Warning, DiagnosticSeverity.Warning),
+	rule('USH0003', DiagnosticSeverity.Error, DiagnosticSeverity.Information),
+];
+
+const SETTINGS = {
+	profile: 'latest',
+	ruleOverrides: { USH0001: 'warn' },
+	overrides: [
+		{ files: ['**/ThirdParty/**'], profile: 'legacy_0.x', rules: { USH0002: 'off' } },
+		{ files: ['**/ThirdParty/Vendor/**'], rules: { USH0001: 'error', USH0002: 'info' } },
+	],
+} as Partial<LinterSettings> as LinterSettings;
+
+const SOURCES = { ruleOverrides: { USH0001: 'user' } } as Partial<SettingSources> as SettingSources;
+
+function explain(filePath: string): Record<string, string> {
+	return Object.fromEntries(explainRuleSeverities(RULES, SETTINGS, SOURCES, vscode.Uri.file(filePath))
+		.map(entry => [entry.rule.id, entry.severity]));
+}
+
+suite('Effective rule severities', () => {
+	test('files outside every block use rules, then the workspace profile', () => {
+		assert.deepStrictEqual(explain('/project/Assets/Door.cs'), { USH0001: 'warn', USH0002: 'warn', USH0003: 'error' });
+	});
+
+	test('a block profile replaces the workspace profile and block rules win over rules', () => {
+		assert.deepStrictEqual(explain('/project/Assets/ThirdParty/Lib.cs'), { USH0001: 'warn', USH0002: 'off', USH0003: 'info' });
+	});
+
+	test('the last matching block that sets a rule wins', () => {
+		assert.deepStrictEqual(explain('/project/Assets/ThirdParty/Vendor/Lib.cs'), { USH0001: 'error', USH0002: 'info', USH0003: 'info' });
+	});
+
+	test('origins name the deciding block or setting', () => {
+		const origins = Object.fromEntries(explainRuleSeverities(RULES, SETTINGS, SOURCES, vscode.Uri.file('/project/Assets/ThirdParty/Vendor/Lib.cs'))
+			.map(entry => [entry.rule.id, entry.origin]));
+		assert.deepStrictEqual(origins, {
+			USH0001: { kind: 'override', block: 1 },
+			USH0002: { kind: 'override', block: 1 },
+			USH0003: { kind: 'profile', profile: 'legacy_0.x', block: 0 },
+		});
+	});
+});
+
+suite('Rule severity writes', () => {
+	test('entries are matched case-insensitively and rewritten in upper case', () => {
+		const { next, changed } = mergeRuleOverrides({ ush0001: 'warn', Ush0001: 'info', USH0002: 'off' }, ['USH0001', 'ush0003'], 'error');
+		assert.deepStrictEqual(next, { USH0002: 'off', USH0001: 'error', USH0003: 'error' });
+		assert.strictEqual(changed, 2);
+	});
+
+	test('entries that already match are not counted or rewritten', () => {
+		const current = { USH0001: 'error', USH0002: 'off' } as const;
+		const { next, changed } = mergeRuleOverrides(current, ['USH0001', 'usH0001'], 'error');
+		assert.deepStrictEqual(next, current);
+		assert.strictEqual(changed, 0);
+	});
+
+	test('resetting removes every spelling of a rule and skips rules without an entry', () => {
+		const { next, changed } = mergeRuleOverrides({ ush0001: 'warn', USH0001: 'info', USH0002: 'off' }, ['USH0001', 'USH0003'], undefined);
+		assert.deepStrictEqual(next, { USH0002: 'off' });
+		assert.strictEqual(changed, 1);
+		assert.deepStrictEqual(mergeRuleOverrides(undefined, ['USH0001'], undefined), { next: {}, changed: 0 });
+	});
+
+	test('entries from higher-precedence sources shadow a write', () => {
+		const sources = { ruleOverrides: { USH0001: 'workspaceFolder', USH0002: 'user', USH0003: 'workspace' } } as Partial<SettingSources> as SettingSources;
+		const ruleIds = ['ush0001', 'USH0002', 'USH0003', 'USH0004'];
+
+		assert.deepStrictEqual(findShadowedRuleOverrides(ruleIds, vscode.ConfigurationTarget.Workspace, sources), [
+			{ ruleId: 'ush0001', source: 'workspaceFolder' },
+		]);
+		assert.deepStrictEqual(findShadowedRuleOverrides(ruleIds, vscode.ConfigurationTarget.Global, sources), [
+			{ ruleId: 'ush0001', source: 'workspaceFolder' },
+			{ ruleId: 'USH0003', source: 'workspace' },
+		]);
+	});
+});
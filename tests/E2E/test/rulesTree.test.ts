@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DiagnosticSeverity } from 'vscode-languageclient/node';
+import { LinterSettings, SettingsManager } from '../../../client/src/config/settings';
+import { RuleDescriptor } from '../../../client/src/lsp/messages';
+import { RuleRepository } from '../../../client/src/lsp/ruleRepository';
+import { RuleCategoryNode, RulesTreeProvider } from '../../../client/src/ui/rulesTree';
+
+function rule(id: string, category: string, latest: DiagnosticSeverity): RuleDescriptor {
+	return {
+		id,
+		title: `${id} title`,
+		category,
+		defaultSeverity: latest,
+		description: '',
+		helpLink: null,
+		hasCodeFix: false,
+		profileSeverity: { latest },
+		baseSeverity: latest,
+	};
+}
+
+const RULES = [
+	rule('USH0004', 'Networking', DiagnosticSeverity.Warning),
+	rule('USH0001', 'Api', DiagnosticSeverity.Error),
+	rule('USH0010', '', DiagnosticSeverity.Information),
+	rule('USH0002', 'Networking', DiagnosticSeverity.Error),
+];
+
+function createProvider(ruleOverrides: LinterSettings['ruleOverrides'] = {}): RulesTreeProvider {
+	const repository = { rules: RULES, onDidChangeRules: new vscode.EventEmitter<void>().event };
+	const settings = {
+		settings: { profile: 'latest', ruleOverrides } as Partial<LinterSettings> as LinterSettings,
+		onDidChange: new vscode.EventEmitter<LinterSettings>().event,
+	};
+	return new RulesTreeProvider(repository as unknown as RuleRepository, settings as unknown as SettingsManager);
+}
+
+suite('Rules tree', () => {
+	test('rules are grouped by category, sorted by name, with uncategorised rules under General', () => {
+		const provider = createProvider();
+		const categories = provider.getChildren() as RuleCategoryNode[];
+
+		assert.deepStrictEqual(
+			categories.map(node => [node.category, node.rules.map(descriptor => descriptor.id)]),
+			[['Api', ['USH0001']], ['General', ['USH0010']], ['Networking', ['USH0004', 'USH0002']]],
+		);
+		assert.deepStrictEqual(provider.getChildren(categories[2]).map(node => node.kind === 'rule' && node.rule.id), ['USH0004', 'USH0002']);
+		assert.strictEqual(provider.getTreeItem(categories[2]).description, '2');
+		provider.dispose();
+	});
+
+	test('rule items show the profile severity, or the override and mark it', () => {
+		const provider = createProvider({ USH0002: 'off' });
+		const [networking] = (provider.getChildren() as RuleCategoryNode[]).filter(node => node.category === 'Networking');
+		const [byProfile, overridden] = provider.getChildren(networking).map(node => provider.getTreeItem(node));
+
+		assert.strictEqual(byProfile.description, 'warn · USH0004 title');
+		assert.strictEqual(byProfile.contextValue, 'udonsharpRule');
+		assert.strictEqual(overridden.description, 'off (override) · USH0002 title');
+		assert.strictEqual(overridden.contextValue, 'udonsharpRule.overridden');
+		assert.deepStrictEqual(overridden.command?.arguments, ['USH0002']);
+		provider.dispose();
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SERVER_PROJECT_PATH, detectExecutableName, detectPlatform, resolveServerCommand, resolveServerLogDirectory } from '../../../client/src/lsp/serverProcess';
+
+const EXTENSION_PATH = path.join(path.sep, 'extensions', 'udonsharp-linter');
+
+suite('Server process', () => {
+	let savedServerPath: string | undefined;
+
+	setup(() => {
+		savedServerPath = process.env.UDONSHARP_LINTER_SERVER_PATH;
+		delete process.env.UDONSHARP_LINTER_SERVER_PATH;
+	});
+
+	teardown(() => {
+		if (savedServerPath === undefined) {
+			delete process.env.UDONSHARP_LINTER_SERVER_PATH;
+		} else {
+			process.env.UDONSHARP_LINTER_SERVER_PATH = savedServerPath;
+		}
+	});
+
+	test('logs sit next to the bundled server', () => {
+		assert.strictEqual(
+			resolveServerLogDirectory(EXTENSION_PATH, {}),
+			path.join(EXTENSION_PATH, 'resources', 'server', detectPlatform(), 'logs'),
+		);
+	});
+
+	test('logs follow the server path setting before the environment variable', () => {
+		const serverPath = path.join(path.sep, 'opt', 'udonsharp', 'UdonSharpLsp.Server');
+		process.env.UDONSHARP_LINTER_SERVER_PATH = path.join(path.sep, 'env', 'UdonSharpLsp.Server');
+		assert.strictEqual(resolveServerLogDirectory(EXTENSION_PATH, { serverPath }), path.join(path.sep, 'opt', 'udonsharp', 'logs'));
+		assert.strictEqual(resolveServerLogDirectory(EXTENSION_PATH, {}), path.join(path.sep, 'env', 'logs'));
+	});
+
+	test('development mode reads logs from the dotnet run output', () => {
+		assert.strictEqual(
+			resolveServerLogDirectory(EXTENSION_PATH, { developmentMode: true, serverPath: '/ignored' }),
+			path.join(EXTENSION_PATH, 'server', 'bin', 'Debug', 'net8.0', 'logs'),
+		);
+	});
+
+	suite('command', () => {
+		let root: string;
+
+		setup(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'udonsharp-server-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		function createFile(relativePath: string): string {
+			const filePath = path.join(root, relativePath);
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, '');
+			return filePath;
+		}
+
+		test('the server path setting launches that executable', async () => {
+			const serverPath = createFile(path.join('custom', 'udonsharp-lsp'));
+			const command = await resolveServerCommand(root, { serverPath }, 'off');
+			assert.strictEqual(command.command, serverPath);
+			assert.deepStrictEqual(command.args, ['--lsp']);
+			assert.strictEqual(command.options.env.UDONSHARPLINTER_TELEMETRY, '0');
+		});
+
+		test('a missing server path names the setting it came from', async () => {
+			const serverPath = path.join(root, 'missing', 'udonsharp-lsp');
+			await assert.rejects(resolveServerCommand(root, { serverPath }, 'off'), /udonsharpLinter\.server\.path points to .*missing/);
+			process.env.UDONSHARP_LINTER_SERVER_PATH = serverPath;
+			await assert.rejects(resolveServerCommand(root, {}, 'off'), /UDONSHARP_LINTER_SERVER_PATH points to/);
+		});
+
+		test('development mode runs the server project with dotnet and wins over the server path', async () => {
+			const projectPath = createFile(SERVER_PROJECT_PATH);
+			const command = await resolveServerCommand(root, { developmentMode: true, serverPath: path.join(root, 'missing') }, 'off');
+			assert.strictEqual(command.command, 'dotnet');
+			assert.deepStrictEqual(command.args, ['run', '--project', projectPath, '--verbosity', 'quiet', '--', '--lsp']);
+			assert.strictEqual(command.options.env.DOTNET_NOLOGO, '1');
+		});
+
+		test('development mode outside a source checkout explains why it fails', async () => {
+			await assert.rejects(resolveServerCommand(root, { developmentMode: true }, 'off'), /only available when the extension runs from a source checkout/);
+		});
+
+		test('without a setting the bundled server for this platform is used', async () => {
+			await assert.rejects(resolveServerCommand(root, {}, 'off'), new RegExp(`server for ${detectPlatform()} is missing`));
+			const executablePath = createFile(path.join('resources', 'server', detectPlatform(), detectExecutableName()));
+			const command = await resolveServerCommand(root, {}, 'minimal');
+			assert.strictEqual(command.command, executablePath);
+			assert.deepStrictEqual(command.args, ['--lsp']);
+		});
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { countProblems, describeState } from '../../../client/src/ui/statusBar';
+
+function diagnostic(severity: vscode.DiagnosticSeverity, source = 'UdonSharp'): vscode.Diagnostic {
+	const result = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), 'message', severity);
+	result.source = source;
+	return result;
+}
+
+suite('Status bar', () => {
+	test('counts only the linter\'s errors and warnings across files', () => {
+		const counts = countProblems([
+			[vscode.Uri.file('/project/Assets/Door.cs'), [
+				diagnostic(vscode.DiagnosticSeverity.Error),
+				diagnostic(vscode.DiagnosticSeverity.Warning),
+				diagnostic(vscode.DiagnosticSeverity.Information),
+				diagnostic(vscode.DiagnosticSeverity.Error, 'csharp'),
+			]],
+			[vscode.Uri.file('/project/Assets/Lamp.cs'), [
+				diagnostic(vscode.DiagnosticSeverity.Warning),
+				diagnostic(vscode.DiagnosticSeverity.Hint),
+			]],
+		]);
+		assert.deepStrictEqual(counts, { errors: 1, warnings: 2 });
+	});
+
+	test('no diagnostics count as zero', () => {
+		assert.deepStrictEqual(countProblems([]), { errors: 0, warnings: 0 });
+	});
+
+	test('restarts show the attempt when the controller is retrying', () => {
+		assert.strictEqual(describeState({ kind: 'restarting', attempt: 2, maxAttempts: 5 }), 'Restarting (attempt 2 of 5)');
+		assert.strictEqual(describeState({ kind: 'restarting' }), 'Restarting');
+		assert.strictEqual(describeState({ kind: 'crashed' }), 'Crashed');
+	});
+});
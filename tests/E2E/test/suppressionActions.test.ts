@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LinterSettings, SettingsManager } from '../../../client/src/config/settings';
+import { DISABLE_RULE_COMMAND, SuppressionCodeActionProvider } from '../../../client/src/ui/suppressionActions';
+
+const LINES = [
+	'public class Door : UdonSharpBehaviour',
+	'{',
+	'\tpublic void Open()',
+	'\t{',
+	'\t\tSendCustomNetworkEvent(',
+	'\t\t\tNetworkEventTarget.All, "Open");',
+	'\t}',
+	'}',
+];
+
+function createDocument(eol: vscode.EndOfLine): vscode.TextDocument {
+	const uri = vscode.Uri.file('/project/Assets/Door.cs');
+	return {
+		uri,
+		eol,
+		lineAt: (line: number) => {
+			const text = LINES[line];
+			return {
+				text,
+				firstNonWhitespaceCharacterIndex: text.length - text.trimStart().length,
+				range: new vscode.Range(line, 0, line, text.length),
+			};
+		},
+	} as unknown as vscode.TextDocument;
+}
+
+function diagnostic(ruleId: string | undefined, startLine: number, endLine: number, source = 'UdonSharp'): vscode.Diagnostic {
+	const result = new vscode.Diagnostic(new vscode.Range(startLine, 2, endLine, 10), 'message', vscode.DiagnosticSeverity.Warning);
+	result.source = source;
+	result.code = ruleId;
+	return result;
+}
+
+function provide(diagnostics: vscode.Diagnostic[], options: { eol?: vscode.EndOfLine; codeActionsEnabled?: boolean } = {}): vscode.CodeAction[] {
+	const settings = { settings: { codeActionsEnabled: options.codeActionsEnabled ?? true } as Partial<LinterSettings> as LinterSettings };
+	const provider = new SuppressionCodeActionProvider(settings as unknown as SettingsManager);
+	const document = createDocument(options.eol ?? vscode.EndOfLine.LF);
+	return provider.provideCodeActions(document, new vscode.Range(0, 0, 0, 0), { diagnostics, triggerKind: 1, only: undefined } as unknown as vscode.CodeActionContext);
+}
+
+function insertedText(action: vscode.CodeAction): string[] {
+	return action.edit!.get(vscode.Uri.file('/project/Assets/Door.cs')).map(edit => edit.newText);
+}
+
+suite('Suppression quick fixes', () => {
+	test('line, file and workspace suppressions are offered for each rule', () => {
+		const actions = provide([diagnostic('USH0004', 4, 5)]);
+
+		assert.deepStrictEqual(actions.map(action => action.title), [
+			'Suppress USH0004 on this line',
+			'Suppress USH0004 in this file',
+			'Disable USH0004 in workspace settings',
+		]);
+		assert.strictEqual(actions[2].command?.command, DISABLE_RULE_COMMAND);
+		assert.deepStrictEqual(actions[2].command?.arguments, ['USH0004']);
+	});
+
+	test('the line pragma wraps the whole diagnostic with the first line\'s indentation', () => {
+		const [line] = provide([diagnostic('USH0004', 4, 5)]);
+		const edits = line.edit!.get(vscode.Uri.file('/project/Assets/Door.cs'));
+
+		assert.deepStrictEqual(edits.map(edit => edit.newText), [
+			'\t\t#pragma warning disable USH0004\n',
+			'\n\t\t#pragma warning restore USH0004',
+		]);
+		assert.strictEqual(edits[0].range.start.line, 4);
+		assert.strictEqual(edits[0].range.start.character, 0);
+		assert.strictEqual(edits[1].range.start.line, 5);
+		assert.strictEqual(edits[1].range.start.character, LINES[5].length);
+	});
+
+	test('pragmas follow the document line endings', () => {
+		const [line, file] = provide([diagnostic('USH0004', 4, 4)], { eol: vscode.EndOfLine.CRLF });
+		assert.deepStrictEqual(insertedText(line), ['\t\t#pragma warning disable USH0004\r\n', '\r\n\t\t#pragma warning restore USH0004']);
+		assert.deepStrictEqual(insertedText(file), ['#pragma warning disable USH0004\r\n']);
+	});
+
+	test('a repeated rule gets one file and workspace fix but a line fix per diagnostic', () => {
+		const actions = provide([diagnostic('USH0004', 2, 2), diagnostic('USH0004', 4, 4)]);
+		assert.deepStrictEqual(actions.map(action => action.title), [
+			'Suppress USH0004 on this line',
+			'Suppress USH0004 in this file',
+			'Disable USH0004 in workspace settings',
+			'Suppress USH0004 on this line',
+		]);
+	});
+
+	test('other sources, missing codes and disabled code actions get nothing', () => {
+		assert.deepStrictEqual(provide([diagnostic('CS0103', 2, 2, 'csharp'), diagnostic(undefined, 2, 2)]), []);
+		assert.deepStrictEqual(provide([diagnostic('USH0004', 2, 2)], { codeActionsEnabled: false }), []);
+	});
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { countRuleHits } from '../../../client/src/telemetry/telemetryReporter';
+
+function diagnostic(ruleId: string | undefined, source = 'UdonSharp'): vscode.Diagnostic {
+	const result = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), 'message', vscode.DiagnosticSeverity.Warning);
+	result.source = source;
+	result.code = ruleId;
+	return result;
+}
+
+suite('Telemetry', () => {
+	test('a first publish counts every finding by rule', () => {
+		const { counts, added } = countRuleHits([diagnostic('USH0004'), diagnostic('USH0004'), diagnostic('USH0001'), diagnostic(undefined), diagnostic('CS0103', 'csharp')]);
+		assert.deepStrictEqual(Object.fromEntries(counts), { USH0004: 2, USH0001: 1 });
+		assert.deepStrictEqual(Object.fromEntries(added), { USH0004: 2, USH0001: 1 });
+	});
+
+	test('republishing the same findings adds nothing', () => {
+		const { counts: previous } = countRuleHits([diagnostic('USH0004'), diagnostic('USH0001')]);
+		const { added } = countRuleHits([diagnostic('USH0004'), diagnostic('USH0001')], previous);
+		assert.strictEqual(added.size, 0);
+	});
+
+	test('only findings beyond the last publish are added, and fixed ones are not subtracted', () => {
+		const previous = new Map([['USH0004', 1], ['USH0001', 3]]);
+		const { counts, added } = countRuleHits([diagnostic('USH0004'), diagnostic('USH0004'), diagnostic('USH0004'), diagnostic('USH0001')], previous);
+		assert.deepStrictEqual(Object.fromEntries(added), { USH0004: 2 });
+		assert.deepStrictEqual(Object.fromEntries(counts), { USH0004: 3, USH0001: 1 });
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { detectUdonSharp, parseVersion, suggestConfiguration } from '../../../client/src/config/unityProject';
+
+const NONE = new Map<string, string>();
+
+suite('Unity project detection', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'udonsharp-project-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('versions ignore range prefixes and missing parts', () => {
+		assert.deepStrictEqual(parseVersion('3.4.2'), [3, 4, 2]);
+		assert.deepStrictEqual(parseVersion('^1.1.9'), [1, 1, 9]);
+		assert.deepStrictEqual(parseVersion('v2.1'), [2, 1, 0]);
+		assert.deepStrictEqual(parseVersion('0.x'), [0, 0, 0]);
+		assert.deepStrictEqual(parseVersion('3.5.0-beta.1'), [3, 5, 0]);
+	});
+
+	test('the VPM package wins over UPM and the Worlds SDK', () => {
+		const detected = detectUdonSharp(root, new Map([['com.merlin.udonsharp', '1.0.0']]), new Map([['com.merlin.udonsharp', '1.1.9']]), '3.5.0');
+		assert.deepStrictEqual(detected, { version: '1.1.9', source: 'vpm' });
+	});
+
+	test('the UPM package is used when there is no VPM one', () => {
+		assert.deepStrictEqual(detectUdonSharp(root, new Map([['com.merlin.udonsharp', '1.0.0']]), NONE, undefined), { version: '1.0.0', source: 'upm' });
+	});
+
+	test('Worlds SDK 3.4.0 and later bundle UdonSharp', () => {
+		assert.deepStrictEqual(detectUdonSharp(root, NONE, NONE, '3.4.0'), { version: '3.4.0', source: 'worldsSdk' });
+		assert.strictEqual(detectUdonSharp(root, NONE, NONE, '3.3.0'), undefined);
+	});
+
+	test('a legacy Assets/UdonSharp import reports its package version or 0.x', () => {
+		const legacy = path.join(root, 'Assets', 'UdonSharp');
+		fs.mkdirSync(legacy, { recursive: true });
+		assert.deepStrictEqual(detectUdonSharp(root, NONE, NONE, undefined), { version: '0.x', source: 'assets' });
+
+		fs.writeFileSync(path.join(legacy, 'package.json'), JSON.stringify({ version: '0.20.3' }));
+		assert.deepStrictEqual(detectUdonSharp(root, NONE, NONE, undefined), { version: '0.20.3', source: 'assets' });
+	});
+
+	test('the UdonSharp major version picks the profile', () => {
+		assert.deepStrictEqual(suggestConfiguration({ root, udonSharp: { version: '0.20.3', source: 'assets' } }), { profile: 'legacy_0.x' });
+		assert.deepStrictEqual(suggestConfiguration({ root, udonSharp: { version: '1.1.9', source: 'vpm' } }), { profile: 'latest' });
+		assert.deepStrictEqual(suggestConfiguration({ root }), {});
+	});
+
+	test('Library/ScriptAssemblies is suggested as custom stubs', () => {
+		const scriptAssembliesPath = path.join(root, 'Library', 'ScriptAssemblies');
+		assert.deepStrictEqual(suggestConfiguration({ root, scriptAssembliesPath }), {
+			unityApiSurface: 'custom-stubs',
+			customStubPath: scriptAssembliesPath,
+		});
+	});
+});
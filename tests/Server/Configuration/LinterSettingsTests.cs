@@ -0,0 +1,47 @@
+using System.Collections.Generic;
+using UdonSharpLsp.Server.Configuration;
+using Xunit;
+
+namespace UdonSharpLsp.Server.Tests.Configuration;
+
+// The same scenario as ruleSeverity.test.ts on the client, so both sides are held to one precedence.
+public sealed class LinterSettingsTests
+{
+    private static readonly LinterSettings Settings = LinterSettings.Default with
+    {
+        Profile = "latest",
+        RuleOverrides = new Dictionary<string, string> { ["USH0001"] = "warn" },
+        Overrides = new[]
+        {
+            new RuleOverrideBlock(new[] { "**/ThirdParty/**" }, "legacy_0.x", new Dictionary<string, string> { ["USH0002"] = "off" }),
+            new RuleOverrideBlock(new[] { "**/ThirdParty/Vendor/**" }, null, new Dictionary<string, string> { ["USH0001"] = "error", ["USH0002"] = "info" }),
+        },
+    };
+
+    [Fact]
+    public void DocumentsOutsideEveryBlockKeepTheWorkspaceSettings()
+    {
+        Assert.Same(Settings, Settings.ForDocument("Assets/Door.cs"));
+    }
+
+    [Fact]
+    public void BlockProfileReplacesTheWorkspaceProfileAndBlockRulesWin()
+    {
+        var settings = Settings.ForDocument("Assets/ThirdParty/Lib.cs");
+
+        Assert.Equal("legacy_0.x", settings.Profile);
+        Assert.Equal("warn", settings.RuleOverrides["USH0001"]);
+        Assert.Equal("off", settings.RuleOverrides["USH0002"]);
+    }
+
+    [Fact]
+    public void LastMatchingBlockThatSetsARuleWins()
+    {
+        var settings = Settings.ForDocument("Assets/ThirdParty/Vendor/Lib.cs");
+
+        Assert.Equal("legacy_0.x", settings.Profile);
+        Assert.Equal("error", settings.RuleOverrides["USH0001"]);
+        Assert.Equal("info", settings.RuleOverrides["USH0002"]);
+        Assert.False(settings.RuleOverrides.ContainsKey("USH0003"));
+    }
+}
@@ -0,0 +1,45 @@
+using System.Collections.Generic;
+using UdonSharpLsp.Server.Configuration;
+using Xunit;
+
+namespace UdonSharpLsp.Server.Tests.Configuration;
+
+public sealed class RuleOverrideBlockTests
+{
+    [Theory]
+    [InlineData("**/Tests/**", "Tests/Foo.cs")]
+    [InlineData("Assets/**/*.cs", "Assets/Foo.cs")]
+    [InlineData("Assets/{A,B}/*.cs", "Assets/B/Foo.cs")]
+    [InlineData("Assets\\ThirdParty\\**", "Assets/ThirdParty/Lib/Foo.cs")]
+    [InlineData(" Assets/*.cs ", "Assets/Foo.cs")]
+    public void SupportedGlobsMatchLikeTheClient(string glob, string path)
+    {
+        Assert.True(CreateBlock(glob).Matches(path));
+    }
+
+    [Theory]
+    [InlineData("Assets/*.cs", "Assets/Sub/Foo.cs")]
+    [InlineData("Assets/Foo?.cs", "Assets/Foo/.cs")]
+    public void SingleSegmentWildcardsStopAtSlashes(string glob, string path)
+    {
+        Assert.False(CreateBlock(glob).Matches(path));
+    }
+
+    [Theory]
+    [InlineData("Assets/[ab].cs")]
+    [InlineData("Assets/{a,{b,c}}/**")]
+    [InlineData("Assets/{a,b")]
+    [InlineData("Assets/{a}.cs")]
+    [InlineData("Assets/{1..3}.cs")]
+    [InlineData("Assets/@(a|b).cs")]
+    [InlineData("!Assets/**")]
+    [InlineData("#Assets")]
+    [InlineData("Assets/a**/b.cs")]
+    public void UnsupportedGlobsAreRejectedAndNeverMatch(string glob)
+    {
+        Assert.False(RuleOverrideBlock.IsSupportedGlob(glob));
+        Assert.False(CreateBlock(glob).Matches("Assets/a.cs"));
+    }
+
+    private static RuleOverrideBlock CreateBlock(string glob) => new(new[] { glob }, null, new Dictionary<string, string>());
+}
@@ -0,0 +1,108 @@
+using System.Linq;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging.Abstractions;
+using UdonSharpLsp.Server.Contracts;
+using UdonSharpLsp.Server.Handlers;
+using UdonSharpLsp.Server.Services;
+using Xunit;
+
+namespace UdonSharpLsp.Server.Tests.Handlers;
+
+public sealed class NetworkBehavioursHandlerTests
+{
+    // Just enough of the UdonSharp API to bind the behaviours below without the VRChat stubs.
+    private const string UdonSharpApi = """
+        namespace UdonSharp
+        {
+            public enum BehaviourSyncMode { Any, None, Continuous, Manual, NoVariableSync }
+            public enum NetworkEventTarget { All, Owner }
+            public sealed class UdonBehaviourSyncModeAttribute : System.Attribute { public UdonBehaviourSyncModeAttribute(BehaviourSyncMode mode) { } }
+            public sealed class UdonSyncedAttribute : System.Attribute { }
+            public class UdonSharpBehaviour
+            {
+                public void SendCustomEvent(string eventName) { }
+                public void SendCustomNetworkEvent(NetworkEventTarget target, string eventName) { }
+            }
+        }
+        """;
+
+    private const string Door = """
+        using UdonSharp;
+
+        [UdonBehaviourSyncMode(BehaviourSyncMode.Manual)]
+        public class Door : UdonSharpBehaviour
+        {
+            [UdonSynced] public bool isOpen;
+            public Lock doorLock;
+
+            public void Interact()
+            {
+                SendCustomNetworkEvent(NetworkEventTarget.All, nameof(Open));
+                doorLock.SendCustomEvent(nameof(Lock.Engage));
+                SendCustomEvent("Missing");
+            }
+
+            public void Open() { }
+        }
+        """;
+
+    private const string Lock = """
+        using UdonSharp;
+
+        public class Lock : UdonSharpBehaviour
+        {
+            public void Engage() { }
+        }
+        """;
+
+    [Fact]
+    public async Task ResolvesEventTargetsAcrossFilesTheClientHasNotOpened()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var uris = new[]
+        {
+            workspace.WriteFile("UdonSharp.cs", UdonSharpApi),
+            workspace.WriteFile("Door.cs", Door),
+            workspace.WriteFile("Lock.cs", Lock),
+        };
+        var handler = new NetworkBehavioursHandler(workspace.Manager, new NetworkModelService(), NullLogger<NetworkBehavioursHandler>.Instance);
+
+        var response = await handler.Handle(new NetworkBehavioursRequest { Uris = uris.Select(uri => uri.ToString()).ToArray() }, default);
+
+        Assert.Equal(new[] { "Door", "Lock" }, response.Behaviours.Select(behaviour => behaviour.Name));
+
+        var door = response.Behaviours[0];
+        Assert.Equal("Manual", door.SyncMode);
+        Assert.Equal("isOpen", Assert.Single(door.SyncedFields).Name);
+
+        var open = Assert.Single(door.NetworkMethods);
+        Assert.Equal("Open", open.Name);
+        Assert.False(open.HasNetworkCallableAttribute);
+
+        var calls = door.EventCalls;
+        Assert.Equal(3, calls.Length);
+        Assert.True(calls[0].IsNetworkEvent);
+        Assert.Equal("All", calls[0].NetworkTarget);
+        Assert.Equal("Door", calls[0].Target?.Behaviour);
+        Assert.Equal("Open", calls[0].Target?.Method);
+        Assert.Equal("Lock", calls[1].Target?.Behaviour);
+        Assert.Equal("Engage", calls[1].Target?.Method);
+        Assert.Equal("Missing", calls[2].EventName);
+        Assert.Null(calls[2].Target);
+    }
+
+    [Fact]
+    public async Task RemovesTheFilesItAddedOnceTheRequestCompletes()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var api = workspace.WriteFile("UdonSharp.cs", UdonSharpApi);
+        var door = workspace.WriteFile("Door.cs", Door);
+        await workspace.Manager.OpenOrUpdateDocumentAsync(door, Door, default);
+        var handler = new NetworkBehavioursHandler(workspace.Manager, new NetworkModelService(), NullLogger<NetworkBehavioursHandler>.Instance);
+
+        await handler.Handle(new NetworkBehavioursRequest { Uris = new[] { api.ToString(), door.ToString() } }, default);
+
+        Assert.False(workspace.Manager.ContainsDocument(api));
+        Assert.True(workspace.Manager.ContainsDocument(door));
+    }
+}
@@ -0,0 +1,76 @@
+using System.Collections.Generic;
+using UdonSharpLsp.Server.PolicyPacks;
+using Xunit;
+
+namespace UdonSharpLsp.Server.Tests.PolicyPacks;
+
+public sealed class PolicyRuleDefinitionTests
+{
+    [Fact]
+    public void BareLanguageFindsRegionalDocumentation()
+    {
+        var rule = CreateRule(new Dictionary<string, IDictionary<string, string>>
+        {
+            ["en-US"] = Markdown("English"),
+            ["ja-JP"] = Markdown("日本語"),
+        });
+
+        Assert.True(rule.TryGetDocumentation("ja", out var resolvedLocale, out var markdown));
+        Assert.Equal("ja-JP", resolvedLocale);
+        Assert.Equal("日本語", markdown);
+    }
+
+    [Fact]
+    public void ExactLocaleWinsOverOtherVariants()
+    {
+        var rule = CreateRule(new Dictionary<string, IDictionary<string, string>>
+        {
+            ["pt-BR"] = Markdown("Brasil"),
+            ["pt-PT"] = Markdown("Portugal"),
+        });
+
+        Assert.True(rule.TryGetDocumentation("pt-PT", out var resolvedLocale, out _));
+        Assert.Equal("pt-PT", resolvedLocale);
+    }
+
+    [Fact]
+    public void FallsBackToEnglishWhenTheLanguageIsMissing()
+    {
+        var rule = CreateRule(new Dictionary<string, IDictionary<string, string>>
+        {
+            ["en-US"] = Markdown("English"),
+            ["ja-JP"] = Markdown("日本語"),
+        });
+
+        Assert.True(rule.TryGetDocumentation("de-DE", out var resolvedLocale, out _));
+        Assert.Equal("en-US", resolvedLocale);
+    }
+
+    [Fact]
+    public void ChainListsSameLanguageVariantsBeforeEnglish()
+    {
+        var chain = PolicyRuleDefinition.GetLocaleFallbackChain("ja", new[] { "en-US", "ja-JP", "ko-KR" });
+
+        Assert.Equal(new[] { "ja", "ja-JP", "en-US" }, chain);
+    }
+
+    [Fact]
+    public void MissingDocumentationIsReportedAsNotFound()
+    {
+        var rule = CreateRule(null);
+
+        Assert.False(rule.TryGetDocumentation("en-US", out _, out _));
+    }
+
+    private static PolicyRuleDefinition CreateRule(IDictionary<string, IDictionary<string, string>> documentation) => new()
+    {
+        Id = "USH0001",
+        Title = "Title",
+        Message = "Message",
+        Category = "Networking",
+        DefaultSeverity = "warn",
+        Documentation = documentation,
+    };
+
+    private static IDictionary<string, string> Markdown(string markdown) => new Dictionary<string, string> { ["markdown"] = markdown };
+}
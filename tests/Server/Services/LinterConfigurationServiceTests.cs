@@ -0,0 +1,64 @@
+using System.IO;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging.Abstractions;
+using UdonSharpLsp.Server.Configuration;
+using UdonSharpLsp.Server.PolicyPacks;
+using UdonSharpLsp.Server.Services;
+using Xunit;
+
+namespace UdonSharpLsp.Server.Tests.Services;
+
+public sealed class LinterConfigurationServiceTests
+{
+    [Fact]
+    public async Task ApplyingAgainPicksUpAnEditedPolicyPack()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var packPath = Path.Combine(workspace.Directory, "team-pack.json");
+        var repository = new PolicyRepository();
+        var service = new LinterConfigurationService(
+            new SettingsProvider(),
+            new PolicyPackLoader(NullLogger<PolicyPackLoader>.Instance),
+            repository,
+            workspace.Manager,
+            NullLogger<LinterConfigurationService>.Instance,
+            workspace.Directory);
+        var settings = LinterSettings.Default with { UnityApiSurface = "none", PolicyPackPaths = new[] { packPath } };
+
+        File.WriteAllText(packPath, Pack("Original title"));
+        Assert.Equal(1, await service.ApplyAsync(settings, default));
+        Assert.Equal("Original title", repository.GetRule("TEAM0001")?.Title);
+
+        File.WriteAllText(packPath, Pack("Edited title"));
+        Assert.Equal(1, await service.ApplyAsync(settings, default));
+        Assert.Equal("Edited title", repository.GetRule("TEAM0001")?.Title);
+    }
+
+    [Fact]
+    public async Task RemovingAPackPathDropsItsRules()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var packPath = Path.Combine(workspace.Directory, "team-pack.json");
+        File.WriteAllText(packPath, Pack("Title"));
+        var repository = new PolicyRepository();
+        var service = new LinterConfigurationService(
+            new SettingsProvider(),
+            new PolicyPackLoader(NullLogger<PolicyPackLoader>.Instance),
+            repository,
+            workspace.Manager,
+            NullLogger<LinterConfigurationService>.Instance,
+            workspace.Directory);
+
+        await service.ApplyAsync(LinterSettings.Default with { UnityApiSurface = "none", PolicyPackPaths = new[] { packPath } }, default);
+        Assert.Equal(0, await service.ApplyAsync(LinterSettings.Default with { UnityApiSurface = "none" }, default));
+        Assert.Null(repository.GetRule("TEAM0001"));
+    }
+
+    private static string Pack(string title) => $$"""
+        {
+          "rules": [
+            { "id": "TEAM0001", "title": "{{title}}", "message": "Message", "category": "Team", "defaultSeverity": "warn" }
+          ]
+        }
+        """;
+}
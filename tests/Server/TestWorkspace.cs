@@ -0,0 +1,46 @@
+using System;
+using System.IO;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging.Abstractions;
+using UdonSharpLsp.Server.Configuration;
+using UdonSharpLsp.Server.Workspace;
+
+namespace UdonSharpLsp.Server.Tests;
+
+/// <summary>A temporary folder for source files and a workspace initialized without Unity stubs.</summary>
+internal sealed class TestWorkspace : IDisposable
+{
+    private TestWorkspace(WorkspaceManager manager, string directory)
+    {
+        Manager = manager;
+        Directory = directory;
+    }
+
+    public WorkspaceManager Manager { get; }
+
+    public string Directory { get; }
+
+    public static async Task<TestWorkspace> CreateAsync()
+    {
+        var directory = Path.Combine(Path.GetTempPath(), "udonsharp-lsp-tests", Guid.NewGuid().ToString("N"));
+        System.IO.Directory.CreateDirectory(directory);
+
+        var manager = new WorkspaceManager(
+            new MetadataReferenceService(NullLogger<MetadataReferenceService>.Instance),
+            NullLogger<WorkspaceManager>.Instance);
+        await manager.InitializeAsync(LinterSettings.Default with { UnityApiSurface = "none" }, directory, default);
+        return new TestWorkspace(manager, directory);
+    }
+
+    public Uri WriteFile(string name, string text)
+    {
+        var path = Path.Combine(Directory, name);
+        File.WriteAllText(path, text);
+        return new Uri(path);
+    }
+
+    public void Dispose()
+    {
+        System.IO.Directory.Delete(Directory, recursive: true);
+    }
+}
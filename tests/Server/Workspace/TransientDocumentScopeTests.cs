@@ -0,0 +1,93 @@
+using System;
+using System.IO;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging.Abstractions;
+using UdonSharpLsp.Server.Workspace;
+using Xunit;
+
+namespace UdonSharpLsp.Server.Tests.Workspace;
+
+public sealed class TransientDocumentScopeTests
+{
+    [Fact]
+    public async Task AddsUnopenedFilesUntilDisposed()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var uri = workspace.WriteFile("Door.cs", "class Door { }");
+
+        using (var scope = await OpenAsync(workspace, uri))
+        {
+            Assert.Equal(new[] { uri }, scope.Documents);
+            Assert.True(workspace.Manager.ContainsDocument(uri));
+        }
+
+        Assert.False(workspace.Manager.ContainsDocument(uri));
+    }
+
+    [Fact]
+    public async Task KeepsDocumentsTheClientAlreadyOpened()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var uri = workspace.WriteFile("Door.cs", "class Door { }");
+        await workspace.Manager.OpenOrUpdateDocumentAsync(uri, "class Door { int edited; }", default);
+
+        using (var scope = await OpenAsync(workspace, uri))
+        {
+            Assert.Equal(new[] { uri }, scope.Documents);
+        }
+
+        var document = await workspace.Manager.GetDocumentAsync(uri, default);
+        Assert.NotNull(document);
+        Assert.Equal("class Door { int edited; }", (await document.GetTextAsync()).ToString());
+    }
+
+    [Fact]
+    public async Task KeepsDocumentsTheClientOpensWhileTheScopeHoldsThem()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var uri = workspace.WriteFile("Door.cs", "class Door { }");
+
+        using (await OpenAsync(workspace, uri))
+        {
+            await workspace.Manager.OpenOrUpdateDocumentAsync(uri, "class Door { }", default);
+        }
+
+        Assert.True(workspace.Manager.ContainsDocument(uri));
+    }
+
+    [Fact]
+    public async Task OverlappingScopesShareDocumentsUntilTheLastIsDisposed()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var uri = workspace.WriteFile("Door.cs", "class Door { }");
+
+        var first = await OpenAsync(workspace, uri);
+        var second = await OpenAsync(workspace, uri);
+
+        first.Dispose();
+        Assert.True(workspace.Manager.ContainsDocument(uri));
+
+        second.Dispose();
+        Assert.False(workspace.Manager.ContainsDocument(uri));
+    }
+
+    [Fact]
+    public async Task SkipsMissingFilesAndNonFileUris()
+    {
+        using var workspace = await TestWorkspace.CreateAsync();
+        var missing = new Uri(Path.Combine(workspace.Directory, "Missing.cs"));
+
+        using var scope = await TransientDocumentScope.OpenAsync(
+            workspace.Manager,
+            new[] { missing.ToString(), "untitled:Untitled-1", "not a uri" },
+            NullLogger.Instance,
+            default);
+
+        Assert.Empty(scope.Documents);
+    }
+
+    private static Task<TransientDocumentScope> OpenAsync(TestWorkspace workspace, Uri uri)
+    {
+        return TransientDocumentScope.OpenAsync(workspace.Manager, new[] { uri.ToString() }, NullLogger.Instance, default);
+    }
+}